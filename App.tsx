@@ -1,20 +1,45 @@
 
-import React, { useState, useEffect, useCallback, useReducer } from 'react';
+import React, { useState, useEffect, useCallback, useReducer, useRef, useMemo } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import InputPanel from './components/InputPanel';
 import Controls from './components/Controls';
 import MindMapCanvas from './components/MindMapCanvas';
 import Modal from './components/Modal';
+import WorkspacePanel from './components/WorkspacePanel';
+import MapDiffReview from './components/MapDiffReview';
+import TagSuggestionReview from './components/TagSuggestionReview';
+import CrossLinkSuggestionReview from './components/CrossLinkSuggestionReview';
+import ShortcutCheatSheet from './components/ShortcutCheatSheet';
+import NodeContextMenu, { NodeMenuAction } from './components/NodeContextMenu';
+import StudyView from './components/StudyView';
+import QuizView from './components/QuizView';
+import TaskBoard from './components/TaskBoard';
+import GanttView from './components/GanttView';
+import TaskEstimateReview from './components/TaskEstimateReview';
 import {
   MindMapNode,
   MindMapMode,
   InputType,
-  MindMapNodeType,
   AIMapNode,
   AIFlashcardOutput,
   AISummaryOutput,
   AIProsConsOutput,
   AIQuestionsOutput,
+  SavedMindMap,
+  MindMapSummary,
+  MapExportFormat,
+  ImageExportOptions,
+  MapChange,
+  NodeExpansionOptions,
+  MapHighlightState,
+  TagPalette,
+  TagSuggestion,
+  MindMapLink,
+  CrossLinkSuggestion,
+  FlashcardSchedule,
+  ReviewGrade,
+  QuizSession,
+  TaskEstimateSuggestion,
 } from './types';
 import {
   generateMindMapStructure,
@@ -22,99 +47,207 @@ import {
   generateSummary,
   generateProsCons,
   generateClarifyingQuestions,
+  generateQuiz,
   refineMindMapStructure,
   mergeDuplicateIdeas,
-} from './services/geminiService';
+  expandNodeStructure,
+  suggestNodeTags,
+  suggestCrossLinks,
+  suggestTaskEstimates,
+} from './services/aiService';
+import {
+  createBlankMindMap,
+  listMindMaps,
+  getMindMap,
+  saveMindMap,
+  deleteMindMap,
+  renameMindMap,
+  duplicateMindMap,
+  getLastOpenedMapId,
+  setLastOpenedMapId,
+  toMindMapSummary,
+} from './services/workspaceService';
+import { serializeMindMapFile, parseMindMapFile } from './services/mapFileService';
+import { mindMapToMarkdown, markdownToMindMap, mindMapToOpml, opmlToMindMap } from './services/outlineService';
+import { mindMapToFreeMind, freeMindToMindMap, mindMapToXMind } from './services/desktopMapService';
+import { mindMapToSvg, mindMapToPng } from './services/imageExportService';
+import { collectFlashcards, flashcardsToAnki, flashcardsToCsv } from './services/flashcardExportService';
+import { collectCalendarEntries, mindMapToICalendar } from './services/calendarExportService';
+import { reconcileProposedMap, diffMindMaps, applyMapChanges } from './services/mapDiffService';
+import { searchMindMap, collectTags, findTaggedNodes, nodesOutsideTagFilter } from './services/searchService';
+import { getTagPalette, saveTagPalette, addTag, toTagSuggestions } from './services/tagService';
+import { describeSubtreeForQuiz, quizQuestionCount, toQuizQuestions } from './services/quizService';
+import { collectStudyCards, dueStudyCards, scheduleReview } from './services/studyService';
+import {
+  collectTasks,
+  computeTaskRollups,
+  finishedNodeIds,
+  overdueNodeIds,
+  TaskMetadata,
+  withStage,
+} from './services/taskService';
+import { toTaskEstimateSuggestions } from './services/scheduleService';
+import { createLink, findLinkBetween, liveLinks, linksOfNode, mergeLinks, toCrossLinkSuggestions } from './services/linkService';
+import { downloadFile, readFileAsText } from './utils/fileUtils';
+import { toDateKey } from './utils/dateUtils';
+import {
+  nodeTypeForDepth,
+  flattenTree,
+  normalizeBranch,
+  moveNode,
+  dropPosition,
+  topmostNodeIds,
+  insertBranches,
+  duplicateBranches,
+  keyboardMovePosition,
+  adjacentNode,
+  NodePosition,
+  DropPosition,
+  KeyboardMove,
+  SelectionMove,
+} from './utils/treeUtils';
 
 // Reducer for managing mind map state and history
 interface MindMapState {
   nodes: MindMapNode[];
   history: MindMapNode[][];
   historyPointer: number;
+  links: MindMapLink[];
+  linkHistory: MindMapLink[][]; // The cross-links at each history entry, so undo and redo restore them with the nodes
+}
+
+interface NodeMetadataUpdate {
+  nodeId: string;
+  metadata: Partial<MindMapNode['metadata']>;
+  status?: MindMapNode['status'];
 }
 
 type MindMapAction =
+  | { type: 'LOAD_MAP'; payload: MindMapState }
   | { type: 'SET_NODES'; payload: MindMapNode[] }
-  | { type: 'ADD_NODE'; payload: { parentId: string | null; newNode: MindMapNode } }
+  | { type: 'REPLACE_MAP'; payload: { nodes: MindMapNode[]; links: MindMapLink[] } }
+  | { type: 'ADD_NODE'; payload: { parentId: string | null; newNode: MindMapNode; index?: number } } // Appended without an index
   | { type: 'UPDATE_NODE_TEXT'; payload: { nodeId: string; newText: string } }
   | { type: 'DELETE_NODE'; payload: { nodeId: string } }
+  | { type: 'SET_CHILDREN'; payload: { nodeId: string; children: MindMapNode[] } }
+  | { type: 'MOVE_NODE'; payload: { nodeId: string; position: NodePosition } }
   | { type: 'TOGGLE_EXPAND'; payload: { nodeId: string } }
+  | { type: 'REVEAL_NODES'; payload: { nodeIds: string[] } }
   | { type: 'UPDATE_NODE_METADATA'; payload: { nodeId: string; metadata: Partial<MindMapNode['metadata']>; status?: MindMapNode['status'] } }
+  | { type: 'UPDATE_NODES_METADATA'; payload: { updates: NodeMetadataUpdate[] } }
+  | { type: 'SET_NODE_TAGS'; payload: { tagsByNode: Record<string, string[]> } }
+  | { type: 'ADD_LINKS'; payload: { links: MindMapLink[] } }
+  | { type: 'UPDATE_LINK'; payload: { linkId: string; changes: Partial<Omit<MindMapLink, 'id'>> } }
+  | { type: 'DELETE_LINK'; payload: { linkId: string } }
+  | { type: 'RECORD_REVIEW'; payload: { nodeId: string; schedule: FlashcardSchedule } }
   | { type: 'UNDO' }
   | { type: 'REDO' };
 
+// Records an edit as a new history entry, dropping any redo steps past the current one
+const pushHistory = (state: MindMapState, nodes: MindMapNode[], links: MindMapLink[] = state.links): MindMapState => {
+  const history = [...state.history.slice(0, state.historyPointer + 1), nodes];
+  return {
+    ...state,
+    nodes,
+    links,
+    history,
+    historyPointer: history.length - 1,
+    linkHistory: [...state.linkHistory.slice(0, state.historyPointer + 1), links],
+  };
+};
+
 const mindMapReducer = (state: MindMapState, action: MindMapAction): MindMapState => {
   let newNodes: MindMapNode[];
   let newHistory: MindMapNode[][];
   let newHistoryPointer: number;
 
   switch (action.type) {
+    case 'LOAD_MAP':
+      // Replaces the whole state (nodes, links and undo history) when opening a saved map
+      if (action.payload.history.length === 0) {
+        return { ...action.payload, history: [action.payload.nodes], historyPointer: 0, linkHistory: [action.payload.links] };
+      }
+      return action.payload;
+
     case 'SET_NODES':
-      newHistory = state.history.slice(0, state.historyPointer + 1);
-      newHistory.push(action.payload);
-      return {
-        nodes: action.payload,
-        history: newHistory,
-        historyPointer: newHistory.length - 1,
-      };
+      return pushHistory(state, action.payload);
+
+    case 'REPLACE_MAP':
+      // Swaps in another map's nodes and links (e.g. an imported file) as one undo step
+      return pushHistory(state, action.payload.nodes, action.payload.links);
 
     case 'ADD_NODE': {
       newNodes = JSON.parse(JSON.stringify(state.nodes)); // Deep copy for immutability
       const newNode = action.payload.newNode;
+      const insert = (siblings: MindMapNode[]) => siblings.splice(action.payload.index ?? siblings.length, 0, newNode);
 
       if (action.payload.parentId === null) {
-        newNodes.push(newNode);
+        insert(newNodes);
       } else {
         const parentNode = findNodeById(newNodes, action.payload.parentId);
         if (parentNode) {
-          parentNode.children.push(newNode);
+          insert(parentNode.children);
           parentNode.isExpanded = true; // Expand parent when adding child
         }
       }
-      newHistory = state.history.slice(0, state.historyPointer + 1);
-      newHistory.push(newNodes);
-      return {
-        nodes: newNodes,
-        history: newHistory,
-        historyPointer: newHistory.length - 1,
-      };
+      return pushHistory(state, newNodes);
     }
 
     case 'UPDATE_NODE_TEXT': {
       newNodes = updateNodeRecursive(state.nodes, action.payload.nodeId, (node) => {
         node.text = action.payload.newText;
       });
-      newHistory = state.history.slice(0, state.historyPointer + 1);
-      newHistory.push(newNodes);
-      return {
-        nodes: newNodes,
-        history: newHistory,
-        historyPointer: newHistory.length - 1,
-      };
+      return pushHistory(state, newNodes);
     }
 
     case 'DELETE_NODE': {
       newNodes = deleteNodeRecursive(state.nodes, action.payload.nodeId);
-      newHistory = state.history.slice(0, state.historyPointer + 1);
-      newHistory.push(newNodes);
-      return {
-        nodes: newNodes,
-        history: newHistory,
-        historyPointer: newHistory.length - 1,
-      };
+      return pushHistory(state, newNodes);
+    }
+
+    case 'SET_CHILDREN': {
+      // Grafts a regenerated branch under one node, leaving the rest of the map as is
+      newNodes = updateNodeRecursive(state.nodes, action.payload.nodeId, (node) => {
+        node.children = action.payload.children;
+        node.isExpanded = true;
+      });
+      return pushHistory(state, newNodes);
+    }
+
+    case 'MOVE_NODE': {
+      // Refused moves (e.g. into the node's own branch) leave the map and history untouched
+      const movedNodes = moveNode(state.nodes, action.payload.nodeId, action.payload.position);
+      if (!movedNodes) return state;
+      return pushHistory(state, movedNodes);
     }
 
     case 'TOGGLE_EXPAND': {
       newNodes = updateNodeRecursive(state.nodes, action.payload.nodeId, (node) => {
         node.isExpanded = !node.isExpanded;
       });
-      newHistory = state.history.slice(0, state.historyPointer + 1);
-      newHistory.push(newNodes);
-      return {
-        nodes: newNodes,
-        history: newHistory,
-        historyPointer: newHistory.length - 1,
-      };
+      return pushHistory(state, newNodes);
+    }
+
+    case 'REVEAL_NODES': {
+      // Expands collapsed ancestors of search/filter results. Showing results isn't an edit,
+      // so this updates the current history entry instead of adding an undo step.
+      const targets = new Set(action.payload.nodeIds);
+      const collapsedAncestorIds = new Set(
+        flattenTree(state.nodes)
+          .filter(({ node }) => targets.has(node.id))
+          .flatMap(({ ancestors }) => ancestors.filter((ancestor) => !ancestor.isExpanded).map((ancestor) => ancestor.id))
+      );
+      if (collapsedAncestorIds.size === 0) return state;
+      const expandAncestors = (nodes: MindMapNode[]): MindMapNode[] =>
+        nodes.map((node) => ({
+          ...node,
+          isExpanded: node.isExpanded || collapsedAncestorIds.has(node.id),
+          children: expandAncestors(node.children),
+        }));
+      newNodes = expandAncestors(state.nodes);
+      newHistory = [...state.history];
+      newHistory[state.historyPointer] = newNodes;
+      return { ...state, nodes: newNodes, history: newHistory };
     }
 
     case 'UPDATE_NODE_METADATA': {
@@ -124,13 +257,60 @@ const mindMapReducer = (state: MindMapState, action: MindMapAction): MindMapStat
           node.status = action.payload.status;
         }
       });
-      newHistory = state.history.slice(0, state.historyPointer + 1);
-      newHistory.push(newNodes);
-      return {
-        nodes: newNodes,
-        history: newHistory,
-        historyPointer: newHistory.length - 1,
-      };
+      return pushHistory(state, newNodes);
+    }
+
+    case 'UPDATE_NODES_METADATA': {
+      // Bulk version of UPDATE_NODE_METADATA, applied as a single undo step
+      newNodes = action.payload.updates.reduce(
+        (nodes, { nodeId, metadata, status }) =>
+          updateNodeRecursive(nodes, nodeId, (node) => {
+            node.metadata = { ...node.metadata, ...metadata };
+            if (status) {
+              node.status = status;
+            }
+          }),
+        state.nodes
+      );
+      return pushHistory(state, newNodes);
+    }
+
+    case 'SET_NODE_TAGS': {
+      // Sets the tags of one or more nodes as a single undo step (used for bulk AI tagging too)
+      const { tagsByNode } = action.payload;
+      const setTags = (nodes: MindMapNode[]): MindMapNode[] =>
+        nodes.map((node) => ({
+          ...node,
+          tags: tagsByNode[node.id] ?? node.tags,
+          children: setTags(node.children),
+        }));
+      newNodes = setTags(state.nodes);
+      return pushHistory(state, newNodes);
+    }
+
+    case 'ADD_LINKS':
+      return pushHistory(state, state.nodes, mergeLinks(state.links, action.payload.links));
+
+    case 'UPDATE_LINK':
+      return pushHistory(
+        state,
+        state.nodes,
+        state.links.map((link) => (link.id === action.payload.linkId ? { ...link, ...action.payload.changes } : link))
+      );
+
+    case 'DELETE_LINK':
+      return pushHistory(state, state.nodes, state.links.filter((link) => link.id !== action.payload.linkId));
+
+    case 'RECORD_REVIEW': {
+      // Study progress isn't an edit to the map, so the new schedule goes into every history
+      // entry: undo and redo leave it alone
+      const setSchedule = (nodes: MindMapNode[]) =>
+        updateNodeRecursive(nodes, action.payload.nodeId, (node) => {
+          if (node.metadata?.flashcard) {
+            node.metadata = { ...node.metadata, flashcard: { ...node.metadata.flashcard, schedule: action.payload.schedule } };
+          }
+        });
+      return { ...state, nodes: setSchedule(state.nodes), history: state.history.map(setSchedule) };
     }
 
     case 'UNDO':
@@ -138,6 +318,7 @@ const mindMapReducer = (state: MindMapState, action: MindMapAction): MindMapStat
       return {
         ...state,
         nodes: state.history[newHistoryPointer],
+        links: state.linkHistory[newHistoryPointer],
         historyPointer: newHistoryPointer,
       };
 
@@ -146,6 +327,7 @@ const mindMapReducer = (state: MindMapState, action: MindMapAction): MindMapStat
       return {
         ...state,
         nodes: state.history[newHistoryPointer],
+        links: state.linkHistory[newHistoryPointer],
         historyPointer: newHistoryPointer,
       };
 
@@ -188,21 +370,17 @@ const deleteNodeRecursive = (nodes: MindMapNode[], targetId: string): MindMapNod
   }));
 };
 
-// Helper to convert AIMapNode to MindMapNode
+// Helper to convert AIMapNode to MindMapNode. With useIdHints, ids echoed by the AI are kept for reconcileProposedMap to check.
 const convertAIMapNodeToMindMapNode = (
   aiNode: AIMapNode,
   parentId: string | null,
-  level: number
+  level: number,
+  useIdHints: boolean = false
 ): MindMapNode => {
-  const nodeType =
-    level === 0
-      ? MindMapNodeType.MAIN_TOPIC
-      : level === 1
-      ? MindMapNodeType.SUB_TOPIC
-      : MindMapNodeType.DETAIL;
+  const nodeType = nodeTypeForDepth(level);
 
   const node: MindMapNode = {
-    id: uuidv4(),
+    id: (useIdHints && aiNode.id) || uuidv4(),
     text: aiNode.title,
     children: [],
     parentId: parentId,
@@ -221,7 +399,7 @@ const convertAIMapNodeToMindMapNode = (
 
   node.children =
     aiNode.subtopics?.map((subNode) =>
-      convertAIMapNodeToMindMapNode(subNode, node.id, level + 1)
+      convertAIMapNodeToMindMapNode(subNode, node.id, level + 1, useIdHints)
     ) || [];
 
   return node;
@@ -230,6 +408,7 @@ const convertAIMapNodeToMindMapNode = (
 // Helper to convert MindMapNode to AIMapNode for sending back to AI
 const convertMindMapNodeToAIMapNode = (node: MindMapNode): AIMapNode => {
   const aiNode: AIMapNode = {
+    id: node.id,
     title: node.text,
     subtopics: node.children.map(convertMindMapNodeToAIMapNode),
   };
@@ -243,19 +422,124 @@ const convertMindMapNodeToAIMapNode = (node: MindMapNode): AIMapNode => {
   return aiNode;
 };
 
+// The map as the refinement prompt sees it: the tree and its cross-links
+const mindMapJsonForAI = (nodes: MindMapNode[], links: MindMapLink[]): string =>
+  JSON.stringify({
+    map: nodes.map(convertMindMapNodeToAIMapNode),
+    links: links.map(({ fromId, toId, label, directed }) => ({ fromId, toId, label, directed })),
+  });
+
+type NodeConversion = 'task' | 'flashcard' | 'summary' | 'questions';
+
+// One node's metadata for a bulk conversion, or null when the AI gave nothing back
+const convertNodeMetadata = async (node: MindMapNode, type: NodeConversion): Promise<NodeMetadataUpdate | null> => {
+  switch (type) {
+    case 'task':
+      return { nodeId: node.id, metadata: { task: { description: `Complete "${node.text}"`, completed: false } }, status: 'task' };
+    case 'flashcard': {
+      const result = await generateFlashcard(node.text);
+      return result ? { nodeId: node.id, metadata: { flashcard: result }, status: 'flashcard' } : null;
+    }
+    case 'summary': {
+      const result = await generateSummary(node.text);
+      return result ? { nodeId: node.id, metadata: { summary: result.summary }, status: 'summary' } : null;
+    }
+    case 'questions': {
+      const result = await generateClarifyingQuestions(node.text);
+      return result?.questions ? { nodeId: node.id, metadata: { questions: result.questions } } : null;
+    }
+  }
+};
+
 const App: React.FC = () => {
   const [mindMapState, dispatch] = useReducer(mindMapReducer, {
     nodes: [],
     history: [],
     historyPointer: -1,
+    links: [],
+    linkHistory: [],
   });
   const { nodes: mindMapNodes, history, historyPointer } = mindMapState;
+  const visibleLinks = useMemo(() => liveLinks(mindMapState.links, mindMapNodes), [mindMapState.links, mindMapNodes]);
 
   const [selectedNode, setSelectedNode] = useState<MindMapNode | null>(null);
+  // Ctrl/Cmd/Shift-click multi-selection; it only counts while its primary node is still the selected one
+  const [multiSelection, setMultiSelection] = useState<{ primaryId: string; ids: string[] } | null>(null);
+  const [editingNodeId, setEditingNodeId] = useState<string | null>(null);
+  const [contextMenu, setContextMenu] = useState<{ nodeId: string; x: number; y: number } | null>(null);
+  // Node a new cross-link starts from, while the user picks the node it goes to
+  const [linkingFromId, setLinkingFromId] = useState<string | null>(null);
+  // Last Markdown copied from the map, for pasting when the system clipboard can't be read
+  const copiedMarkdownRef = useRef<string>('');
+  const [isShortcutHelpOpen, setIsShortcutHelpOpen] = useState<boolean>(false);
+  // The study, quiz, task board and timeline views take the canvas's place
+  const [mainView, setMainView] = useState<'map' | 'study' | 'quiz' | 'board' | 'timeline'>('map');
+  // The quiz in progress, kept while the user goes back to the map to review a missed node
+  const [quizSession, setQuizSession] = useState<QuizSession | null>(null);
+  // The selection as it is in the current map, so edits such as tag changes show up in the controls
+  const liveSelectedNode = useMemo(
+    () => (selectedNode ? findNodeById(mindMapNodes, selectedNode.id) ?? null : null),
+    [mindMapNodes, selectedNode]
+  );
+  const selectedNodeLinks = useMemo(
+    () => (selectedNode ? linksOfNode(visibleLinks, mindMapNodes, selectedNode.id) : []),
+    [visibleLinks, mindMapNodes, selectedNode]
+  );
+  const selectedNodeIds = useMemo(() => {
+    if (!selectedNode) return new Set<string>();
+    return new Set(multiSelection?.primaryId === selectedNode.id ? multiSelection.ids : [selectedNode.id]);
+  }, [selectedNode, multiSelection]);
   const [currentMode, setCurrentMode] = useState<MindMapMode>(MindMapMode.GENERAL);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [modalContent, setModalContent] = useState<React.ReactNode | null>(null);
   const [isModalOpen, setIsModalOpen] = useState<boolean>(false);
+  // AI restructuring waiting for the user to accept or reject each change
+  const [pendingReview, setPendingReview] = useState<{ title: string; summary: string; changes: MapChange[] } | null>(null);
+  // Tag colours (shared by all maps) and AI tag proposals waiting for review
+  const [tagPalette, setTagPalette] = useState<TagPalette>(getTagPalette);
+  const [pendingTagSuggestions, setPendingTagSuggestions] = useState<TagSuggestion[] | null>(null);
+  const [pendingLinkSuggestions, setPendingLinkSuggestions] = useState<CrossLinkSuggestion[] | null>(null);
+  const [pendingEstimates, setPendingEstimates] = useState<TaskEstimateSuggestion[] | null>(null);
+
+  // Search and tag filter shown on the canvas
+  const [searchTerm, setSearchTerm] = useState<string>('');
+  const [activeMatchIndex, setActiveMatchIndex] = useState<number>(0);
+  const [tagFilter, setTagFilter] = useState<string>('');
+  const [hideOutsideFilter, setHideOutsideFilter] = useState<boolean>(false);
+  const outsideFilterIds = useMemo(() => nodesOutsideTagFilter(mindMapNodes, tagFilter), [mindMapNodes, tagFilter]);
+  // Task progress is derived from the nodes, so toggling, moving or deleting a task updates it on the next render
+  const [hideFinished, setHideFinished] = useState<boolean>(false);
+  const taskRollups = useMemo(() => computeTaskRollups(mindMapNodes), [mindMapNodes]);
+  const finishedIds = useMemo(() => finishedNodeIds(mindMapNodes, taskRollups), [mindMapNodes, taskRollups]);
+  const overdueIds = useMemo(() => overdueNodeIds(mindMapNodes, toDateKey()), [mindMapNodes]);
+  const searchMatchIds = useMemo(
+    () =>
+      searchMindMap(mindMapNodes, searchTerm).filter(
+        (id) => !(hideOutsideFilter && outsideFilterIds.has(id)) && !(hideFinished && finishedIds.has(id))
+      ),
+    [mindMapNodes, searchTerm, hideOutsideFilter, outsideFilterIds, hideFinished, finishedIds]
+  );
+  const availableTags = useMemo(() => collectTags(mindMapNodes), [mindMapNodes]);
+  const highlight = useMemo<MapHighlightState>(
+    () => ({
+      matchIds: new Set(searchMatchIds),
+      activeMatchId: searchMatchIds.length > 0 ? searchMatchIds[Math.min(activeMatchIndex, searchMatchIds.length - 1)] : null,
+      outsideFilterIds,
+      hideOutsideFilter,
+      finishedIds,
+      hideFinished,
+      overdueIds,
+      taskRollups,
+    }),
+    [searchMatchIds, activeMatchIndex, outsideFilterIds, hideOutsideFilter, finishedIds, hideFinished, overdueIds, taskRollups]
+  );
+
+  // Workspace state: which saved map is open and the list shown in the workspace panel
+  const [currentMap, setCurrentMap] = useState<Pick<SavedMindMap, 'id' | 'name' | 'createdAt'> | null>(null);
+  const [savedMaps, setSavedMaps] = useState<MindMapSummary[]>([]);
+  // The state/mode just loaded from storage, so opening a map doesn't count as an edit
+  const loadedSnapshotRef = useRef<{ state: MindMapState; mode: MindMapMode } | null>(null);
+  const hasRestoredWorkspaceRef = useRef<boolean>(false);
 
   useEffect(() => {
     // Initialize history with empty array if empty on first render
@@ -264,6 +548,214 @@ const App: React.FC = () => {
     }
   }, [history.length, mindMapNodes.length]);
 
+  const openSavedMap = useCallback((map: SavedMindMap) => {
+    const state: MindMapState = {
+      nodes: map.nodes,
+      history: map.history,
+      historyPointer: map.historyPointer,
+      links: map.links ?? [],
+      // Maps saved before links were undoable have no link history: every step gets the current links
+      linkHistory:
+        map.linkHistory?.length === map.history.length ? map.linkHistory : map.history.map(() => map.links ?? []),
+    };
+    dispatch({ type: 'LOAD_MAP', payload: state });
+    setCurrentMode(map.mode);
+    setCurrentMap({ id: map.id, name: map.name, createdAt: map.createdAt });
+    setSelectedNode(null);
+    setLinkingFromId(null);
+    setQuizSession(null);
+    setMainView('map');
+    setLastOpenedMapId(map.id);
+    loadedSnapshotRef.current = { state, mode: map.mode };
+  }, []);
+
+  const upsertMapSummary = useCallback((map: SavedMindMap) => {
+    setSavedMaps((prev) => [toMindMapSummary(map), ...prev.filter((m) => m.id !== map.id)]);
+  }, []);
+
+  // Restore the last opened map (or start a fresh one) on first load
+  useEffect(() => {
+    if (hasRestoredWorkspaceRef.current) return; // StrictMode runs effects twice in development
+    hasRestoredWorkspaceRef.current = true;
+    const restoreWorkspace = async () => {
+      try {
+        const maps = await listMindMaps();
+        const lastMapId = getLastOpenedMapId();
+        const mapToOpen =
+          (lastMapId && (await getMindMap(lastMapId))) ||
+          (maps.length > 0 && (await getMindMap(maps[0].id))) ||
+          (await saveMindMap(createBlankMindMap(MindMapMode.GENERAL)));
+        setSavedMaps(maps.some((m) => m.id === mapToOpen.id) ? maps : [toMindMapSummary(mapToOpen), ...maps]);
+        openSavedMap(mapToOpen);
+      } catch (error) {
+        console.error('Error restoring workspace:', error);
+        alert('Could not open the local workspace. Changes to this map will not be saved.');
+      }
+    };
+    restoreWorkspace();
+  }, [openSavedMap]);
+
+  // Autosave the open map after every reducer dispatch or mode change
+  useEffect(() => {
+    if (!currentMap) return;
+    const snapshot = loadedSnapshotRef.current;
+    if (snapshot && snapshot.state === mindMapState && snapshot.mode === currentMode) return;
+
+    const mapToSave: SavedMindMap = {
+      ...currentMap,
+      mode: currentMode,
+      nodes: mindMapState.nodes,
+      history: mindMapState.history,
+      historyPointer: mindMapState.historyPointer,
+      links: mindMapState.links,
+      linkHistory: mindMapState.linkHistory,
+      updatedAt: new Date().toISOString(),
+    };
+    saveMindMap(mapToSave)
+      .then(upsertMapSummary)
+      .catch((error) => console.error('Error autosaving mind map:', error));
+  }, [mindMapState, currentMode, currentMap, upsertMapSummary]);
+
+  const handleOpenMap = useCallback(async (mapId: string) => {
+    try {
+      const map = await getMindMap(mapId);
+      if (map) {
+        openSavedMap(map);
+      } else {
+        alert('That map could not be found in the workspace.');
+        setSavedMaps((prev) => prev.filter((m) => m.id !== mapId));
+      }
+    } catch (error) {
+      console.error('Error opening mind map:', error);
+      alert(`Error opening mind map: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }, [openSavedMap]);
+
+  const handleCreateMap = useCallback(async () => {
+    try {
+      const map = await saveMindMap(createBlankMindMap(currentMode));
+      upsertMapSummary(map);
+      openSavedMap(map);
+    } catch (error) {
+      console.error('Error creating mind map:', error);
+      alert(`Error creating mind map: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }, [currentMode, openSavedMap, upsertMapSummary]);
+
+  const handleRenameMap = useCallback(async (mapId: string) => {
+    const summary = savedMaps.find((m) => m.id === mapId);
+    const name = prompt('Rename map:', summary?.name ?? '')?.trim();
+    if (!name) return;
+    try {
+      if (currentMap?.id === mapId) {
+        setCurrentMap({ ...currentMap, name }); // Autosave persists the new name
+      } else {
+        const renamed = await renameMindMap(mapId, name);
+        if (renamed) upsertMapSummary(renamed);
+      }
+    } catch (error) {
+      console.error('Error renaming mind map:', error);
+      alert(`Error renaming mind map: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }, [savedMaps, currentMap, upsertMapSummary]);
+
+  const handleDuplicateMap = useCallback(async (mapId: string) => {
+    try {
+      // Duplicate the open map from memory so edits still being autosaved are included
+      const source: SavedMindMap | null =
+        currentMap?.id === mapId
+          ? {
+              ...currentMap,
+              mode: currentMode,
+              nodes: mindMapState.nodes,
+              history: mindMapState.history,
+              historyPointer: mindMapState.historyPointer,
+              links: mindMapState.links,
+              linkHistory: mindMapState.linkHistory,
+              updatedAt: new Date().toISOString(),
+            }
+          : await getMindMap(mapId);
+      if (!source) return;
+      const copy = await duplicateMindMap(source);
+      upsertMapSummary(copy);
+    } catch (error) {
+      console.error('Error duplicating mind map:', error);
+      alert(`Error duplicating mind map: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }, [currentMap, currentMode, mindMapState, upsertMapSummary]);
+
+  const handleDeleteMap = useCallback(async (mapId: string) => {
+    const summary = savedMaps.find((m) => m.id === mapId);
+    if (!confirm(`Delete "${summary?.name ?? 'this map'}"? This cannot be undone.`)) return;
+    try {
+      await deleteMindMap(mapId);
+      const remaining = savedMaps.filter((m) => m.id !== mapId);
+      setSavedMaps(remaining);
+      if (currentMap?.id === mapId) {
+        const next =
+          (remaining.length > 0 && (await getMindMap(remaining[0].id))) ||
+          (await saveMindMap(createBlankMindMap(currentMode)));
+        if (remaining.length === 0) upsertMapSummary(next);
+        openSavedMap(next);
+      }
+    } catch (error) {
+      console.error('Error deleting mind map:', error);
+      alert(`Error deleting mind map: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }, [savedMaps, currentMap, currentMode, openSavedMap, upsertMapSummary]);
+
+  // Auto-expand collapsed branches holding results, including ones that start matching after an edit.
+  // Each result is revealed once per search and filter, so users can still fold branches while a search is active.
+  const revealedResultsRef = useRef<{ key: string; ids: Set<string> }>({ key: '', ids: new Set() });
+  useEffect(() => {
+    const key = JSON.stringify([searchTerm, tagFilter]);
+    if (revealedResultsRef.current.key !== key) revealedResultsRef.current = { key, ids: new Set() };
+    const revealed = revealedResultsRef.current.ids;
+    const nodeIds = [...searchMatchIds, ...findTaggedNodes(mindMapNodes, tagFilter)].filter((id) => !revealed.has(id));
+    if (nodeIds.length > 0) {
+      nodeIds.forEach((id) => revealed.add(id));
+      dispatch({ type: 'REVEAL_NODES', payload: { nodeIds } });
+    }
+  }, [searchTerm, tagFilter, searchMatchIds, mindMapNodes]);
+
+  const handleSearchChange = useCallback((term: string) => {
+    setSearchTerm(term);
+    setActiveMatchIndex(0);
+  }, []);
+
+  // Steps to the next (1) or previous (-1) search result, wrapping around, and selects it
+  const handleStepSearchResult = useCallback((direction: 1 | -1) => {
+    if (searchMatchIds.length === 0) return;
+    const current = Math.min(activeMatchIndex, searchMatchIds.length - 1);
+    const next = (current + direction + searchMatchIds.length) % searchMatchIds.length;
+    setActiveMatchIndex(next);
+    dispatch({ type: 'REVEAL_NODES', payload: { nodeIds: [searchMatchIds[next]] } });
+    setSelectedNode(findNodeById(mindMapNodes, searchMatchIds[next]) ?? null);
+  }, [searchMatchIds, activeMatchIndex, mindMapNodes]);
+
+  // Diffs an AI-proposed map against the current one and opens the review instead of replacing the map
+  const proposeMapChanges = useCallback((aiNodes: AIMapNode[], title: string, summary: string) => {
+    const proposedNodes = reconcileProposedMap(
+      mindMapNodes,
+      aiNodes.map((aiNode) => convertAIMapNodeToMindMapNode(aiNode, null, 0, true))
+    );
+    const changes = diffMindMaps(mindMapNodes, proposedNodes);
+    if (changes.length === 0) {
+      setModalContent(<p>The AI did not suggest any structural changes.</p>);
+      setIsModalOpen(true);
+      return;
+    }
+    setPendingReview({ title, summary, changes });
+  }, [mindMapNodes]);
+
+  const handleApplyReviewedChanges = useCallback((acceptedIds: Set<string>) => {
+    if (!pendingReview) return;
+    // One SET_NODES, so the accepted changes undo as a single step
+    dispatch({ type: 'SET_NODES', payload: applyMapChanges(mindMapNodes, pendingReview.changes, acceptedIds) });
+    setPendingReview(null);
+    setSelectedNode(null);
+  }, [mindMapNodes, pendingReview]);
+
   const handleGenerateMindMap = useCallback(async (input: string, inputType: InputType) => {
     setIsLoading(true);
     setSelectedNode(null); // Clear selected node
@@ -288,13 +780,10 @@ const App: React.FC = () => {
   const handleUpdateMindMap = useCallback(async (input: string, inputType: InputType) => {
     setIsLoading(true);
     try {
-      const currentMapForAI = JSON.stringify({ map: mindMapNodes.map(convertMindMapNodeToAIMapNode) });
+      const currentMapForAI = mindMapJsonForAI(mindMapNodes, visibleLinks);
       const aiResponse = await refineMindMapStructure(currentMapForAI, input, currentMode);
       if (aiResponse && aiResponse.map) {
-        const newRootNodes = aiResponse.map.map((aiNode) =>
-          convertAIMapNodeToMindMapNode(aiNode, null, 0)
-        );
-        dispatch({ type: 'SET_NODES', payload: newRootNodes });
+        proposeMapChanges(aiResponse.map, 'Review Map Update', 'The AI suggests these changes to include your new input.');
       } else {
         alert('Failed to update mind map. Please try again.');
       }
@@ -304,26 +793,85 @@ const App: React.FC = () => {
     } finally {
       setIsLoading(false);
     }
-  }, [currentMode, mindMapNodes]);
+  }, [currentMode, mindMapNodes, visibleLinks, proposeMapChanges]);
 
 
-  const handleSelectNode = useCallback((node: MindMapNode | null) => {
-    setSelectedNode(node);
-  }, []);
+  // Finishes a link started from the canvas or the cross-links panel; the source node stays selected
+  const handleCompleteLink = useCallback((fromId: string, toId: string) => {
+    setLinkingFromId(null);
+    if (!findNodeById(mindMapNodes, fromId)) return; // Deleted while picking the other end
+    if (findLinkBetween(visibleLinks, fromId, toId)) {
+      alert('These nodes are already linked.');
+      return;
+    }
+    const label = prompt('Label for the link (optional):', '');
+    if (label === null) return;
+    dispatch({ type: 'ADD_LINKS', payload: { links: [createLink(fromId, toId, label)] } });
+  }, [mindMapNodes, visibleLinks]);
 
-  const handleAddChild = useCallback((parentId: string) => {
+  useEffect(() => {
+    if (!linkingFromId) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setLinkingFromId(null);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [linkingFromId]);
+
+  const handleSelectNode = useCallback((node: MindMapNode | null, additive: boolean = false) => {
+    if (linkingFromId && node && node.id !== linkingFromId) {
+      handleCompleteLink(linkingFromId, node.id);
+      return;
+    }
+    if (!node || !additive) {
+      setSelectedNode(node);
+      setMultiSelection(null);
+      return;
+    }
+    // Toggle the node in the selection; the last node added becomes the primary one
+    const ids = selectedNodeIds.has(node.id)
+      ? [...selectedNodeIds].filter((id) => id !== node.id)
+      : [...selectedNodeIds, node.id];
+    const primaryId = ids.includes(node.id) ? node.id : ids[ids.length - 1];
+    setSelectedNode(primaryId ? findNodeById(mindMapNodes, primaryId) ?? null : null);
+    setMultiSelection(primaryId ? { primaryId, ids } : null);
+  }, [linkingFromId, selectedNodeIds, mindMapNodes, handleCompleteLink]);
+
+  // Right-clicking outside the selection selects just that node, as file managers do
+  const handleOpenContextMenu = useCallback((node: MindMapNode, x: number, y: number) => {
+    if (!selectedNodeIds.has(node.id)) handleSelectNode(node);
+    setContextMenu({ nodeId: node.id, x, y });
+  }, [selectedNodeIds, handleSelectNode]);
+
+  // Adds a blank node and opens it for editing, as desktop mind-map tools do
+  const addNode = useCallback((parentId: string | null, depth: number, index?: number) => {
     const newNode: MindMapNode = {
       id: uuidv4(),
       text: 'New Idea',
       children: [],
       parentId: parentId,
       isExpanded: true,
-      type: MindMapNodeType.DETAIL, // Default to DETAIL
+      type: nodeTypeForDepth(depth),
       tags: [],
     };
-    dispatch({ type: 'ADD_NODE', payload: { parentId, newNode } });
+    dispatch({ type: 'ADD_NODE', payload: { parentId, newNode, index } });
+    setSelectedNode(newNode);
+    setEditingNodeId(newNode.id);
   }, []);
 
+  const handleAddChild = useCallback((parentId: string) => {
+    const parent = flattenTree(mindMapNodes).find(({ node }) => node.id === parentId);
+    if (parent) addNode(parentId, parent.ancestors.length + 1);
+  }, [mindMapNodes, addNode]);
+
+  const handleAddSibling = useCallback((nodeId: string) => {
+    const entry = flattenTree(mindMapNodes).find(({ node }) => node.id === nodeId);
+    if (!entry) return;
+    const parent = entry.ancestors[entry.ancestors.length - 1];
+    const siblings = parent ? parent.children : mindMapNodes;
+    addNode(parent?.id ?? null, entry.ancestors.length, siblings.findIndex((node) => node.id === nodeId) + 1);
+  }, [mindMapNodes, addNode]);
+
   const handleUpdateNodeText = useCallback((nodeId: string, newText: string) => {
     dispatch({ type: 'UPDATE_NODE_TEXT', payload: { nodeId, newText } });
   }, []);
@@ -335,10 +883,86 @@ const App: React.FC = () => {
     }
   }, [selectedNode?.id]);
 
+  const handleDropNode = useCallback((nodeId: string, targetId: string, position: DropPosition) => {
+    const target = dropPosition(mindMapNodes, nodeId, targetId, position);
+    if (target) dispatch({ type: 'MOVE_NODE', payload: { nodeId, position: target } });
+  }, [mindMapNodes]);
+
+  const handleKeyboardMove = useCallback((nodeId: string, move: KeyboardMove) => {
+    const target = keyboardMovePosition(mindMapNodes, nodeId, move);
+    if (target) dispatch({ type: 'MOVE_NODE', payload: { nodeId, position: target } });
+  }, [mindMapNodes]);
+
   const handleToggleExpand = useCallback((nodeId: string) => {
     dispatch({ type: 'TOGGLE_EXPAND', payload: { nodeId } });
   }, []);
 
+  // Desktop mind-map style keyboard editing (listed in KEYBOARD_SHORTCUTS for the cheat sheet)
+  useEffect(() => {
+    if (mainView !== 'map') return; // The other views have keys of their own
+    const arrowMoves: Record<string, SelectionMove> = { ArrowUp: 'up', ArrowDown: 'down', ArrowLeft: 'left', ArrowRight: 'right' };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      // Fields keep their own keys (including native undo), and open dialogs block map edits
+      if (target.closest('input, textarea, select, [contenteditable="true"]') || document.querySelector('[role="dialog"]')) return;
+
+      if ((e.ctrlKey || e.metaKey) && !e.altKey) {
+        const key = e.key.toLowerCase();
+        const action = key === 'z' ? (e.shiftKey ? 'REDO' : 'UNDO') : key === 'y' ? 'REDO' : null;
+        if (action && !isLoading) {
+          e.preventDefault();
+          dispatch({ type: action });
+        }
+        return;
+      }
+      if (e.key === '?') {
+        e.preventDefault();
+        setIsShortcutHelpOpen(true);
+        return;
+      }
+      // Node keys act on the canvas only; Alt+Arrow moves are handled by the focused node
+      if (e.altKey || e.ctrlKey || e.metaKey || (target !== document.body && !target.closest('[data-node-id]'))) return;
+
+      const current = liveSelectedNode;
+      const arrowMove = arrowMoves[e.key];
+      if (!current) {
+        if (arrowMove && mindMapNodes.length > 0) {
+          e.preventDefault();
+          setSelectedNode(mindMapNodes[0]);
+        }
+        return;
+      }
+
+      if (arrowMove) {
+        if (arrowMove === 'right' && !current.isExpanded && current.children.length > 0) handleToggleExpand(current.id);
+        const next = adjacentNode(mindMapNodes, current.id, arrowMove);
+        if (next) setSelectedNode(next);
+      } else if (e.key === 'Tab') {
+        handleAddChild(current.id);
+      } else if (e.key === 'Enter') {
+        handleAddSibling(current.id);
+      } else if (e.key === 'F2') {
+        setEditingNodeId(current.id);
+      } else if (e.key === 'Delete') {
+        const next =
+          adjacentNode(mindMapNodes, current.id, 'down') ??
+          adjacentNode(mindMapNodes, current.id, 'up') ??
+          adjacentNode(mindMapNodes, current.id, 'left');
+        handleDeleteNode(current.id);
+        setSelectedNode(next);
+      } else if (e.key === ' ') {
+        if (current.children.length > 0) handleToggleExpand(current.id);
+      } else {
+        return;
+      }
+      e.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [mainView, liveSelectedNode, mindMapNodes, isLoading, handleAddChild, handleAddSibling, handleDeleteNode, handleToggleExpand]);
+
   const handleConvertNode = useCallback(async (nodeId: string, type: 'task' | 'flashcard' | 'summary') => {
     const node = findNodeById(mindMapNodes, nodeId);
     if (!node) return;
@@ -407,17 +1031,10 @@ const App: React.FC = () => {
   const handleAutoRefine = useCallback(async () => {
     setIsLoading(true);
     try {
-      const currentMapForAI = JSON.stringify({ map: mindMapNodes.map(convertMindMapNodeToAIMapNode) });
+      const currentMapForAI = mindMapJsonForAI(mindMapNodes, visibleLinks);
       const aiResponse = await refineMindMapStructure(currentMapForAI, '', currentMode); // Empty input for general refinement
       if (aiResponse && aiResponse.map) {
-        const newRootNodes = aiResponse.map.map((aiNode) =>
-          convertAIMapNodeToMindMapNode(aiNode, null, 0)
-        );
-        dispatch({ type: 'SET_NODES', payload: newRootNodes });
-        setModalContent(
-            <p>Mind map structure has been refined by AI!</p>
-        );
-        setIsModalOpen(true);
+        proposeMapChanges(aiResponse.map, 'Review Refinement', 'The AI suggests these changes to the structure of your map.');
       } else {
         alert('Failed to auto-refine mind map. Please try again.');
       }
@@ -427,7 +1044,7 @@ const App: React.FC = () => {
     } finally {
       setIsLoading(false);
     }
-  }, [mindMapNodes, currentMode]);
+  }, [mindMapNodes, visibleLinks, currentMode, proposeMapChanges]);
 
   const handleMergeDuplicates = useCallback(async () => {
     setIsLoading(true);
@@ -435,14 +1052,7 @@ const App: React.FC = () => {
       const currentMapForAI = JSON.stringify({ map: mindMapNodes.map(convertMindMapNodeToAIMapNode) });
       const aiResponse = await mergeDuplicateIdeas(currentMapForAI, currentMode);
       if (aiResponse && aiResponse.map) {
-        const newRootNodes = aiResponse.map.map((aiNode) =>
-          convertAIMapNodeToMindMapNode(aiNode, null, 0)
-        );
-        dispatch({ type: 'SET_NODES', payload: newRootNodes });
-        setModalContent(
-            <p>Duplicate ideas have been merged by AI!</p>
-        );
-        setIsModalOpen(true);
+        proposeMapChanges(aiResponse.map, 'Review Merged Duplicates', 'The AI suggests merging these duplicate ideas.');
       } else {
         alert('Failed to merge duplicate ideas. Please try again.');
       }
@@ -452,7 +1062,7 @@ const App: React.FC = () => {
     } finally {
       setIsLoading(false);
     }
-  }, [mindMapNodes, currentMode]);
+  }, [mindMapNodes, currentMode, proposeMapChanges]);
 
   const handleGenerateClarifyingQuestions = useCallback(async (nodeId: string) => {
     const node = findNodeById(mindMapNodes, nodeId);
@@ -488,44 +1098,577 @@ const App: React.FC = () => {
     }
   }, [mindMapNodes]);
 
+  const handleGenerateQuiz = useCallback(async (nodeId: string) => {
+    const node = findNodeById(mindMapNodes, nodeId);
+    if (!node) return;
+
+    setIsLoading(true);
+    try {
+      const result = await generateQuiz(describeSubtreeForQuiz(node), quizQuestionCount(node));
+      const questions = result ? toQuizQuestions(result, node) : [];
+      if (questions.length > 0) {
+        setQuizSession({ title: node.text, questions, responses: {}, acceptedIds: [], submitted: false });
+        setMainView('quiz');
+      } else {
+        alert('Failed to generate a quiz. Please try again.');
+      }
+    } catch (error) {
+      console.error('Error generating quiz:', error);
+      alert(`Error generating quiz: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [mindMapNodes]);
+
+  // Leaves the current view to show a node on the map, e.g. a missed quiz question's source or a task card
+  const handleShowInMap = useCallback((nodeId: string) => {
+    const node = findNodeById(mindMapNodes, nodeId);
+    if (!node) {
+      alert('That node is no longer in the map.');
+      return;
+    }
+    setMainView('map');
+    dispatch({ type: 'REVEAL_NODES', payload: { nodeIds: [nodeId] } });
+    setSelectedNode(node);
+    setMultiSelection(null);
+  }, [mindMapNodes]);
+
+  // Converts several nodes one after another and applies all results as one undo step
+  const handleConvertNodes = useCallback(async (nodeIds: string[], type: NodeConversion) => {
+    if (nodeIds.length === 1) {
+      return type === 'questions' ? handleGenerateClarifyingQuestions(nodeIds[0]) : handleConvertNode(nodeIds[0], type);
+    }
+    const nodes = nodeIds.map((id) => findNodeById(mindMapNodes, id)).filter((node): node is MindMapNode => !!node);
+    setIsLoading(true);
+    try {
+      const updates: NodeMetadataUpdate[] = [];
+      for (const node of nodes) {
+        try {
+          const update = await convertNodeMetadata(node, type);
+          if (update) updates.push(update);
+        } catch (error) {
+          console.error(`Error converting "${node.text}" to ${type}:`, error);
+        }
+      }
+      if (updates.length > 0) {
+        dispatch({ type: 'UPDATE_NODES_METADATA', payload: { updates } });
+      }
+      const failed = nodes.length - updates.length;
+      setModalContent(
+        <p>
+          Updated {updates.length} of {nodes.length} nodes.
+          {failed > 0 && ` ${failed} could not be converted; try them again one at a time.`}
+        </p>
+      );
+      setIsModalOpen(true);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [mindMapNodes, handleConvertNode, handleGenerateClarifyingQuestions]);
+
+  // Copies branches to the clipboard as a Markdown outline, which keeps tags and metadata and pastes into other outliners
+  const handleCopyBranches = useCallback(async (nodeIds: string[]) => {
+    const branches = nodeIds.map((id) => findNodeById(mindMapNodes, id)).filter((node): node is MindMapNode => !!node);
+    const markdown = mindMapToMarkdown(branches);
+    copiedMarkdownRef.current = markdown;
+    try {
+      await navigator.clipboard.writeText(markdown);
+    } catch (error) {
+      console.error('Error writing to the clipboard:', error); // Pasting within the app still works
+    }
+  }, [mindMapNodes]);
+
+  // Pastes the clipboard under each target: Markdown outlines keep their structure, plain lines become one node each
+  const handlePasteBranches = useCallback(async (parentIds: string[]) => {
+    let text = '';
+    try {
+      text = await navigator.clipboard.readText();
+    } catch (error) {
+      console.error('Error reading the clipboard:', error);
+    }
+    text = text.trim() ? text : copiedMarkdownRef.current;
+    const parse = () => {
+      const outline = markdownToMindMap(text);
+      if (outline.length > 0) return outline;
+      const lines = text.split('\n').map((line) => line.trim()).filter(Boolean);
+      return markdownToMindMap(lines.map((line) => `- ${line}`).join('\n'));
+    };
+    if (parse().length === 0) {
+      alert('There is nothing on the clipboard to paste.');
+      return;
+    }
+    // Parsed once per target so every pasted copy gets its own ids
+    const pasted = parentIds.reduce((nodes, parentId) => insertBranches(nodes, parentId, parse()), mindMapNodes);
+    dispatch({ type: 'SET_NODES', payload: pasted });
+  }, [mindMapNodes]);
+
+  const closeContextMenu = useCallback(() => setContextMenu(null), []);
+
+  const handleContextMenuAction = useCallback((action: NodeMenuAction) => {
+    if (!contextMenu) return;
+    const { nodeId } = contextMenu;
+    const targetIds = selectedNodeIds.has(nodeId) ? [...selectedNodeIds] : [nodeId];
+    const branchIds = topmostNodeIds(mindMapNodes, targetIds);
+
+    switch (action) {
+      case 'add-child':
+        handleAddChild(nodeId);
+        break;
+      case 'add-sibling':
+        handleAddSibling(nodeId);
+        break;
+      case 'link':
+        setLinkingFromId(nodeId);
+        break;
+      case 'duplicate':
+        dispatch({ type: 'SET_NODES', payload: duplicateBranches(mindMapNodes, branchIds) });
+        break;
+      case 'copy':
+        handleCopyBranches(branchIds);
+        break;
+      case 'paste':
+        handlePasteBranches(targetIds);
+        break;
+      case 'delete':
+        // One SET_NODES, so deleting several branches undoes as a single step
+        dispatch({ type: 'SET_NODES', payload: branchIds.reduce(deleteNodeRecursive, mindMapNodes) });
+        setSelectedNode(null);
+        setMultiSelection(null);
+        break;
+      case 'convert-task':
+      case 'convert-flashcard':
+      case 'convert-summary':
+        handleConvertNodes(targetIds, action.replace('convert-', '') as NodeConversion);
+        break;
+      case 'questions':
+        handleConvertNodes(targetIds, 'questions');
+        break;
+      case 'quiz':
+        handleGenerateQuiz(nodeId);
+        break;
+    }
+  }, [contextMenu, selectedNodeIds, mindMapNodes, handleAddChild, handleAddSibling, handleCopyBranches, handlePasteBranches, handleConvertNodes, handleGenerateQuiz]);
+
+  const handleExpandNode = useCallback(async (nodeId: string, options: NodeExpansionOptions) => {
+    const entry = flattenTree(mindMapNodes).find(({ node }) => node.id === nodeId);
+    if (!entry) return;
+    const { node, ancestors } = entry;
+    const siblings = ancestors.length > 0 ? ancestors[ancestors.length - 1].children : mindMapNodes;
+    const childDepth = ancestors.length + 1;
+
+    setIsLoading(true);
+    try {
+      const aiResponse = await expandNodeStructure(
+        {
+          title: node.text,
+          ancestorTitles: ancestors.map((ancestor) => ancestor.text),
+          siblingTitles: siblings.filter((sibling) => sibling.id !== nodeId).map((sibling) => sibling.text),
+          branchJson: JSON.stringify({ map: node.children.map(convertMindMapNodeToAIMapNode) }),
+        },
+        options,
+        currentMode
+      );
+      if (!aiResponse?.map?.length) {
+        alert('Failed to expand this node. Please try again.');
+        return;
+      }
+
+      let children: MindMapNode[];
+      if (options.kind === 'children') {
+        const newChildren = aiResponse.map
+          .slice(0, options.count)
+          .map(({ title }) => convertAIMapNodeToMindMapNode({ title }, nodeId, childDepth));
+        children = [...node.children, ...newChildren];
+      } else {
+        const proposed = reconcileProposedMap(
+          node.children,
+          aiResponse.map.map((aiNode) => convertAIMapNodeToMindMapNode(aiNode, nodeId, childDepth, true))
+        );
+        if (options.kind === 'deepen') {
+          // Only new nodes below the existing children; renames and regrouping are left to "rewrite"
+          const additions = diffMindMaps(node.children, proposed).filter(
+            (change) => change.kind === 'added' && change.toParentId !== null
+          );
+          children = applyMapChanges(node.children, additions, new Set(additions.map((change) => change.id)));
+        } else {
+          children = proposed;
+        }
+      }
+      dispatch({ type: 'SET_CHILDREN', payload: { nodeId, children: normalizeBranch(children, nodeId, childDepth) } });
+    } catch (error) {
+      console.error('Error expanding node:', error);
+      alert(`Error expanding node: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [mindMapNodes, currentMode]);
+
+  const handlePaletteChange = useCallback((palette: TagPalette) => {
+    saveTagPalette(palette);
+    setTagPalette(palette);
+  }, []);
+
+  const handleSetNodeTags = useCallback((nodeId: string, tags: string[]) => {
+    dispatch({ type: 'SET_NODE_TAGS', payload: { tagsByNode: { [nodeId]: tags } } });
+  }, []);
+
+  // Asks the AI for palette tags on the whole map or the selected branch, then opens the review
+  const handleAutoTag = useCallback(async (scope: 'map' | 'subtree') => {
+    const scopeNodes = scope === 'map' ? mindMapNodes : liveSelectedNode ? [liveSelectedNode] : [];
+    const vocabulary = Object.keys(tagPalette);
+    if (scopeNodes.length === 0 || vocabulary.length === 0) return;
 
-  const handleExportMap = useCallback(() => {
+    // Paths give the AI each node's context; branch tagging still includes the branch's ancestors
+    const ancestorPath = scope === 'subtree'
+      ? flattenTree(mindMapNodes).find(({ node }) => node.id === scopeNodes[0].id)?.ancestors.map((a) => a.text) ?? []
+      : [];
+    const nodes = flattenTree(scopeNodes).map(({ node, ancestors }) => ({
+      id: node.id,
+      path: [...ancestorPath, ...ancestors.map((a) => a.text), node.text].join(' > '),
+    }));
+
+    setIsLoading(true);
+    try {
+      const aiResponse = await suggestNodeTags(nodes, vocabulary);
+      if (!aiResponse) {
+        alert('Failed to suggest tags. Please try again.');
+        return;
+      }
+      const suggestions = toTagSuggestions(aiResponse, scopeNodes, vocabulary);
+      if (suggestions.length === 0) {
+        setModalContent(<p>The AI did not suggest any new tags.</p>);
+        setIsModalOpen(true);
+        return;
+      }
+      setPendingTagSuggestions(suggestions);
+    } catch (error) {
+      console.error('Error suggesting tags:', error);
+      alert(`Error suggesting tags: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [mindMapNodes, liveSelectedNode, tagPalette]);
+
+  const handleApplyTagSuggestions = useCallback((accepted: TagSuggestion[]) => {
+    const tagsByNode: Record<string, string[]> = {};
+    for (const { nodeId, tags } of accepted) {
+      const node = findNodeById(mindMapNodes, nodeId);
+      if (node) tagsByNode[nodeId] = tags.reduce(addTag, node.tags);
+    }
+    if (Object.keys(tagsByNode).length > 0) {
+      dispatch({ type: 'SET_NODE_TAGS', payload: { tagsByNode } });
+    }
+    setPendingTagSuggestions(null);
+  }, [mindMapNodes]);
+
+  const studyStats = useMemo(() => {
+    const cards = collectStudyCards(mindMapNodes);
+    return { due: dueStudyCards(cards, toDateKey()).length, total: cards.length };
+  }, [mindMapNodes]);
+
+  const handleGradeFlashcard = useCallback((nodeId: string, grade: ReviewGrade) => {
+    const schedule = findNodeById(mindMapNodes, nodeId)?.metadata?.flashcard?.schedule;
+    dispatch({ type: 'RECORD_REVIEW', payload: { nodeId, schedule: scheduleReview(schedule, grade, toDateKey()) } });
+  }, [mindMapNodes]);
+
+  const taskCount = useMemo(() => collectTasks(mindMapNodes).length, [mindMapNodes]);
+
+  // Board edits go through UPDATE_NODE_METADATA like any other node change, so they can be undone
+  const handleUpdateTask = useCallback((nodeId: string, changes: Partial<TaskMetadata>) => {
+    const task = findNodeById(mindMapNodes, nodeId)?.metadata?.task;
+    if (!task) return;
+    dispatch({ type: 'UPDATE_NODE_METADATA', payload: { nodeId, metadata: { task: { ...task, ...changes } } } });
+  }, [mindMapNodes]);
+
+  // The checkbox on task nodes; moves the task between the board's "To do" and "Done" columns
+  const handleToggleTaskComplete = useCallback((nodeId: string) => {
+    const task = findNodeById(mindMapNodes, nodeId)?.metadata?.task;
+    if (task) handleUpdateTask(nodeId, withStage(task, task.completed ? 'todo' : 'done'));
+  }, [mindMapNodes, handleUpdateTask]);
+
+  const handleSuggestEstimates = useCallback(async () => {
+    const tasks = collectTasks(mindMapNodes).map(({ nodeId, text, path, task }) => ({
+      id: nodeId,
+      path: [...path, text].join(' > '),
+      durationDays: task.durationDays,
+      dependsOn: task.dependsOn ?? [],
+    }));
+    if (tasks.length === 0) return;
+
+    setIsLoading(true);
+    try {
+      const aiResponse = await suggestTaskEstimates(tasks);
+      if (!aiResponse) {
+        alert('Failed to suggest estimates. Please try again.');
+        return;
+      }
+      const suggestions = toTaskEstimateSuggestions(aiResponse, mindMapNodes);
+      if (suggestions.length === 0) {
+        setModalContent(<p>The AI did not suggest any changes to the estimates.</p>);
+        setIsModalOpen(true);
+        return;
+      }
+      setPendingEstimates(suggestions);
+    } catch (error) {
+      console.error('Error suggesting task estimates:', error);
+      alert(`Error suggesting task estimates: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [mindMapNodes]);
+
+  // Accepted estimates are applied as one undo step
+  const handleApplyEstimates = useCallback((accepted: TaskEstimateSuggestion[]) => {
+    const updates: NodeMetadataUpdate[] = accepted.flatMap(({ nodeId, durationDays, addedDependsOn }) => {
+      const task = findNodeById(mindMapNodes, nodeId)?.metadata?.task;
+      if (!task) return [];
+      const dependsOn = [...(task.dependsOn ?? []), ...addedDependsOn.map((dep) => dep.id)];
+      return [{ nodeId, metadata: { task: { ...task, durationDays, dependsOn: dependsOn.length > 0 ? dependsOn : undefined } } }];
+    });
+    if (updates.length > 0) dispatch({ type: 'UPDATE_NODES_METADATA', payload: { updates } });
+    setPendingEstimates(null);
+  }, [mindMapNodes]);
+
+  const handleUpdateLink = useCallback((linkId: string, changes: Partial<Omit<MindMapLink, 'id'>>) => {
+    dispatch({ type: 'UPDATE_LINK', payload: { linkId, changes } });
+  }, []);
+
+  const handleDeleteLink = useCallback((linkId: string) => {
+    dispatch({ type: 'DELETE_LINK', payload: { linkId } });
+  }, []);
+
+  const handleSuggestLinks = useCallback(async () => {
+    const nodes = flattenTree(mindMapNodes).map(({ node, ancestors }) => ({
+      id: node.id,
+      path: [...ancestors.map((a) => a.text), node.text].join(' > '),
+    }));
+    if (nodes.length < 2) return;
+
+    setIsLoading(true);
+    try {
+      const existingLinks = visibleLinks.map(({ fromId, toId, label }) => ({ fromId, toId, label }));
+      const aiResponse = await suggestCrossLinks(nodes, existingLinks);
+      if (!aiResponse) {
+        alert('Failed to suggest cross-links. Please try again.');
+        return;
+      }
+      const suggestions = toCrossLinkSuggestions(aiResponse, mindMapNodes, visibleLinks);
+      if (suggestions.length === 0) {
+        setModalContent(<p>The AI did not suggest any new cross-links.</p>);
+        setIsModalOpen(true);
+        return;
+      }
+      setPendingLinkSuggestions(suggestions);
+    } catch (error) {
+      console.error('Error suggesting cross-links:', error);
+      alert(`Error suggesting cross-links: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [mindMapNodes, visibleLinks]);
+
+  const handleApplyLinkSuggestions = useCallback((accepted: CrossLinkSuggestion[]) => {
+    if (accepted.length > 0) {
+      const links = accepted.map(({ id, fromId, toId, label, directed }) => ({ id, fromId, toId, label, directed }));
+      dispatch({ type: 'ADD_LINKS', payload: { links } });
+    }
+    setPendingLinkSuggestions(null);
+  }, []);
+
+  const handleExportMap = useCallback(async (format: MapExportFormat, imageOptions: ImageExportOptions) => {
     if (mindMapNodes.length === 0) {
       alert('No mind map to export.');
       return;
     }
 
-    const jsonContent = JSON.stringify(mindMapNodes, null, 2);
-    const blob = new Blob([jsonContent], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'mindmap.json';
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    let filename: string;
+    try {
+      switch (format) {
+        case 'markdown':
+          filename = 'mindmap.md';
+          downloadFile(mindMapToMarkdown(mindMapNodes), filename, 'text/markdown');
+          break;
+        case 'opml':
+          filename = 'mindmap.opml';
+          downloadFile(mindMapToOpml(mindMapNodes, currentMap?.name), filename, 'text/x-opml');
+          break;
+        case 'freemind':
+          filename = 'mindmap.mm';
+          downloadFile(mindMapToFreeMind(mindMapNodes, currentMap?.name), filename, 'application/x-freemind');
+          break;
+        case 'xmind':
+          filename = 'mindmap.xmind';
+          downloadFile(mindMapToXMind(mindMapNodes, currentMap?.name), filename, 'application/vnd.xmind.workbook');
+          break;
+        case 'svg':
+          filename = 'mindmap.svg';
+          downloadFile(mindMapToSvg(mindMapNodes, imageOptions, selectedNode?.id ?? null).svg, filename, 'image/svg+xml');
+          break;
+        case 'png':
+          filename = 'mindmap.png';
+          downloadFile(await mindMapToPng(mindMapNodes, imageOptions, selectedNode?.id ?? null), filename, 'image/png');
+          break;
+        case 'anki':
+        case 'flashcards-csv': {
+          const cards = collectFlashcards(mindMapNodes);
+          if (cards.length === 0) {
+            alert('No flashcards to export. Use "Convert to Flashcard" on some nodes first.');
+            return;
+          }
+          if (format === 'anki') {
+            filename = 'mindmap-flashcards.txt';
+            downloadFile(flashcardsToAnki(cards, currentMap?.name ?? 'AI Mind Mapper'), filename, 'text/plain');
+          } else {
+            filename = 'mindmap-flashcards.csv';
+            downloadFile(flashcardsToCsv(cards), filename, 'text/csv');
+          }
+          break;
+        }
+        case 'icalendar':
+          if (collectCalendarEntries(mindMapNodes).length === 0) {
+            alert('No dated tasks to export. Give some tasks a due date on the task board first.');
+            return;
+          }
+          filename = 'mindmap-tasks.ics';
+          downloadFile(mindMapToICalendar(mindMapNodes, currentMap?.name ?? 'AI Mind Mapper'), filename, 'text/calendar');
+          break;
+        case 'json':
+        default:
+          filename = 'mindmap.json';
+          downloadFile(serializeMindMapFile(mindMapNodes, visibleLinks), filename, 'application/json');
+          break;
+      }
+    } catch (error) {
+      console.error('Error exporting mind map:', error);
+      alert(`Error exporting mind map: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
 
-    alert('Mind map exported as mindmap.json!');
-  }, [mindMapNodes]);
+    alert(`Mind map exported as ${filename}!`);
+  }, [mindMapNodes, visibleLinks, currentMap?.name, selectedNode?.id]);
+
+  const handleImportMap = useCallback(async (file: File) => {
+    if (mindMapNodes.length > 0 && !confirm('Importing will replace the current map. You can undo this. Continue?')) {
+      return;
+    }
+    try {
+      const content = await readFileAsText(file);
+      const extension = file.name.split('.').pop()?.toLowerCase();
+      let nodes: MindMapNode[];
+      let links: MindMapLink[] = [];
+      let warnings: string[] = [];
+      if (extension === 'md' || extension === 'markdown' || extension === 'txt') {
+        nodes = markdownToMindMap(content);
+      } else if (extension === 'opml' || extension === 'xml') {
+        nodes = opmlToMindMap(content);
+      } else if (extension === 'mm') {
+        nodes = freeMindToMindMap(content);
+      } else {
+        ({ nodes, links, warnings } = parseMindMapFile(content));
+      }
+      if (nodes.length === 0) {
+        alert(`No mind map nodes were found in "${file.name}".`);
+        return;
+      }
+      dispatch({ type: 'REPLACE_MAP', payload: { nodes, links } });
+      setSelectedNode(null);
+      if (warnings.length > 0) {
+        setModalContent(
+          <div className="space-y-2">
+            <p className="font-semibold text-lg">Imported "{file.name}" with {warnings.length} repair(s):</p>
+            <ul className="list-disc pl-5 text-gray-700 text-sm">
+              {warnings.map((warning, i) => (
+                <li key={i}>{warning}</li>
+              ))}
+            </ul>
+          </div>
+        );
+        setIsModalOpen(true);
+      }
+    } catch (error) {
+      console.error('Error importing mind map:', error);
+      alert(`Error importing mind map: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }, [mindMapNodes.length]);
 
   return (
     <div className="flex h-screen w-full bg-gray-100">
-      <InputPanel
-        onGenerateMindMap={handleGenerateMindMap}
-        onUpdateMindMap={handleUpdateMindMap}
-        isLoading={isLoading}
-        selectedMode={currentMode}
-      />
-      <MindMapCanvas
-        rootNodes={mindMapNodes}
-        onSelectNode={handleSelectNode}
-        onAddChild={handleAddChild}
-        onUpdateNodeText={handleUpdateNodeText}
-        onDeleteNode={handleDeleteNode}
-        onToggleExpand={handleToggleExpand}
-        selectedNodeId={selectedNode?.id || null}
-      />
+      <div className="w-80 flex flex-col bg-gray-800 overflow-y-auto">
+        <WorkspacePanel
+          maps={savedMaps}
+          currentMapId={currentMap?.id ?? null}
+          onOpenMap={handleOpenMap}
+          onCreateMap={handleCreateMap}
+          onRenameMap={handleRenameMap}
+          onDuplicateMap={handleDuplicateMap}
+          onDeleteMap={handleDeleteMap}
+          isLoading={isLoading}
+        />
+        <InputPanel
+          onGenerateMindMap={handleGenerateMindMap}
+          onUpdateMindMap={handleUpdateMindMap}
+          isLoading={isLoading}
+          selectedMode={currentMode}
+        />
+      </div>
+      {quizSession && mainView === 'quiz' ? (
+        <QuizView
+          session={quizSession}
+          onChange={setQuizSession}
+          onShowNode={handleShowInMap}
+          onClose={() => setMainView('map')}
+          onDiscard={() => {
+            setQuizSession(null);
+            setMainView('map');
+          }}
+        />
+      ) : mainView === 'study' ? (
+        <StudyView
+          rootNodes={mindMapNodes}
+          availableTags={availableTags}
+          selectedNode={liveSelectedNode}
+          onGrade={handleGradeFlashcard}
+          onClose={() => setMainView('map')}
+        />
+      ) : mainView === 'timeline' ? (
+        <GanttView
+          rootNodes={mindMapNodes}
+          onUpdateTask={handleUpdateTask}
+          onShowNode={handleShowInMap}
+          onSuggestEstimates={handleSuggestEstimates}
+          isLoading={isLoading}
+          onClose={() => setMainView('map')}
+        />
+      ) : mainView === 'board' ? (
+        <TaskBoard
+          rootNodes={mindMapNodes}
+          onUpdateTask={handleUpdateTask}
+          onShowNode={handleShowInMap}
+          onClose={() => setMainView('map')}
+        />
+      ) : (
+        <MindMapCanvas
+          rootNodes={mindMapNodes}
+          links={visibleLinks}
+          linkingFrom={linkingFromId ? findNodeById(mindMapNodes, linkingFromId) ?? null : null}
+          onCancelLinking={() => setLinkingFromId(null)}
+          onSelectNode={handleSelectNode}
+          onAddChild={handleAddChild}
+          onUpdateNodeText={handleUpdateNodeText}
+          onDeleteNode={handleDeleteNode}
+          onToggleExpand={handleToggleExpand}
+          onDropNode={handleDropNode}
+          onKeyboardMove={handleKeyboardMove}
+          selectedNodeId={selectedNode?.id || null}
+          selectedNodeIds={selectedNodeIds}
+          onOpenContextMenu={handleOpenContextMenu}
+          editingNodeId={editingNodeId}
+          onEditingChange={setEditingNodeId}
+          highlight={highlight}
+          tagPalette={tagPalette}
+          onToggleTaskComplete={handleToggleTaskComplete}
+        />
+      )}
       <Controls
         onModeChange={setCurrentMode}
         selectedMode={currentMode}
@@ -533,18 +1676,102 @@ const App: React.FC = () => {
         onMergeDuplicates={handleMergeDuplicates}
         onGenerateClarifyingQuestions={handleGenerateClarifyingQuestions}
         onExportMap={handleExportMap}
+        onImportMap={handleImportMap}
         onUndo={() => dispatch({ type: 'UNDO' })}
         onRedo={() => dispatch({ type: 'REDO' })}
         canUndo={historyPointer > 0}
         canRedo={historyPointer < history.length - 1}
         isLoading={isLoading}
-        selectedNode={selectedNode}
+        selectedNode={liveSelectedNode}
         onConvertNode={handleConvertNode}
+        onExpandNode={handleExpandNode}
+        searchTerm={searchTerm}
+        onSearchChange={handleSearchChange}
+        searchResultCount={searchMatchIds.length}
+        activeSearchResult={highlight.activeMatchId ? searchMatchIds.indexOf(highlight.activeMatchId) : -1}
+        onStepSearchResult={handleStepSearchResult}
+        tagFilter={tagFilter}
+        onTagFilterChange={setTagFilter}
+        availableTags={availableTags}
+        hideOutsideFilter={hideOutsideFilter}
+        hideFinished={hideFinished}
+        onHideFinishedChange={setHideFinished}
+        onHideOutsideFilterChange={setHideOutsideFilter}
+        tagPalette={tagPalette}
+        onTagPaletteChange={handlePaletteChange}
+        onSetNodeTags={handleSetNodeTags}
+        onAutoTag={handleAutoTag}
+        selectedNodeLinks={selectedNodeLinks}
+        onStartLinking={setLinkingFromId}
+        onUpdateLink={handleUpdateLink}
+        onDeleteLink={handleDeleteLink}
+        onSuggestLinks={handleSuggestLinks}
+        canSuggestLinks={mindMapNodes.length > 0}
+        studyStats={studyStats}
+        onOpenStudy={() => setMainView('study')}
+        onGenerateQuiz={handleGenerateQuiz}
+        hasHiddenQuiz={quizSession !== null && mainView !== 'quiz'}
+        onResumeQuiz={() => setMainView('quiz')}
+        taskCount={taskCount}
+        onOpenTaskBoard={() => setMainView('board')}
+        onOpenTimeline={() => setMainView('timeline')}
+        onShowShortcuts={() => setIsShortcutHelpOpen(true)}
       />
 
       <Modal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} title="AI Insight">
         {modalContent}
       </Modal>
+      <Modal isOpen={pendingReview !== null} onClose={() => setPendingReview(null)} title={pendingReview?.title ?? ''}>
+        {pendingReview && (
+          <MapDiffReview
+            summary={pendingReview.summary}
+            changes={pendingReview.changes}
+            onApply={handleApplyReviewedChanges}
+            onCancel={() => setPendingReview(null)}
+          />
+        )}
+      </Modal>
+      {contextMenu && (
+        <NodeContextMenu
+          x={contextMenu.x}
+          y={contextMenu.y}
+          targetCount={selectedNodeIds.has(contextMenu.nodeId) ? selectedNodeIds.size : 1}
+          isLoading={isLoading}
+          onAction={handleContextMenuAction}
+          onClose={closeContextMenu}
+        />
+      )}
+      <Modal isOpen={isShortcutHelpOpen} onClose={() => setIsShortcutHelpOpen(false)} title="Keyboard Shortcuts">
+        <ShortcutCheatSheet />
+      </Modal>
+      <Modal isOpen={pendingTagSuggestions !== null} onClose={() => setPendingTagSuggestions(null)} title="Review Suggested Tags">
+        {pendingTagSuggestions && (
+          <TagSuggestionReview
+            suggestions={pendingTagSuggestions}
+            palette={tagPalette}
+            onApply={handleApplyTagSuggestions}
+            onCancel={() => setPendingTagSuggestions(null)}
+          />
+        )}
+      </Modal>
+      <Modal isOpen={pendingEstimates !== null} onClose={() => setPendingEstimates(null)} title="Review Suggested Estimates">
+        {pendingEstimates && (
+          <TaskEstimateReview
+            suggestions={pendingEstimates}
+            onApply={handleApplyEstimates}
+            onCancel={() => setPendingEstimates(null)}
+          />
+        )}
+      </Modal>
+      <Modal isOpen={pendingLinkSuggestions !== null} onClose={() => setPendingLinkSuggestions(null)} title="Review Suggested Cross-links">
+        {pendingLinkSuggestions && (
+          <CrossLinkSuggestionReview
+            suggestions={pendingLinkSuggestions}
+            onApply={handleApplyLinkSuggestions}
+            onCancel={() => setPendingLinkSuggestions(null)}
+          />
+        )}
+      </Modal>
     </div>
   );
 };
@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { AIProviderId, AIProviderSettings, MockAIFailureMode, MockAIOptions } from '../types';
+import {
+  AI_PROVIDER_LABELS,
+  getAllowedProviders,
+  getAIProviderSettings,
+  getDefaultProviderSettings,
+  saveAIProviderSettings,
+  MOCK_FAILURE_MODE_LABELS,
+} from '../services/providers';
+
+interface AISettingsProps {
+  onSaved: (settings: AIProviderSettings) => void;
+}
+
+const inputClassName =
+  'w-full p-2 bg-gray-100 border border-gray-300 rounded-md text-gray-800 focus:ring-blue-500 focus:border-blue-500 outline-none text-sm';
+
+const AISettings: React.FC<AISettingsProps> = ({ onSaved }) => {
+  const allowedProviders = getAllowedProviders();
+  const [settings, setSettings] = useState<AIProviderSettings>(getAIProviderSettings);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleProviderChange = (provider: AIProviderId) => {
+    setSettings(getDefaultProviderSettings(provider));
+    setError(null);
+  };
+
+  const handleSave = () => {
+    try {
+      saveAIProviderSettings(settings);
+      onSaved(settings);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const updateMockOptions = (changes: Partial<MockAIOptions>) => {
+    if (settings.mock) setSettings({ ...settings, mock: { ...settings.mock, ...changes } });
+  };
+
+  const isGemini = settings.provider === 'gemini';
+  const isMock = settings.provider === 'mock';
+
+  return (
+    <div className="space-y-3 text-gray-700 text-sm">
+      <div>
+        <label htmlFor="ai-provider-select" className="block font-medium mb-1">
+          Provider
+        </label>
+        <select
+          id="ai-provider-select"
+          value={settings.provider}
+          onChange={(e) => handleProviderChange(e.target.value as AIProviderId)}
+          className={inputClassName}
+        >
+          {allowedProviders.map((provider) => (
+            <option key={provider} value={provider}>
+              {AI_PROVIDER_LABELS[provider]}
+            </option>
+          ))}
+        </select>
+      </div>
+      {settings.mock && (
+        <>
+          <div className="flex space-x-2">
+            <div className="flex-1">
+              <label htmlFor="ai-mock-seed" className="block font-medium mb-1">
+                Seed
+              </label>
+              <input
+                id="ai-mock-seed"
+                type="number"
+                value={settings.mock.seed}
+                onChange={(e) => updateMockOptions({ seed: Number(e.target.value) || 0 })}
+                className={inputClassName}
+              />
+            </div>
+            <div className="flex-1">
+              <label htmlFor="ai-mock-latency" className="block font-medium mb-1">
+                Latency (ms)
+              </label>
+              <input
+                id="ai-mock-latency"
+                type="number"
+                min={0}
+                step={100}
+                value={settings.mock.latencyMs}
+                onChange={(e) => updateMockOptions({ latencyMs: Math.max(0, Number(e.target.value) || 0) })}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          <div>
+            <label htmlFor="ai-mock-failure" className="block font-medium mb-1">
+              Simulated failure
+            </label>
+            <select
+              id="ai-mock-failure"
+              value={settings.mock.failureMode}
+              onChange={(e) => updateMockOptions({ failureMode: e.target.value as MockAIFailureMode })}
+              className={inputClassName}
+            >
+              {Object.entries(MOCK_FAILURE_MODE_LABELS).map(([mode, label]) => (
+                <option key={mode} value={mode}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </>
+      )}
+      {!isGemini && !isMock && (
+        <div>
+          <label htmlFor="ai-base-url" className="block font-medium mb-1">
+            Server URL
+          </label>
+          <input
+            id="ai-base-url"
+            type="url"
+            value={settings.baseUrl}
+            onChange={(e) => setSettings({ ...settings, baseUrl: e.target.value })}
+            className={inputClassName}
+          />
+        </div>
+      )}
+      {(isGemini || settings.provider === 'openai') && (
+        <div>
+          <label htmlFor="ai-api-key" className="block font-medium mb-1">
+            API key
+          </label>
+          <input
+            id="ai-api-key"
+            type="password"
+            value={settings.apiKey}
+            placeholder={isGemini ? 'Leave blank to use the key this app was built with' : 'Optional for local servers'}
+            onChange={(e) => setSettings({ ...settings, apiKey: e.target.value })}
+            className={inputClassName}
+          />
+        </div>
+      )}
+      {!isMock && (
+        <div className="flex space-x-2">
+          <div className="flex-1">
+            <label htmlFor="ai-fast-model" className="block font-medium mb-1">
+              Fast model
+            </label>
+            <input
+              id="ai-fast-model"
+              type="text"
+              value={settings.fastModel}
+              onChange={(e) => setSettings({ ...settings, fastModel: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+          <div className="flex-1">
+            <label htmlFor="ai-pro-model" className="block font-medium mb-1">
+              Pro model
+            </label>
+            <input
+              id="ai-pro-model"
+              type="text"
+              value={settings.proModel}
+              onChange={(e) => setSettings({ ...settings, proModel: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+      )}
+      <p className="text-xs text-gray-500">
+        {isGemini
+          ? 'Map content is sent to Google for processing.'
+          : isMock
+            ? 'Answers are generated locally from placeholder text; nothing leaves this browser.'
+            : 'Map content is sent only to the server above. Settings are stored in this browser.'}
+      </p>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      <button
+        onClick={handleSave}
+        className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-3 rounded-md transition-colors text-sm"
+      >
+        Save
+      </button>
+    </div>
+  );
+};
+
+export default AISettings;
@@ -1,7 +1,12 @@
 
-import React, { useState, useCallback } from 'react';
-import { MindMapMode, MindMapNode } from '../types';
+import React, { useState, useCallback, useRef } from 'react';
+import { MindMapLink, MindMapMode, MindMapNode, MapExportFormat, ImageExportOptions, NodeExpansionKind, NodeExpansionOptions, TagPalette } from '../types';
 import LoadingSpinner from './LoadingSpinner';
+import Modal from './Modal';
+import AISettings from './AISettings';
+import TagManager from './TagManager';
+import CrossLinkEditor from './CrossLinkEditor';
+import { AI_PROVIDER_LABELS, getAIProviderSettings } from '../services/providers';
 
 interface ControlsProps {
   onModeChange: (mode: MindMapMode) => void;
@@ -9,7 +14,8 @@ interface ControlsProps {
   onAutoRefine: () => void;
   onMergeDuplicates: () => void;
   onGenerateClarifyingQuestions: (nodeId: string) => void;
-  onExportMap: () => void;
+  onExportMap: (format: MapExportFormat, imageOptions: ImageExportOptions) => void;
+  onImportMap: (file: File) => void;
   onUndo: () => void;
   onRedo: () => void;
   canUndo: boolean;
@@ -17,8 +23,62 @@ interface ControlsProps {
   isLoading: boolean;
   selectedNode: MindMapNode | null;
   onConvertNode: (nodeId: string, type: 'task' | 'flashcard' | 'summary') => void;
+  onExpandNode: (nodeId: string, options: NodeExpansionOptions) => void;
+  searchTerm: string;
+  onSearchChange: (term: string) => void;
+  searchResultCount: number;
+  activeSearchResult: number; // Index of the current result, -1 when there is none
+  onStepSearchResult: (direction: 1 | -1) => void;
+  tagFilter: string;
+  onTagFilterChange: (tag: string) => void;
+  availableTags: string[];
+  hideOutsideFilter: boolean;
+  onHideOutsideFilterChange: (hide: boolean) => void;
+  hideFinished: boolean;
+  onHideFinishedChange: (hide: boolean) => void;
+  tagPalette: TagPalette;
+  onTagPaletteChange: (palette: TagPalette) => void;
+  onSetNodeTags: (nodeId: string, tags: string[]) => void;
+  onAutoTag: (scope: 'map' | 'subtree') => void;
+  selectedNodeLinks: { link: MindMapLink; other: MindMapNode }[];
+  onStartLinking: (nodeId: string) => void;
+  onUpdateLink: (linkId: string, changes: Partial<Omit<MindMapLink, 'id'>>) => void;
+  onDeleteLink: (linkId: string) => void;
+  onSuggestLinks: () => void;
+  canSuggestLinks: boolean;
+  onGenerateQuiz: (nodeId: string) => void;
+  hasHiddenQuiz: boolean; // A quiz is in progress but the map is showing
+  onResumeQuiz: () => void;
+  studyStats: { due: number; total: number }; // Flashcards due today and in the whole map
+  onOpenStudy: () => void;
+  taskCount: number;
+  onOpenTaskBoard: () => void;
+  onOpenTimeline: () => void;
+  onShowShortcuts: () => void;
 }
 
+const EXPORT_FORMAT_OPTIONS: { value: MapExportFormat; label: string }[] = [
+  { value: 'json', label: 'JSON (.json)' },
+  { value: 'markdown', label: 'Markdown outline (.md)' },
+  { value: 'opml', label: 'OPML outline (.opml)' },
+  { value: 'freemind', label: 'FreeMind / Freeplane (.mm)' },
+  { value: 'xmind', label: 'XMind workbook (.xmind)' },
+  { value: 'svg', label: 'SVG image (.svg)' },
+  { value: 'png', label: 'PNG image (.png)' },
+  { value: 'anki', label: 'Anki flashcard deck (.txt)' },
+  { value: 'flashcards-csv', label: 'Flashcards CSV (.csv)' },
+  { value: 'icalendar', label: 'Calendar of dated tasks (.ics)' },
+];
+
+const PNG_SCALES = [1, 2, 3, 4];
+
+const EXPANSION_KIND_OPTIONS: { value: NodeExpansionKind; label: string }[] = [
+  { value: 'children', label: 'Add children' },
+  { value: 'deepen', label: 'Deepen branch' },
+  { value: 'rewrite', label: 'Rewrite branch' },
+];
+const MAX_EXPANSION_CHILDREN = 10;
+
 const Controls: React.FC<ControlsProps> = ({
   onModeChange,
   selectedMode,
@@ -26,6 +86,7 @@ const Controls: React.FC<ControlsProps> = ({
   onMergeDuplicates,
   onGenerateClarifyingQuestions,
   onExportMap,
+  onImportMap,
   onUndo,
   onRedo,
   canUndo,
@@ -33,32 +94,76 @@ const Controls: React.FC<ControlsProps> = ({
   isLoading,
   selectedNode,
   onConvertNode,
+  onExpandNode,
+  searchTerm,
+  onSearchChange,
+  searchResultCount,
+  activeSearchResult,
+  onStepSearchResult,
+  tagFilter,
+  onTagFilterChange,
+  availableTags,
+  hideOutsideFilter,
+  onHideOutsideFilterChange,
+  hideFinished,
+  onHideFinishedChange,
+  tagPalette,
+  onTagPaletteChange,
+  onSetNodeTags,
+  onAutoTag,
+  selectedNodeLinks,
+  onStartLinking,
+  onUpdateLink,
+  onDeleteLink,
+  onSuggestLinks,
+  canSuggestLinks,
+  onGenerateQuiz,
+  hasHiddenQuiz,
+  onResumeQuiz,
+  studyStats,
+  onOpenStudy,
+  taskCount,
+  onOpenTaskBoard,
+  onOpenTimeline,
+  onShowShortcuts,
 }) => {
-  const [searchTerm, setSearchTerm] = useState('');
-  const [tagFilter, setTagFilter] = useState('');
-
-  const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setSearchTerm(e.target.value);
-    // In a full implementation, this would trigger a search/filter function on the map
-    console.log('Search Term:', e.target.value);
+  // Enter steps to the next result, Shift+Enter to the previous one
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      onStepSearchResult(e.shiftKey ? -1 : 1);
+    }
   };
 
-  const handleTagFilterChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setTagFilter(e.target.value);
-    // This would also trigger a filter function
-    console.log('Tag Filter:', e.target.value);
-  };
+  const [expansion, setExpansion] = useState<NodeExpansionOptions>({ kind: 'children', count: 5, depth: 1 });
+
+  const [exportFormat, setExportFormat] = useState<MapExportFormat>('json');
+  const [imageOptions, setImageOptions] = useState<ImageExportOptions>({ scope: 'all', scale: 2 });
+  const isImageFormat = exportFormat === 'svg' || exportFormat === 'png';
 
   const handleExport = useCallback(() => {
-    onExportMap();
-  }, [onExportMap]);
+    onExportMap(exportFormat, imageOptions);
+  }, [onExportMap, exportFormat, imageOptions]);
+
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImportFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      onImportMap(file);
+    }
+    e.target.value = ''; // Allow re-importing the same file
+  };
+
+  const [aiProvider, setAIProvider] = useState(() => getAIProviderSettings().provider);
+  const [isAISettingsOpen, setIsAISettingsOpen] = useState(false);
 
   const handleCollaborationClick = () => {
     alert('Real-time collaboration is a future feature! Stay tuned!');
   };
 
   return (
-    <div className="w-80 bg-gray-900 text-white flex flex-col p-4 shadow-xl border-l border-gray-700">
+    <div className="w-80 bg-gray-900 text-white flex flex-col p-4 shadow-xl border-l border-gray-700 overflow-y-auto">
       <h2 className="text-2xl font-bold mb-6 text-center text-blue-300">Mind Map Controls</h2>
 
       {isLoading && (
@@ -88,10 +193,29 @@ const Controls: React.FC<ControlsProps> = ({
         </select>
       </div>
 
+      {/* AI Provider */}
+      <div className="mb-6 p-4 bg-gray-800 rounded-lg">
+        <h3 className="text-lg font-semibold text-gray-200 mb-3">AI Provider</h3>
+        <p className="text-xs text-gray-400 mb-3">Using: {AI_PROVIDER_LABELS[aiProvider]}</p>
+        <button
+          onClick={() => setIsAISettingsOpen(true)}
+          className="w-full bg-gray-600 hover:bg-gray-700 text-white font-semibold py-2 px-3 rounded-md transition-colors text-sm"
+          disabled={isLoading}
+        >
+          Change Provider
+        </button>
+      </div>
+
       {/* Node Specific Actions */}
       <div className="mb-6 p-4 bg-gray-800 rounded-lg">
         <h3 className="text-lg font-semibold text-gray-200 mb-3">Node Actions</h3>
         <p className="text-xs text-gray-400 mb-3">{selectedNode ? `Selected: "${selectedNode.text.substring(0, 30)}..."` : 'Select a node for actions.'}</p>
+        <p className="text-xs text-gray-500 mb-3">
+          Drag nodes to move them, or edit from the keyboard.{' '}
+          <button onClick={onShowShortcuts} className="text-blue-400 hover:text-blue-300 underline">
+            Keyboard shortcuts (?)
+          </button>
+        </p>
         <div className="flex flex-col space-y-2">
           <button
             onClick={() => selectedNode && onConvertNode(selectedNode.id, 'task')}
@@ -121,9 +245,149 @@ const Controls: React.FC<ControlsProps> = ({
           >
             Generate Questions
           </button>
+          <button
+            onClick={() => selectedNode && onGenerateQuiz(selectedNode.id)}
+            className="w-full bg-amber-600 hover:bg-amber-700 text-white font-semibold py-2 px-3 rounded-md transition-colors text-sm"
+            disabled={!selectedNode || isLoading}
+            title="Generate a quiz over the selected node and everything under it"
+          >
+            Quiz Me on This Branch
+          </button>
+          {hasHiddenQuiz && (
+            <button
+              onClick={onResumeQuiz}
+              className="w-full bg-gray-600 hover:bg-gray-700 text-white font-semibold py-2 px-3 rounded-md transition-colors text-sm"
+            >
+              Return to Quiz
+            </button>
+          )}
+        </div>
+        <div className="mt-4 pt-3 border-t border-gray-700">
+          <h4 className="text-sm font-semibold text-gray-300 mb-2">Expand with AI</h4>
+          <div className="flex space-x-2 mb-2">
+            <select
+              value={expansion.kind}
+              onChange={(e) => setExpansion({ ...expansion, kind: e.target.value as NodeExpansionKind })}
+              className="flex-1 p-2 bg-gray-700 border border-gray-600 rounded-md text-gray-100 focus:ring-blue-500 focus:border-blue-500 outline-none text-sm"
+              disabled={!selectedNode || isLoading}
+            >
+              {EXPANSION_KIND_OPTIONS.map(({ value, label }) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            {expansion.kind === 'children' && (
+              <input
+                type="number"
+                min={1}
+                max={MAX_EXPANSION_CHILDREN}
+                value={expansion.count}
+                onChange={(e) =>
+                  setExpansion({ ...expansion, count: Math.max(1, Math.min(Number(e.target.value) || 1, MAX_EXPANSION_CHILDREN)) })
+                }
+                className="w-16 p-2 bg-gray-700 border border-gray-600 rounded-md text-gray-100 text-sm"
+                title="Number of children"
+                disabled={!selectedNode || isLoading}
+              />
+            )}
+            {expansion.kind === 'deepen' && (
+              <select
+                value={expansion.depth}
+                onChange={(e) => setExpansion({ ...expansion, depth: Number(e.target.value) as 1 | 2 })}
+                className="w-24 p-2 bg-gray-700 border border-gray-600 rounded-md text-gray-100 text-sm"
+                disabled={!selectedNode || isLoading}
+              >
+                <option value={1}>1 level</option>
+                <option value={2}>2 levels</option>
+              </select>
+            )}
+          </div>
+          <button
+            onClick={() => selectedNode && onExpandNode(selectedNode.id, expansion)}
+            className="w-full bg-pink-600 hover:bg-pink-700 text-white font-semibold py-2 px-3 rounded-md transition-colors text-sm"
+            disabled={!selectedNode || isLoading}
+          >
+            Expand with AI
+          </button>
         </div>
       </div>
 
+      {/* Flashcard study */}
+      <div className="mb-6 p-4 bg-gray-800 rounded-lg">
+        <h3 className="text-lg font-semibold text-gray-200 mb-3">Study</h3>
+        <p className="text-xs text-gray-400 mb-3">
+          {studyStats.total === 0
+            ? 'No flashcards in this map yet.'
+            : `${studyStats.due} of ${studyStats.total} flashcard${studyStats.total === 1 ? '' : 's'} due today.`}
+        </p>
+        <button
+          onClick={onOpenStudy}
+          className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-3 rounded-md transition-colors text-sm"
+          disabled={isLoading}
+        >
+          Study Flashcards{studyStats.due > 0 ? ` (${studyStats.due})` : ''}
+        </button>
+      </div>
+
+      {/* Task board, for planning maps or any map that already has tasks */}
+      {(selectedMode === MindMapMode.PROJECT_PLANNING || taskCount > 0) && (
+        <div className="mb-6 p-4 bg-gray-800 rounded-lg">
+          <h3 className="text-lg font-semibold text-gray-200 mb-3">Tasks</h3>
+          <p className="text-xs text-gray-400 mb-3">
+            {taskCount === 0
+              ? 'Use "Convert to Task" on nodes to put them on the board.'
+              : `${taskCount} task${taskCount === 1 ? '' : 's'} in this map.`}
+          </p>
+          <div className="space-y-2">
+            <button
+              onClick={onOpenTaskBoard}
+              className="w-full bg-emerald-600 hover:bg-emerald-700 text-white font-semibold py-2 px-3 rounded-md transition-colors text-sm"
+              disabled={isLoading}
+            >
+              Open Task Board
+            </button>
+            <button
+              onClick={onOpenTimeline}
+              className="w-full bg-emerald-700 hover:bg-emerald-800 text-white font-semibold py-2 px-3 rounded-md transition-colors text-sm"
+              disabled={isLoading}
+              title="Gantt chart with dependencies and the critical path"
+            >
+              Open Timeline
+            </button>
+          </div>
+          <label className="flex items-center mt-3 text-xs text-gray-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={hideFinished}
+              onChange={(e) => onHideFinishedChange(e.target.checked)}
+              className="mr-2"
+            />
+            Show only incomplete work on the map
+          </label>
+        </div>
+      )}
+
+      <TagManager
+        selectedNode={selectedNode}
+        palette={tagPalette}
+        onPaletteChange={onTagPaletteChange}
+        onSetNodeTags={onSetNodeTags}
+        onAutoTag={onAutoTag}
+        isLoading={isLoading}
+      />
+
+      <CrossLinkEditor
+        selectedNode={selectedNode}
+        nodeLinks={selectedNodeLinks}
+        onStartLinking={onStartLinking}
+        onUpdateLink={onUpdateLink}
+        onDeleteLink={onDeleteLink}
+        onSuggestLinks={onSuggestLinks}
+        canSuggestLinks={canSuggestLinks}
+        isLoading={isLoading}
+      />
+
       {/* AI Refinements */}
       <div className="mb-6 p-4 bg-gray-800 rounded-lg">
         <h3 className="text-lg font-semibold text-gray-200 mb-3">AI Refinements</h3>
@@ -153,6 +417,7 @@ const Controls: React.FC<ControlsProps> = ({
             onClick={onUndo}
             className="flex-1 bg-gray-600 hover:bg-gray-700 text-white font-semibold py-2 px-3 rounded-md transition-colors text-sm"
             disabled={!canUndo || isLoading}
+            title="Undo (Ctrl+Z)"
           >
             Undo
           </button>
@@ -160,33 +425,111 @@ const Controls: React.FC<ControlsProps> = ({
             onClick={onRedo}
             className="flex-1 bg-gray-600 hover:bg-gray-700 text-white font-semibold py-2 px-3 rounded-md transition-colors text-sm"
             disabled={!canRedo || isLoading}
+            title="Redo (Ctrl+Y)"
           >
             Redo
           </button>
         </div>
         <input
-          type="text"
+          type="search"
           placeholder="Search map..."
           value={searchTerm}
-          onChange={handleSearchChange}
-          className="w-full p-2 mb-3 bg-gray-700 border border-gray-600 rounded-md text-gray-100 placeholder-gray-400 focus:ring-blue-500 focus:border-blue-500 outline-none text-sm"
+          onChange={(e) => onSearchChange(e.target.value)}
+          onKeyDown={handleSearchKeyDown}
+          className="w-full p-2 bg-gray-700 border border-gray-600 rounded-md text-gray-100 placeholder-gray-400 focus:ring-blue-500 focus:border-blue-500 outline-none text-sm"
           disabled={isLoading}
         />
+        {searchTerm.trim() && (
+          <div className="flex items-center justify-between mt-1 text-xs text-gray-400">
+            <span>
+              {searchResultCount === 0 ? 'No matches' : `${activeSearchResult + 1} of ${searchResultCount}`}
+            </span>
+            <div className="flex space-x-1">
+              <button
+                onClick={() => onStepSearchResult(-1)}
+                className="px-2 py-0.5 rounded bg-gray-600 hover:bg-gray-700 text-white"
+                disabled={searchResultCount === 0}
+                title="Previous result (Shift+Enter)"
+              >
+                ‹
+              </button>
+              <button
+                onClick={() => onStepSearchResult(1)}
+                className="px-2 py-0.5 rounded bg-gray-600 hover:bg-gray-700 text-white"
+                disabled={searchResultCount === 0}
+                title="Next result (Enter)"
+              >
+                ›
+              </button>
+            </div>
+          </div>
+        )}
         <input
-          type="text"
+          type="search"
           placeholder="Filter by tag..."
           value={tagFilter}
-          onChange={handleTagFilterChange}
-          className="w-full p-2 bg-gray-700 border border-gray-600 rounded-md text-gray-100 placeholder-gray-400 focus:ring-blue-500 focus:border-blue-500 outline-none text-sm"
+          onChange={(e) => onTagFilterChange(e.target.value)}
+          list="map-tag-options"
+          className="w-full p-2 mt-3 bg-gray-700 border border-gray-600 rounded-md text-gray-100 placeholder-gray-400 focus:ring-blue-500 focus:border-blue-500 outline-none text-sm"
           disabled={isLoading}
-        >
-          {/* Note: In a real app, this would dynamically filter visible nodes */}
-        </input>
-      </div>
-
-      {/* Export & Collaboration */}
-      <div className="mt-auto p-4 bg-gray-800 rounded-lg">
-        <div className="flex flex-col space-y-2">
+        />
+        <datalist id="map-tag-options">
+          {availableTags.map((tag) => (
+            <option key={tag} value={tag} />
+          ))}
+        </datalist>
+        {tagFilter.trim() && (
+          <label className="flex items-center mt-1 text-xs text-gray-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={hideOutsideFilter}
+              onChange={(e) => onHideOutsideFilterChange(e.target.checked)}
+              className="mr-2"
+            />
+            Hide other branches instead of dimming
+          </label>
+        )}
+        <div className="flex flex-col space-y-2 mt-3">
+          <select
+            value={exportFormat}
+            onChange={(e) => setExportFormat(e.target.value as MapExportFormat)}
+            className="w-full p-2 bg-gray-700 border border-gray-600 rounded-md text-gray-100 focus:ring-blue-500 focus:border-blue-500 outline-none text-sm"
+            disabled={isLoading}
+          >
+            {EXPORT_FORMAT_OPTIONS.map(({ value, label }) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          {isImageFormat && (
+            <div className="flex space-x-2">
+              <select
+                value={imageOptions.scope}
+                onChange={(e) => setImageOptions({ ...imageOptions, scope: e.target.value as ImageExportOptions['scope'] })}
+                className="flex-1 p-2 bg-gray-700 border border-gray-600 rounded-md text-gray-100 focus:ring-blue-500 focus:border-blue-500 outline-none text-sm"
+                disabled={isLoading}
+              >
+                <option value="all">Whole map</option>
+                <option value="expanded">Expanded nodes only</option>
+                <option value="selected" disabled={!selectedNode}>Selected subtree</option>
+              </select>
+              {exportFormat === 'png' && (
+                <select
+                  value={imageOptions.scale}
+                  onChange={(e) => setImageOptions({ ...imageOptions, scale: Number(e.target.value) })}
+                  className="w-20 p-2 bg-gray-700 border border-gray-600 rounded-md text-gray-100 focus:ring-blue-500 focus:border-blue-500 outline-none text-sm"
+                  disabled={isLoading}
+                >
+                  {PNG_SCALES.map((scale) => (
+                    <option key={scale} value={scale}>
+                      {scale}x
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+          )}
           <button
             onClick={handleExport}
             className="w-full bg-cyan-600 hover:bg-cyan-700 text-white font-bold py-2 px-4 rounded-md transition-colors text-sm"
@@ -194,6 +537,26 @@ const Controls: React.FC<ControlsProps> = ({
           >
             Export Map
           </button>
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="w-full bg-cyan-800 hover:bg-cyan-900 text-white font-bold py-2 px-4 rounded-md transition-colors text-sm"
+            disabled={isLoading}
+          >
+            Import Map
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json,.md,.markdown,.txt,.opml,.xml,.mm"
+            onChange={handleImportFileChange}
+            className="hidden"
+          />
+        </div>
+      </div>
+
+      {/* Collaboration */}
+      <div className="mt-auto p-4 bg-gray-800 rounded-lg">
+        <div className="flex flex-col space-y-2">
           <button
             onClick={handleCollaborationClick}
             className="w-full bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded-md transition-colors text-sm"
@@ -203,6 +566,15 @@ const Controls: React.FC<ControlsProps> = ({
           </button>
         </div>
       </div>
+
+      <Modal isOpen={isAISettingsOpen} onClose={() => setIsAISettingsOpen(false)} title="AI Provider">
+        <AISettings
+          onSaved={(settings) => {
+            setAIProvider(settings.provider);
+            setIsAISettingsOpen(false);
+          }}
+        />
+      </Modal>
     </div>
   );
 };
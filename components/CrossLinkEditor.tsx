@@ -0,0 +1,110 @@
+import React from 'react';
+import { MindMapLink, MindMapNode } from '../types';
+
+type LinkDirection = 'none' | 'out' | 'in'; // Relative to the selected node
+
+interface CrossLinkEditorProps {
+  selectedNode: MindMapNode | null;
+  nodeLinks: { link: MindMapLink; other: MindMapNode }[]; // Links of the selected node
+  onStartLinking: (nodeId: string) => void;
+  onUpdateLink: (linkId: string, changes: Partial<Omit<MindMapLink, 'id'>>) => void;
+  onDeleteLink: (linkId: string) => void;
+  onSuggestLinks: () => void;
+  canSuggestLinks: boolean;
+  isLoading: boolean;
+}
+
+const directionOf = (link: MindMapLink, nodeId: string): LinkDirection =>
+  !link.directed ? 'none' : link.fromId === nodeId ? 'out' : 'in';
+
+const CrossLinkEditor: React.FC<CrossLinkEditorProps> = ({
+  selectedNode,
+  nodeLinks,
+  onStartLinking,
+  onUpdateLink,
+  onDeleteLink,
+  onSuggestLinks,
+  canSuggestLinks,
+  isLoading,
+}) => {
+  const handleDirectionChange = (link: MindMapLink, other: MindMapNode, direction: LinkDirection) => {
+    if (!selectedNode) return;
+    if (direction === 'none') onUpdateLink(link.id, { directed: false });
+    else if (direction === 'out') onUpdateLink(link.id, { directed: true, fromId: selectedNode.id, toId: other.id });
+    else onUpdateLink(link.id, { directed: true, fromId: other.id, toId: selectedNode.id });
+  };
+
+  // Labels are saved when the field loses focus, so typing doesn't add an autosave per keystroke
+  const handleLabelBlur = (link: MindMapLink, e: React.FocusEvent<HTMLInputElement>) => {
+    const label = e.target.value.trim();
+    if (label !== link.label) onUpdateLink(link.id, { label });
+  };
+
+  return (
+    <div className="mb-6 p-4 bg-gray-800 rounded-lg">
+      <h3 className="text-lg font-semibold text-gray-200 mb-3">Cross-links</h3>
+
+      {selectedNode ? (
+        <>
+          {nodeLinks.length === 0 && <p className="text-xs text-gray-400 mb-2">No links on this node.</p>}
+          <ul className="space-y-2 mb-3">
+            {nodeLinks.map(({ link, other }) => (
+              <li key={link.id} className="p-2 bg-gray-700 rounded-md space-y-1">
+                <div className="flex items-center space-x-2">
+                  <select
+                    value={directionOf(link, selectedNode.id)}
+                    onChange={(e) => handleDirectionChange(link, other, e.target.value as LinkDirection)}
+                    className="p-1 bg-gray-600 border border-gray-500 rounded text-gray-100 text-xs outline-none"
+                    title="Direction"
+                  >
+                    <option value="none">&mdash;</option>
+                    <option value="out">&rarr;</option>
+                    <option value="in">&larr;</option>
+                  </select>
+                  <span className="flex-1 text-sm text-gray-200 truncate" title={other.text}>
+                    {other.text}
+                  </span>
+                  <button
+                    onClick={() => onDeleteLink(link.id)}
+                    className="text-gray-400 hover:text-white font-bold"
+                    title={`Remove the link to "${other.text}"`}
+                  >
+                    &times;
+                  </button>
+                </div>
+                <input
+                  key={link.label} // Picks up labels changed elsewhere
+                  type="text"
+                  placeholder="Label..."
+                  defaultValue={link.label}
+                  onBlur={(e) => handleLabelBlur(link, e)}
+                  onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                  className="w-full p-1 bg-gray-600 border border-gray-500 rounded text-gray-100 placeholder-gray-400 outline-none text-xs"
+                />
+              </li>
+            ))}
+          </ul>
+          <button
+            onClick={() => onStartLinking(selectedNode.id)}
+            className="w-full mb-2 bg-gray-600 hover:bg-gray-700 text-white font-semibold py-2 px-3 rounded-md transition-colors text-sm"
+          >
+            Link to Another Node
+          </button>
+        </>
+      ) : (
+        <p className="text-xs text-gray-400 mb-3">Select a node to see and edit its links.</p>
+      )}
+
+      <button
+        onClick={onSuggestLinks}
+        className="w-full bg-teal-600 hover:bg-teal-700 text-white font-semibold py-2 px-3 rounded-md transition-colors text-sm"
+        disabled={isLoading || !canSuggestLinks}
+        title="Suggest links between related ideas in different branches"
+      >
+        Suggest Cross-links (AI)
+      </button>
+    </div>
+  );
+};
+
+export default CrossLinkEditor;
@@ -0,0 +1,62 @@
+import React from 'react';
+import { MindMapLink } from '../types';
+import { NodeBox, crossLinkPath } from '../services/layoutService';
+
+interface CrossLinkLayerProps {
+  links: MindMapLink[];
+  boxes: Map<string, NodeBox>; // Where each visible node is drawn; links to nodes without a box are skipped
+  width: number;
+  height: number;
+}
+
+const LINK_COLOR = '#0d9488'; // teal-600, apart from the grey tree edges
+const ARROW_ID = 'cross-link-arrow';
+
+// Dashed connectors for cross-links, drawn over the canvas without taking pointer events
+const CrossLinkLayer: React.FC<CrossLinkLayerProps> = ({ links, boxes, width, height }) => {
+  const drawn = links.flatMap((link) => {
+    const from = boxes.get(link.fromId);
+    const to = boxes.get(link.toId);
+    return from && to ? [{ link, ...crossLinkPath(from, to) }] : [];
+  });
+  if (drawn.length === 0) return null;
+
+  return (
+    <svg className="absolute top-0 left-0 pointer-events-none" width={width} height={height}>
+      <defs>
+        <marker id={ARROW_ID} viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+          <path d="M 0 0 L 10 5 L 0 10 z" fill={LINK_COLOR} />
+        </marker>
+      </defs>
+      {drawn.map(({ link, path, labelX, labelY }) => (
+        <g key={link.id}>
+          <path
+            d={path}
+            fill="none"
+            stroke={LINK_COLOR}
+            strokeWidth={2}
+            strokeDasharray="6 4"
+            markerEnd={link.directed ? `url(#${ARROW_ID})` : undefined}
+          />
+          {link.label && (
+            <text
+              x={labelX}
+              y={labelY}
+              textAnchor="middle"
+              dominantBaseline="middle"
+              fontSize={12}
+              fill={LINK_COLOR}
+              stroke="#f3f4f6"
+              strokeWidth={4}
+              paintOrder="stroke"
+            >
+              {link.label}
+            </text>
+          )}
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+export default CrossLinkLayer;
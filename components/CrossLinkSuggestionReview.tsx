@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { CrossLinkSuggestion } from '../types';
+
+interface CrossLinkSuggestionReviewProps {
+  suggestions: CrossLinkSuggestion[];
+  onApply: (accepted: CrossLinkSuggestion[]) => void;
+  onCancel: () => void;
+}
+
+const CrossLinkSuggestionReview: React.FC<CrossLinkSuggestionReviewProps> = ({ suggestions, onApply, onCancel }) => {
+  const allIds = suggestions.map((suggestion) => suggestion.id);
+  const [acceptedIds, setAcceptedIds] = useState<Set<string>>(() => new Set(allIds));
+
+  const toggle = (id: string) => {
+    const next = new Set(acceptedIds);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setAcceptedIds(next);
+  };
+
+  return (
+    <div className="space-y-3 text-sm text-gray-700">
+      <p>The AI suggests linking these ideas. Untick any you don't want.</p>
+      <div className="flex space-x-2">
+        <button
+          onClick={() => setAcceptedIds(new Set(allIds))}
+          className="px-2 py-1 rounded-md bg-gray-200 hover:bg-gray-300 text-xs font-semibold"
+        >
+          Accept all
+        </button>
+        <button
+          onClick={() => setAcceptedIds(new Set())}
+          className="px-2 py-1 rounded-md bg-gray-200 hover:bg-gray-300 text-xs font-semibold"
+        >
+          Reject all
+        </button>
+      </div>
+      <ul className="space-y-2">
+        {suggestions.map(({ id, fromText, toText, label, directed }) => (
+          <li key={id}>
+            <label className="flex items-start space-x-2 cursor-pointer">
+              <input type="checkbox" className="mt-1" checked={acceptedIds.has(id)} onChange={() => toggle(id)} />
+              <span className="break-words">
+                <span className="font-medium">{fromText}</span>
+                <span className="text-teal-700"> {directed ? '→' : '—'} {label || 'related'} {directed ? '→' : '—'} </span>
+                <span className="font-medium">{toText}</span>
+              </span>
+            </label>
+          </li>
+        ))}
+      </ul>
+      <div className="flex space-x-2 pt-2">
+        <button
+          onClick={() => onApply(suggestions.filter((suggestion) => acceptedIds.has(suggestion.id)))}
+          className="flex-1 bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-3 rounded-md transition-colors disabled:opacity-50"
+          disabled={acceptedIds.size === 0}
+        >
+          Add {acceptedIds.size} of {allIds.length} link{allIds.length === 1 ? '' : 's'}
+        </button>
+        <button
+          onClick={onCancel}
+          className="flex-1 bg-gray-200 hover:bg-gray-300 text-gray-800 font-semibold py-2 px-3 rounded-md transition-colors"
+        >
+          Discard
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CrossLinkSuggestionReview;
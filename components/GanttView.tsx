@@ -0,0 +1,321 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { GANTT_DAY_WIDTH, GANTT_ROW_HEIGHT } from '../constants';
+import { MindMapNode } from '../types';
+import { buildProjectSchedule, ScheduledTask } from '../services/scheduleService';
+import { TaskMetadata } from '../services/taskService';
+import { addDays, daysBetween, isDateKey, parseDateKey, toDateKey } from '../utils/dateUtils';
+
+interface GanttViewProps {
+  rootNodes: MindMapNode[];
+  onUpdateTask: (nodeId: string, changes: Partial<TaskMetadata>) => void;
+  onShowNode: (nodeId: string) => void;
+  onSuggestEstimates: () => void;
+  isLoading: boolean;
+  onClose: () => void;
+}
+
+const LABEL_WIDTH = 288; // px
+const HEADER_HEIGHT = 40; // px
+const TRAILING_DAYS = 2; // Empty days after the project finish, so the last bar isn't flush with the edge
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const formatDays = (days: number) => `${days}d`;
+
+// Timeline of the plan's tasks, shown in place of the canvas: bars follow the critical-path schedule,
+// with dependency arrows, slack and loops in the dependencies called out
+const GanttView: React.FC<GanttViewProps> = ({ rootNodes, onUpdateTask, onShowNode, onSuggestEstimates, isLoading, onClose }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const today = toDateKey();
+  const schedule = useMemo(() => buildProjectSchedule(rootNodes, today), [rootNodes, today]);
+  const { tasks, cycles } = schedule;
+  const rowOf = useMemo(() => new Map(tasks.map((task, index) => [task.nodeId, index])), [tasks]);
+  const tasksById = useMemo(() => new Map(tasks.map((task) => [task.nodeId, task])), [tasks]);
+  const selected = selectedId ? tasksById.get(selectedId) ?? null : null;
+
+  const dayCount = schedule.lengthDays + TRAILING_DAYS;
+  const days = Array.from({ length: dayCount }, (_, i) => addDays(schedule.startDate, i));
+  const todayOffset = daysBetween(schedule.startDate, today);
+  const rowCenter = (index: number) => index * GANTT_ROW_HEIGHT + GANTT_ROW_HEIGHT / 2;
+
+  // Escape goes back to the map, as in the study view
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.target as HTMLElement).closest('input, textarea, select') || document.querySelector('[role="dialog"]')) return;
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // Durations are saved when the field loses focus, so typing doesn't add an undo step per keystroke
+  const handleDurationBlur = (task: ScheduledTask, e: React.FocusEvent<HTMLInputElement>) => {
+    const value = e.target.value.trim();
+    const durationDays = value === '' ? undefined : Math.max(0, Math.round(Number(value)));
+    if (Number.isNaN(durationDays)) return;
+    if (durationDays !== task.task.durationDays) onUpdateTask(task.nodeId, { durationDays });
+  };
+
+  const setDependencies = (task: ScheduledTask, dependsOn: string[]) =>
+    onUpdateTask(task.nodeId, { dependsOn: dependsOn.length > 0 ? dependsOn : undefined });
+
+  const renderBar = (task: ScheduledTask) => {
+    const left = task.earlyStart * GANTT_DAY_WIDTH;
+    const title = `${task.text}: ${task.startDate} to ${task.finishDate}${task.slack > 0 ? `, ${task.slack} days of slack` : ', critical'}`;
+    const color = task.task.completed ? 'bg-green-500' : task.isCritical ? 'bg-red-500' : 'bg-blue-500';
+    return (
+      <>
+        {task.slack > 0 && (
+          <div
+            className="absolute top-3 h-5 border border-dashed border-gray-400 rounded-r"
+            style={{ left: task.earlyFinish * GANTT_DAY_WIDTH, width: task.slack * GANTT_DAY_WIDTH }}
+            title={`${task.slack} days of slack`}
+          />
+        )}
+        {task.durationDays === 0 ? (
+          <div
+            className={`absolute top-3 w-4 h-4 rotate-45 ${color}`}
+            style={{ left: left - 8 }}
+            title={title}
+          />
+        ) : (
+          <div
+            className={`absolute top-2.5 h-6 rounded ${color} ${task.isEstimated ? '' : 'opacity-60'} ${
+              task.inCycle ? 'ring-2 ring-offset-1 ring-orange-500' : ''
+            }`}
+            style={{ left, width: task.durationDays * GANTT_DAY_WIDTH }}
+            title={title}
+          />
+        )}
+      </>
+    );
+  };
+
+  // Arrows run from the end of each dependency to the start of the task waiting on it
+  const renderArrows = () => (
+    <svg
+      className="absolute pointer-events-none"
+      style={{ left: LABEL_WIDTH, top: HEADER_HEIGHT }}
+      width={dayCount * GANTT_DAY_WIDTH}
+      height={tasks.length * GANTT_ROW_HEIGHT}
+    >
+      <defs>
+        <marker id="gantt-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+          <path d="M 0 0 L 10 5 L 0 10 z" fill="#6b7280" />
+        </marker>
+        <marker id="gantt-arrow-critical" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+          <path d="M 0 0 L 10 5 L 0 10 z" fill="#dc2626" />
+        </marker>
+      </defs>
+      {tasks.flatMap((task) =>
+        task.dependsOn.map((depId) => {
+          const dep = tasksById.get(depId)!;
+          const x1 = dep.earlyFinish * GANTT_DAY_WIDTH;
+          const y1 = rowCenter(rowOf.get(depId)!);
+          const x2 = task.earlyStart * GANTT_DAY_WIDTH;
+          const y2 = rowCenter(rowOf.get(task.nodeId)!);
+          const critical = task.isCritical && dep.isCritical && dep.earlyFinish === task.earlyStart;
+          const broken = task.inCycle && dep.inCycle;
+          return (
+            <path
+              key={`${depId}-${task.nodeId}`}
+              d={`M ${x1} ${y1} C ${x1 + 16} ${y1}, ${x2 - 16} ${y2}, ${x2} ${y2}`}
+              fill="none"
+              stroke={broken ? '#f97316' : critical ? '#dc2626' : '#6b7280'}
+              strokeWidth={critical ? 2 : 1.25}
+              strokeDasharray={broken ? '4 3' : undefined}
+              markerEnd={`url(#${critical ? 'gantt-arrow-critical' : 'gantt-arrow'})`}
+            />
+          );
+        })
+      )}
+    </svg>
+  );
+
+  const renderEditor = (task: ScheduledTask) => {
+    const candidates = tasks.filter((other) => other.nodeId !== task.nodeId && !task.dependsOn.includes(other.nodeId));
+    return (
+      <div className="bg-white rounded-xl shadow p-4 space-y-3 text-sm text-gray-800">
+        <div className="flex items-center justify-between">
+          <p className="font-semibold">{task.text}</p>
+          <button onClick={() => onShowNode(task.nodeId)} className="text-blue-600 hover:text-blue-800 underline">
+            Show in map
+          </button>
+        </div>
+        <p className="text-xs text-gray-500">
+          Scheduled {task.startDate} to {task.finishDate}
+          {task.isCritical ? ', on the critical path' : `, ${task.slack} days of slack`}.
+        </p>
+        <div className="grid grid-cols-2 gap-3">
+          <label className="block">
+            <span className="text-gray-500 text-xs">Not before</span>
+            <input
+              type="date"
+              value={isDateKey(task.task.startDate) ? task.task.startDate : ''}
+              onChange={(e) => onUpdateTask(task.nodeId, { startDate: e.target.value || undefined })}
+              className="mt-0.5 w-full p-1 border border-gray-300 rounded outline-none"
+            />
+          </label>
+          <label className="block">
+            <span className="text-gray-500 text-xs">Duration (days, 0 for a milestone)</span>
+            <input
+              key={`${task.nodeId}:${task.task.durationDays ?? ''}`} // Picks up estimates changed by undo or the AI
+              type="number"
+              min={0}
+              defaultValue={task.task.durationDays ?? ''}
+              placeholder={`${task.durationDays} (default)`}
+              onBlur={(e) => handleDurationBlur(task, e)}
+              onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+              className="mt-0.5 w-full p-1 border border-gray-300 rounded outline-none"
+            />
+          </label>
+        </div>
+        <div>
+          <p className="text-gray-500 text-xs mb-1">Starts after</p>
+          <div className="flex flex-wrap gap-1">
+            {task.dependsOn.map((depId) => (
+              <span key={depId} className="inline-flex items-center bg-gray-200 rounded-full px-2 py-0.5 text-xs">
+                {tasksById.get(depId)!.text}
+                <button
+                  onClick={() => setDependencies(task, task.dependsOn.filter((id) => id !== depId))}
+                  className="ml-1 text-gray-500 hover:text-gray-900 font-bold"
+                  title="Remove this dependency"
+                >
+                  &times;
+                </button>
+              </span>
+            ))}
+            <select
+              value=""
+              onChange={(e) => e.target.value && setDependencies(task, [...task.dependsOn, e.target.value])}
+              className="p-1 border border-gray-300 rounded outline-none text-xs"
+              disabled={candidates.length === 0}
+            >
+              <option value="">+ Add a task it waits for...</option>
+              {candidates.map((other) => (
+                <option key={other.nodeId} value={other.nodeId}>
+                  {other.text}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex-1 relative bg-gray-100 overflow-auto flex flex-col p-8 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-800">Timeline</h2>
+          {tasks.length > 0 && (
+            <p className="text-sm text-gray-500">
+              {schedule.startDate} to {schedule.finishDate} &middot; {schedule.lengthDays} days &middot;{' '}
+              {tasks.filter((task) => task.isCritical).length} critical task(s)
+            </p>
+          )}
+        </div>
+        <div className="flex space-x-2">
+          <button
+            onClick={onSuggestEstimates}
+            className="px-3 py-1 rounded-md bg-purple-600 hover:bg-purple-700 text-sm font-semibold text-white disabled:opacity-50"
+            disabled={isLoading || tasks.length === 0}
+            title="Let the AI propose durations and dependencies for review"
+          >
+            Suggest Estimates (AI)
+          </button>
+          <button
+            onClick={onClose}
+            className="px-3 py-1 rounded-md bg-white border border-gray-300 hover:bg-gray-50 text-sm font-semibold text-gray-700"
+            title="Back to the map (Esc)"
+          >
+            Back to Map
+          </button>
+        </div>
+      </div>
+
+      {cycles.length > 0 && (
+        <div className="bg-orange-50 border border-orange-300 rounded-md p-3 text-sm text-orange-900">
+          <p className="font-semibold">These tasks wait for each other, so their dependencies are ignored until one is removed:</p>
+          <ul className="list-disc pl-5">
+            {cycles.map((cycle) => (
+              <li key={cycle.join()}>{cycle.map((id) => tasksById.get(id)!.text).join(', ')}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {tasks.length === 0 ? (
+        <p className="text-gray-500">No tasks yet. Use "Convert to Task" on nodes to put them on the timeline.</p>
+      ) : (
+        <>
+          <div className="bg-white rounded-xl shadow overflow-auto">
+            <div className="relative" style={{ width: LABEL_WIDTH + dayCount * GANTT_DAY_WIDTH }}>
+              <div className="flex sticky top-0 z-10 bg-white border-b border-gray-200" style={{ height: HEADER_HEIGHT }}>
+                <div className="sticky left-0 bg-white flex-shrink-0 px-3 flex items-end pb-1 text-xs font-semibold text-gray-500" style={{ width: LABEL_WIDTH }}>
+                  Task
+                </div>
+                {days.map((day, i) => {
+                  const date = parseDateKey(day);
+                  const weekend = date.getDay() === 0 || date.getDay() === 6;
+                  return (
+                    <div
+                      key={day}
+                      className={`flex-shrink-0 flex flex-col justify-end items-center text-[10px] text-gray-500 border-l border-gray-100 ${weekend ? 'bg-gray-50' : ''}`}
+                      style={{ width: GANTT_DAY_WIDTH }}
+                    >
+                      {(i === 0 || date.getDate() === 1) && <span className="font-semibold">{MONTHS[date.getMonth()]}</span>}
+                      <span>{date.getDate()}</span>
+                    </div>
+                  );
+                })}
+              </div>
+
+              {tasks.map((task) => (
+                <div
+                  key={task.nodeId}
+                  onClick={() => setSelectedId(task.nodeId)}
+                  className={`flex cursor-pointer border-b border-gray-100 ${selectedId === task.nodeId ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                  style={{ height: GANTT_ROW_HEIGHT }}
+                >
+                  <div
+                    className={`sticky left-0 z-[5] flex-shrink-0 px-3 flex flex-col justify-center border-r border-gray-200 ${
+                      selectedId === task.nodeId ? 'bg-blue-50' : 'bg-white'
+                    }`}
+                    style={{ width: LABEL_WIDTH }}
+                  >
+                    <p className={`text-sm truncate ${task.task.completed ? 'line-through text-gray-500' : 'text-gray-800'}`} title={[...task.path, task.text].join(' › ')}>
+                      {task.text}
+                    </p>
+                    <p className="text-[11px] text-gray-500">
+                      {task.durationDays === 0 ? 'Milestone' : formatDays(task.durationDays)}
+                      {!task.isEstimated && ' (no estimate)'}
+                      {task.isCritical ? <span className="text-red-600 font-semibold"> &middot; critical</span> : ` · ${formatDays(task.slack)} slack`}
+                      {task.inCycle && <span className="text-orange-600 font-semibold"> &middot; in a loop</span>}
+                    </p>
+                  </div>
+                  <div className="relative flex-shrink-0" style={{ width: dayCount * GANTT_DAY_WIDTH }}>
+                    {renderBar(task)}
+                  </div>
+                </div>
+              ))}
+
+              {renderArrows()}
+              {todayOffset >= 0 && todayOffset <= dayCount && (
+                <div
+                  className="absolute w-px bg-red-400 pointer-events-none"
+                  style={{ left: LABEL_WIDTH + todayOffset * GANTT_DAY_WIDTH, top: HEADER_HEIGHT, height: tasks.length * GANTT_ROW_HEIGHT }}
+                  title="Today"
+                />
+              )}
+            </div>
+          </div>
+          {selected ? renderEditor(selected) : <p className="text-sm text-gray-500">Select a task to edit its dates and dependencies.</p>}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default GanttView;
@@ -1,7 +1,8 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { InputType, MindMapMode } from '../types';
 import LoadingSpinner from './LoadingSpinner';
-import { transcribeAudio } from '../services/geminiService';
+import PdfInput from './PdfInput';
+import { transcribeAudio } from '../services/aiService';
 
 interface InputPanelProps {
   onGenerateMindMap: (input: string, inputType: InputType) => Promise<void>;
@@ -108,31 +109,9 @@ const InputPanel: React.FC<InputPanelProps> = ({
     }
   };
 
-  const handlePdfUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file && file.type === 'application/pdf') {
-      const reader = new FileReader();
-      reader.onload = async (e) => {
-        const arrayBuffer = e.target?.result;
-        if (arrayBuffer instanceof ArrayBuffer) {
-          // In a real app, you'd parse PDF here (e.g., using pdf.js)
-          // For this demo, we'll simulate text extraction or prompt the user to paste text.
-          // For simplicity, let's assume we can tell the AI to extract text from a "PDF context"
-          // Or we ask the user to paste content, which then goes to AI.
-          alert('PDF upload detected. For this demo, please paste the text content from the PDF into the text area for processing.');
-          // Or if using a PDF parsing library like pdf.js:
-          // const pdf = await getDocument({ data: arrayBuffer }).promise;
-          // const page = await pdf.getPage(1);
-          // const textContent = await page.getTextContent();
-          // const text = textContent.items.map((item: any) => item.str).join(' ');
-          // setTextInput(text);
-          // onGenerateMindMap(text, InputType.PDF);
-        }
-      };
-      reader.readAsArrayBuffer(file);
-    } else {
-      alert('Please upload a valid PDF file.');
-    }
+  const handlePdfTextExtracted = (text: string) => {
+    setTextInput(text); // Keep the extracted text visible in the Text tab
+    onGenerateMindMap(text, InputType.PDF);
   };
 
   // Dummy function for converting webm to a "raw PCM" like blob
@@ -168,7 +147,7 @@ const InputPanel: React.FC<InputPanelProps> = ({
 
 
   return (
-    <div className="w-80 bg-gray-800 text-white flex flex-col p-4 shadow-xl">
+    <div className="w-80 flex-1 bg-gray-800 text-white flex flex-col p-4 shadow-xl">
       <h2 className="text-2xl font-bold mb-6 text-center text-blue-300">Mind Map Input</h2>
 
       <div className="mb-4">
@@ -246,24 +225,7 @@ const InputPanel: React.FC<InputPanelProps> = ({
         )}
 
         {currentInputType === InputType.PDF && (
-          <div className="flex flex-col items-center justify-center p-4 bg-gray-700 rounded-md">
-            <input
-              type="file"
-              accept=".pdf"
-              onChange={handlePdfUpload}
-              className="block w-full text-sm text-gray-300
-                file:mr-4 file:py-2 file:px-4
-                file:rounded-full file:border-0
-                file:text-sm file:font-semibold
-                file:bg-blue-50 file:text-blue-700
-                hover:file:bg-blue-100 cursor-pointer"
-              disabled={isLoading}
-            />
-            <p className="mt-3 text-sm text-gray-300">Upload a PDF to extract its content.</p>
-            <p className="mt-2 text-xs text-gray-400 italic">
-              (For this demo, you'll be prompted to paste content after upload.)
-            </p>
-          </div>
+          <PdfInput onTextExtracted={handlePdfTextExtracted} isLoading={isLoading} />
         )}
       </div>
 
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { MapChange, MapChangeKind } from '../types';
+
+interface MapDiffReviewProps {
+  summary: string;
+  changes: MapChange[];
+  onApply: (acceptedIds: Set<string>) => void;
+  onCancel: () => void;
+}
+
+const KIND_STYLES: Record<MapChangeKind, { label: string; className: string }> = {
+  added: { label: 'Added', className: 'bg-green-100 text-green-800' },
+  removed: { label: 'Removed', className: 'bg-red-100 text-red-800' },
+  renamed: { label: 'Renamed', className: 'bg-blue-100 text-blue-800' },
+  moved: { label: 'Moved', className: 'bg-purple-100 text-purple-800' },
+  merged: { label: 'Merged', className: 'bg-yellow-100 text-yellow-800' },
+};
+
+const parentLabel = (text: string | null | undefined) => (text ? `"${text}"` : 'the top level');
+
+const describeChange = (change: MapChange): string => {
+  switch (change.kind) {
+    case 'added':
+      return `"${change.text}" under ${parentLabel(change.toParentText)}`;
+    case 'removed':
+      return `"${change.text}" and its children`;
+    case 'renamed':
+      return `"${change.text}" → "${change.newText}"`;
+    case 'moved':
+      return `"${change.text}" from ${parentLabel(change.fromParentText)} to ${parentLabel(change.toParentText)}`;
+    case 'merged':
+      return `"${change.text}" into "${change.intoText}"`;
+  }
+};
+
+const MapDiffReview: React.FC<MapDiffReviewProps> = ({ summary, changes, onApply, onCancel }) => {
+  const [acceptedIds, setAcceptedIds] = useState<Set<string>>(() => new Set(changes.map((change) => change.id)));
+
+  // Accepting a change also accepts what it depends on; rejecting one also rejects its dependents
+  const toggleChange = (change: MapChange) => {
+    const next = new Set(acceptedIds);
+    if (next.has(change.id)) {
+      next.delete(change.id);
+      changes.filter((other) => other.dependsOn === change.id).forEach((other) => next.delete(other.id));
+    } else {
+      next.add(change.id);
+      if (change.dependsOn) next.add(change.dependsOn);
+    }
+    setAcceptedIds(next);
+  };
+
+  return (
+    <div className="space-y-3 text-sm text-gray-700">
+      <p>{summary}</p>
+      <div className="flex space-x-2">
+        <button
+          onClick={() => setAcceptedIds(new Set(changes.map((change) => change.id)))}
+          className="px-2 py-1 rounded-md bg-gray-200 hover:bg-gray-300 text-xs font-semibold"
+        >
+          Accept all
+        </button>
+        <button
+          onClick={() => setAcceptedIds(new Set())}
+          className="px-2 py-1 rounded-md bg-gray-200 hover:bg-gray-300 text-xs font-semibold"
+        >
+          Reject all
+        </button>
+      </div>
+      <ul className="space-y-1">
+        {changes.map((change) => {
+          const { label, className } = KIND_STYLES[change.kind];
+          return (
+            <li key={change.id}>
+              <label className="flex items-start space-x-2 p-1 rounded-md hover:bg-gray-100 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={acceptedIds.has(change.id)}
+                  onChange={() => toggleChange(change)}
+                  className="mt-0.5"
+                />
+                <span className={`px-1.5 rounded text-xs font-semibold ${className}`}>{label}</span>
+                <span className="flex-1 break-words">{describeChange(change)}</span>
+              </label>
+            </li>
+          );
+        })}
+      </ul>
+      <div className="flex space-x-2 pt-2">
+        <button
+          onClick={() => onApply(acceptedIds)}
+          className="flex-1 bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-3 rounded-md transition-colors disabled:opacity-50"
+          disabled={acceptedIds.size === 0}
+        >
+          Apply {acceptedIds.size} of {changes.length} change{changes.length === 1 ? '' : 's'}
+        </button>
+        <button
+          onClick={onCancel}
+          className="flex-1 bg-gray-200 hover:bg-gray-300 text-gray-800 font-semibold py-2 px-3 rounded-md transition-colors"
+        >
+          Discard
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MapDiffReview;
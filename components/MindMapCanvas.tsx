@@ -1,48 +1,218 @@
 
-import React from 'react';
-import { MindMapNode } from '../types';
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { CanvasLayout, MindMapLink, MindMapNode, MapHighlightState, TagPalette } from '../types';
+import { DropPosition, KeyboardMove, flattenTree } from '../utils/treeUtils';
+import { CANVAS_LAYOUT_LABELS, NodeBox, getCanvasLayout, saveCanvasLayout } from '../services/layoutService';
 import MindMapNodeComponent from './MindMapNode';
+import MindMapGraph from './MindMapGraph';
+import CrossLinkLayer from './CrossLinkLayer';
 
 interface MindMapCanvasProps {
   rootNodes: MindMapNode[];
-  onSelectNode: (node: MindMapNode | null) => void;
+  links: MindMapLink[];
+  linkingFrom: MindMapNode | null; // Set while the user picks the other end of a new cross-link
+  onCancelLinking: () => void;
+  onSelectNode: (node: MindMapNode | null, additive?: boolean) => void;
   onAddChild: (parentId: string) => void;
   onUpdateNodeText: (nodeId: string, newText: string) => void;
   onDeleteNode: (nodeId: string) => void;
   onToggleExpand: (nodeId: string) => void;
-  selectedNodeId: string | null;
+  onDropNode: (nodeId: string, targetId: string, position: DropPosition) => void;
+  onKeyboardMove: (nodeId: string, move: KeyboardMove) => void;
+  selectedNodeId: string | null; // The primary selection, which keyboard actions use
+  selectedNodeIds: Set<string>;
+  onOpenContextMenu: (node: MindMapNode, x: number, y: number) => void;
+  editingNodeId: string | null;
+  onEditingChange: (nodeId: string | null) => void;
+  highlight: MapHighlightState;
+  tagPalette: TagPalette;
+  onToggleTaskComplete: (nodeId: string) => void;
 }
 
 const MindMapCanvas: React.FC<MindMapCanvasProps> = ({
   rootNodes,
+  links,
+  linkingFrom,
+  onCancelLinking,
   onSelectNode,
   onAddChild,
   onUpdateNodeText,
   onDeleteNode,
   onToggleExpand,
+  onDropNode,
+  onKeyboardMove,
   selectedNodeId,
+  selectedNodeIds,
+  onOpenContextMenu,
+  editingNodeId,
+  onEditingChange,
+  highlight,
+  tagPalette,
+  onToggleTaskComplete,
 }) => {
+  const [layout, setLayout] = useState<CanvasLayout>(getCanvasLayout);
+  const handleLayoutChange = (next: CanvasLayout) => {
+    saveCanvasLayout(next);
+    setLayout(next);
+  };
+
+  // The node being dragged and its branch, which can't be drop targets
+  const [draggedNodeId, setDraggedNodeId] = useState<string | null>(null);
+  const dragBranchIds = useMemo(() => {
+    const dragged = draggedNodeId ? flattenTree(rootNodes).find(({ node }) => node.id === draggedNodeId) : undefined;
+    return new Set(dragged ? flattenTree([dragged.node]).map(({ node }) => node.id) : []);
+  }, [rootNodes, draggedNodeId]);
+
+  const handleDrop = (targetId: string, position: DropPosition) => {
+    if (draggedNodeId) onDropNode(draggedNodeId, targetId, position);
+    setDraggedNodeId(null);
+  };
+
+  // Keep keyboard focus on a node after it moves (reparenting re-mounts its component)
+  const refocusIdRef = useRef<string | null>(null);
+  const handleKeyboardMove = (nodeId: string, move: KeyboardMove) => {
+    refocusIdRef.current = nodeId;
+    onKeyboardMove(nodeId, move);
+  };
+  useEffect(() => {
+    if (!refocusIdRef.current) return;
+    document.querySelector<HTMLElement>(`[data-node-id="${refocusIdRef.current}"]`)?.focus({ preventScroll: layout !== 'outline' });
+    refocusIdRef.current = null;
+  }, [rootNodes]);
+
+  // Follow keyboard selection with focus, so the selected node shows a focus ring and takes Alt+Arrow moves.
+  // Focus is left alone while typing in a field or editing a node.
+  const canvasRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const active = document.activeElement;
+    if (!selectedNodeId || (active !== document.body && !active?.closest('[data-node-id]'))) return;
+    if (active instanceof HTMLTextAreaElement) return;
+    const element = canvasRef.current?.querySelector<HTMLElement>(`[data-node-id="${selectedNodeId}"]`);
+    if (element && element !== active) element.focus({ preventScroll: layout !== 'outline' });
+  }, [selectedNodeId, rootNodes, layout]);
+
+  // Bring the current search result into view once it is rendered (its ancestors may still be expanding).
+  // Graph layouts centre it by panning instead.
+  const scrolledToRef = useRef<string | null>(null);
+  useEffect(() => {
+    const matchId = highlight.activeMatchId;
+    if (!matchId || layout !== 'outline') {
+      scrolledToRef.current = null;
+      return;
+    }
+    if (scrolledToRef.current === matchId) return;
+    const element = document.querySelector(`[data-node-id="${matchId}"]`);
+    if (element) {
+      element.scrollIntoView({ behavior: 'smooth', block: 'center', inline: 'center' });
+      scrolledToRef.current = matchId;
+    }
+  }, [highlight.activeMatchId, rootNodes, layout]);
+
+  // The outline is laid out by the browser, so its cross-links join the measured node cards
+  const outlineRef = useRef<HTMLDivElement>(null);
+  const [outlineLinks, setOutlineLinks] = useState<{ boxes: Map<string, NodeBox>; width: number; height: number }>({
+    boxes: new Map(),
+    width: 0,
+    height: 0,
+  });
+  const measuredKeyRef = useRef('');
+  useLayoutEffect(() => {
+    const container = outlineRef.current;
+    if (!container || links.length === 0) return;
+    const linkedIds = new Set(links.flatMap((link) => [link.fromId, link.toId]));
+    const origin = container.getBoundingClientRect();
+    const boxes = new Map<string, NodeBox>();
+    container.querySelectorAll<HTMLElement>('[data-node-id]').forEach((element) => {
+      const id = element.dataset.nodeId;
+      if (!id || !linkedIds.has(id)) return;
+      const rect = element.getBoundingClientRect();
+      boxes.set(id, { x: rect.left - origin.left, y: rect.top - origin.top, width: rect.width, height: rect.height });
+    });
+    const measured = { boxes, width: container.scrollWidth, height: container.scrollHeight };
+    const key = JSON.stringify([[...boxes], measured.width, measured.height]);
+    if (key === measuredKeyRef.current) return;
+    measuredKeyRef.current = key;
+    setOutlineLinks(measured);
+  });
+
+  const renderNode = (node: MindMapNode, level: number, flat: boolean) => (
+    <MindMapNodeComponent
+      key={node.id}
+      node={node}
+      level={level}
+      onSelectNode={onSelectNode}
+      onAddChild={onAddChild}
+      onUpdateNodeText={onUpdateNodeText}
+      onDeleteNode={onDeleteNode}
+      onToggleExpand={onToggleExpand}
+      dragBranchIds={dragBranchIds}
+      onDragNodeStart={setDraggedNodeId}
+      onDragNodeEnd={() => setDraggedNodeId(null)}
+      onDropNode={handleDrop}
+      onKeyboardMove={handleKeyboardMove}
+      selectedNodeIds={selectedNodeIds}
+      onOpenContextMenu={onOpenContextMenu}
+      editingNodeId={editingNodeId}
+      onEditingChange={onEditingChange}
+      highlight={highlight}
+      tagPalette={tagPalette}
+      onToggleTaskComplete={onToggleTaskComplete}
+      flat={flat}
+    />
+  );
+  const hiddenIds = useMemo(
+    () =>
+      new Set([
+        ...(highlight.hideOutsideFilter ? highlight.outsideFilterIds : []),
+        ...(highlight.hideFinished ? highlight.finishedIds : []),
+      ]),
+    [highlight.hideOutsideFilter, highlight.outsideFilterIds, highlight.hideFinished, highlight.finishedIds]
+  );
+
   return (
-    <div className="flex-1 p-8 bg-gray-100 overflow-auto scrollbar-thin scrollbar-thumb-gray-400 scrollbar-track-gray-200">
-      <div className="min-w-full min-h-full flex flex-col items-start space-y-6">
-        {rootNodes.length === 0 ? (
-          <p className="text-gray-500 text-lg italic text-center w-full mt-20">Start by entering text/voice/PDF to generate your mind map!</p>
-        ) : (
-          rootNodes.map((node) => (
-            <MindMapNodeComponent
-              key={node.id}
-              node={node}
-              level={0}
-              onSelectNode={onSelectNode}
-              onAddChild={onAddChild}
-              onUpdateNodeText={onUpdateNodeText}
-              onDeleteNode={onDeleteNode}
-              onToggleExpand={onToggleExpand}
-              selectedNodeId={selectedNodeId}
-            />
-          ))
-        )}
-      </div>
+    <div ref={canvasRef} className="flex-1 relative bg-gray-100 overflow-hidden">
+      {rootNodes.length === 0 ? (
+        <p className="text-gray-500 text-lg italic text-center w-full mt-20">Start by entering text/voice/PDF to generate your mind map!</p>
+      ) : layout === 'outline' ? (
+        <div className="h-full p-8 overflow-auto scrollbar-thin scrollbar-thumb-gray-400 scrollbar-track-gray-200">
+          <div ref={outlineRef} className="relative min-w-full min-h-full">
+            <div className="flex flex-col items-start space-y-6">{rootNodes.map((node) => renderNode(node, 0, false))}</div>
+            <CrossLinkLayer links={links} boxes={outlineLinks.boxes} width={outlineLinks.width} height={outlineLinks.height} />
+          </div>
+        </div>
+      ) : (
+        <MindMapGraph
+          rootNodes={rootNodes}
+          links={links}
+          layout={layout}
+          hiddenIds={hiddenIds}
+          activeMatchId={highlight.activeMatchId}
+          renderNode={(node, level) => renderNode(node, level, true)}
+        />
+      )}
+
+      {linkingFrom && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20 flex items-center space-x-3 px-4 py-2 bg-teal-600 text-white text-sm rounded-lg shadow">
+          <span>Click the node to link "{linkingFrom.text.substring(0, 30)}" to. Esc cancels.</span>
+          <button onClick={onCancelLinking} className="px-2 py-0.5 rounded bg-teal-700 hover:bg-teal-800 font-semibold">
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {/* Layout switcher */}
+      <select
+        value={layout}
+        onChange={(e) => handleLayoutChange(e.target.value as CanvasLayout)}
+        className="absolute top-4 right-4 z-20 p-2 bg-white border border-gray-300 rounded-lg shadow text-sm text-gray-700 outline-none"
+        title="Canvas layout"
+      >
+        {(Object.keys(CANVAS_LAYOUT_LABELS) as CanvasLayout[]).map((option) => (
+          <option key={option} value={option}>
+            {CANVAS_LAYOUT_LABELS[option]}
+          </option>
+        ))}
+      </select>
     </div>
   );
 };
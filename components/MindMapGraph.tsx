@@ -0,0 +1,195 @@
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { CANVAS_MAX_ZOOM, CANVAS_MIN_ZOOM } from '../constants';
+import { MindMapLink, MindMapNode } from '../types';
+import { GraphLayout, NodeBox, NodeSize, layoutMindMap } from '../services/layoutService';
+import CrossLinkLayer from './CrossLinkLayer';
+
+interface MindMapGraphProps {
+  rootNodes: MindMapNode[];
+  links: MindMapLink[];
+  layout: GraphLayout;
+  hiddenIds: Set<string>;
+  activeMatchId: string | null;
+  renderNode: (node: MindMapNode, level: number) => React.ReactNode;
+}
+
+interface ViewTransform {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+const DEFAULT_NODE_SIZE: NodeSize = { width: 160, height: 40 }; // Until a node has been measured
+const EDGE_COLOR = '#9ca3af'; // gray-400, as the outline connectors
+const ZOOM_STEP = 1.2;
+const FIT_PADDING = 0.95;
+
+const clampZoom = (scale: number) => Math.min(CANVAS_MAX_ZOOM, Math.max(CANVAS_MIN_ZOOM, scale));
+
+// Nodes positioned by a layout engine with curved SVG edges, zoomed with the wheel and panned by dragging the background
+const MindMapGraph: React.FC<MindMapGraphProps> = ({ rootNodes, links, layout, hiddenIds, activeMatchId, renderNode }) => {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const nodeElementsRef = useRef(new Map<string, HTMLDivElement>());
+  const [sizes, setSizes] = useState<Record<string, NodeSize>>({});
+  const [view, setView] = useState<ViewTransform>({ x: 0, y: 0, scale: 1 });
+
+  const mapLayout = useMemo(
+    () => layoutMindMap(rootNodes, layout, (node) => sizes[node.id] ?? DEFAULT_NODE_SIZE, hiddenIds),
+    [rootNodes, layout, sizes, hiddenIds]
+  );
+  const nodeBoxes = useMemo(() => new Map<string, NodeBox>(mapLayout.nodes.map((box) => [box.node.id, box])), [mapLayout]);
+
+  // Measure rendered nodes and re-run the layout until every size is known
+  useLayoutEffect(() => {
+    const measured: Record<string, NodeSize> = {};
+    let changed = false;
+    nodeElementsRef.current.forEach((element, id) => {
+      measured[id] = { width: element.offsetWidth, height: element.offsetHeight };
+      const known = sizes[id];
+      if (!known || known.width !== measured[id].width || known.height !== measured[id].height) changed = true;
+    });
+    if (changed) setSizes(measured);
+  });
+
+  const zoomAt = useCallback((factor: number, pointX: number, pointY: number) => {
+    setView((current) => {
+      const scale = clampZoom(current.scale * factor);
+      const ratio = scale / current.scale;
+      return { scale, x: pointX - (pointX - current.x) * ratio, y: pointY - (pointY - current.y) * ratio };
+    });
+  }, []);
+
+  const zoomAtCentre = (factor: number) => {
+    const viewport = viewportRef.current;
+    if (viewport) zoomAt(factor, viewport.clientWidth / 2, viewport.clientHeight / 2);
+  };
+
+  const fitToScreen = useCallback(() => {
+    const viewport = viewportRef.current;
+    if (!viewport || mapLayout.width === 0) return;
+    const scale = clampZoom(Math.min(viewport.clientWidth / mapLayout.width, viewport.clientHeight / mapLayout.height, 1) * FIT_PADDING);
+    setView({
+      scale,
+      x: (viewport.clientWidth - mapLayout.width * scale) / 2,
+      y: (viewport.clientHeight - mapLayout.height * scale) / 2,
+    });
+  }, [mapLayout]);
+
+  // React's wheel listener is passive, so zooming (which must stop the page scrolling) needs a native one
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = viewport.getBoundingClientRect();
+      zoomAt(Math.exp(-e.deltaY * 0.0015), e.clientX - rect.left, e.clientY - rect.top);
+    };
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', handleWheel);
+  }, [zoomAt]);
+
+  // Fit when a different map is shown or the layout changes, once its nodes have been measured
+  const mapKey = `${layout}:${rootNodes.map((node) => node.id).join(',')}`;
+  const fittedKeyRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (fittedKeyRef.current === mapKey) return;
+    if (mapLayout.nodes.some(({ node }) => !sizes[node.id])) return;
+    fitToScreen();
+    fittedKeyRef.current = mapKey;
+  }, [mapKey, mapLayout, sizes, fitToScreen]);
+
+  // Centre the current search result
+  const centredMatchRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!activeMatchId) {
+      centredMatchRef.current = null;
+      return;
+    }
+    const viewport = viewportRef.current;
+    const match = mapLayout.nodes.find(({ node }) => node.id === activeMatchId);
+    if (!viewport || !match || centredMatchRef.current === activeMatchId) return;
+    setView((current) => ({
+      ...current,
+      x: viewport.clientWidth / 2 - (match.x + match.width / 2) * current.scale,
+      y: viewport.clientHeight / 2 - (match.y + match.height / 2) * current.scale,
+    }));
+    centredMatchRef.current = activeMatchId;
+  }, [activeMatchId, mapLayout]);
+
+  // Drag the background to pan; presses on nodes and their controls keep their own behaviour
+  const panRef = useRef<{ pointerX: number; pointerY: number; viewX: number; viewY: number } | null>(null);
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0 || (e.target as HTMLElement).closest('[data-node-id], button, input, textarea, select')) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    panRef.current = { pointerX: e.clientX, pointerY: e.clientY, viewX: view.x, viewY: view.y };
+  };
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const pan = panRef.current;
+    if (!pan) return;
+    setView((current) => ({ ...current, x: pan.viewX + e.clientX - pan.pointerX, y: pan.viewY + e.clientY - pan.pointerY }));
+  };
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!panRef.current) return;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    panRef.current = null;
+  };
+
+  const setNodeElement = (nodeId: string) => (element: HTMLDivElement | null) => {
+    if (element) nodeElementsRef.current.set(nodeId, element);
+    else nodeElementsRef.current.delete(nodeId);
+  };
+
+  return (
+    <div
+      ref={viewportRef}
+      className="relative w-full h-full overflow-hidden cursor-grab active:cursor-grabbing select-none"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      <div
+        className="absolute top-0 left-0"
+        style={{
+          width: mapLayout.width,
+          height: mapLayout.height,
+          transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`,
+          transformOrigin: '0 0',
+        }}
+      >
+        <svg className="absolute top-0 left-0 pointer-events-none" width={mapLayout.width} height={mapLayout.height}>
+          {mapLayout.edges.map((edge) => (
+            <path key={`${edge.fromId}-${edge.toId}`} d={edge.path} fill="none" stroke={EDGE_COLOR} strokeWidth={2} />
+          ))}
+        </svg>
+        <CrossLinkLayer links={links} boxes={nodeBoxes} width={mapLayout.width} height={mapLayout.height} />
+        {mapLayout.nodes.map(({ node, x, y, depth }) => (
+          <div
+            key={node.id}
+            ref={setNodeElement(node.id)}
+            className="absolute w-max max-w-xs cursor-auto"
+            style={{ left: x, top: y }}
+          >
+            {renderNode(node, depth)}
+          </div>
+        ))}
+      </div>
+
+      {/* Zoom controls */}
+      <div className="absolute bottom-4 right-4 flex items-center space-x-1 bg-white rounded-lg shadow p-1 text-sm text-gray-700">
+        <button onClick={() => zoomAtCentre(1 / ZOOM_STEP)} className="w-8 h-8 rounded hover:bg-gray-100 font-bold" title="Zoom out">
+          &minus;
+        </button>
+        <span className="w-12 text-center tabular-nums">{Math.round(view.scale * 100)}%</span>
+        <button onClick={() => zoomAtCentre(ZOOM_STEP)} className="w-8 h-8 rounded hover:bg-gray-100 font-bold" title="Zoom in">
+          +
+        </button>
+        <button onClick={fitToScreen} className="px-2 h-8 rounded hover:bg-gray-100 font-semibold" title="Fit the map to the screen">
+          Fit
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MindMapGraph;
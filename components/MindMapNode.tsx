@@ -1,16 +1,31 @@
 
-import React, { useState } from 'react';
-import { MindMapNode, MindMapNodeType } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { MindMapNode, MindMapNodeType, MapHighlightState, TagPalette, TaskRollup } from '../types';
+import { tagColor } from '../services/tagService';
+import TagChip from './TagChip';
+import { DropPosition, KeyboardMove } from '../utils/treeUtils';
 
 interface MindMapNodeProps {
   node: MindMapNode;
   level: number;
-  onSelectNode: (node: MindMapNode | null) => void;
+  onSelectNode: (node: MindMapNode | null, additive?: boolean) => void; // additive: Ctrl/Cmd/Shift-click multi-selection
   onAddChild: (parentId: string) => void;
   onUpdateNodeText: (nodeId: string, newText: string) => void;
   onDeleteNode: (nodeId: string) => void;
   onToggleExpand: (nodeId: string) => void;
-  selectedNodeId: string | null;
+  dragBranchIds: Set<string>; // The dragged node and its descendants; empty when nothing is dragged
+  onDragNodeStart: (nodeId: string) => void;
+  onDragNodeEnd: () => void;
+  onDropNode: (targetId: string, position: DropPosition) => void;
+  onKeyboardMove: (nodeId: string, move: KeyboardMove) => void;
+  selectedNodeIds: Set<string>;
+  onOpenContextMenu: (node: MindMapNode, x: number, y: number) => void;
+  editingNodeId: string | null;
+  onEditingChange: (nodeId: string | null) => void;
+  highlight: MapHighlightState;
+  tagPalette: TagPalette;
+  onToggleTaskComplete: (nodeId: string) => void;
+  flat?: boolean; // Graph layouts position every node themselves, so only this node is rendered
 }
 
 const nodeTypeStyles: Record<MindMapNodeType, string> = {
@@ -20,6 +35,34 @@ const nodeTypeStyles: Record<MindMapNodeType, string> = {
   [MindMapNodeType.DETAIL]: 'bg-gray-700 text-gray-100 text-sm px-3 py-1 rounded-md shadow-sm',
 };
 
+const RING_RADIUS = 9;
+const RING_CIRCUMFERENCE = 2 * Math.PI * RING_RADIUS;
+
+// Share of the tasks below a node that are done
+const ProgressRing: React.FC<{ rollup: TaskRollup }> = ({ rollup }) => (
+  <span
+    className="flex-shrink-0 flex items-center space-x-1 text-xs text-gray-600"
+    title={`${rollup.done} of ${rollup.total} task${rollup.total === 1 ? '' : 's'} done (${rollup.percent}%)`}
+  >
+    <svg width="24" height="24" viewBox="0 0 24 24" className="-rotate-90">
+      <circle cx="12" cy="12" r={RING_RADIUS} fill="none" stroke="#d1d5db" strokeWidth="3" />
+      <circle
+        cx="12"
+        cy="12"
+        r={RING_RADIUS}
+        fill="none"
+        stroke={rollup.done === rollup.total ? '#16a34a' : '#2563eb'}
+        strokeWidth="3"
+        strokeDasharray={RING_CIRCUMFERENCE}
+        strokeDashoffset={RING_CIRCUMFERENCE * (1 - rollup.done / rollup.total)}
+      />
+    </svg>
+    <span>
+      {rollup.done}/{rollup.total}
+    </span>
+  </span>
+);
+
 const MindMapNodeComponent: React.FC<MindMapNodeProps> = ({
   node,
   level,
@@ -28,20 +71,54 @@ const MindMapNodeComponent: React.FC<MindMapNodeProps> = ({
   onUpdateNodeText,
   onDeleteNode,
   onToggleExpand,
-  selectedNodeId,
+  dragBranchIds,
+  onDragNodeStart,
+  onDragNodeEnd,
+  onDropNode,
+  onKeyboardMove,
+  selectedNodeIds,
+  onOpenContextMenu,
+  editingNodeId,
+  onEditingChange,
+  highlight,
+  tagPalette,
+  onToggleTaskComplete,
+  flat = false,
 }) => {
-  const [isEditing, setIsEditing] = useState(false);
+  const isEditing = editingNodeId === node.id;
   const [editText, setEditText] = useState(node.text);
+  const cardRef = useRef<HTMLDivElement>(null);
+  const discardEditRef = useRef(false);
+  const [dropHint, setDropHint] = useState<DropPosition | null>(null);
 
-  const isSelected = selectedNodeId === node.id;
+  const isSelected = selectedNodeIds.has(node.id);
+  const isOutsideFilter = highlight.outsideFilterIds.has(node.id);
+  const task = node.metadata?.task;
+  const rollup = highlight.taskRollups.get(node.id);
+  const isOverdue = highlight.overdueIds.has(node.id);
+  const matchRing =
+    highlight.activeMatchId === node.id ? 'ring-4 ring-orange-500' : highlight.matchIds.has(node.id) ? 'ring-2 ring-orange-300' : '';
 
-  const handleTextClick = () => {
-    onSelectNode(node);
+  const handleTextClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    onSelectNode(node, e.ctrlKey || e.metaKey || e.shiftKey);
   };
 
+  const handleContextMenu = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (isEditing) return; // Keep the browser menu for the text field
+    e.preventDefault();
+    onOpenContextMenu(node, e.clientX, e.clientY);
+  };
+
+  // Editing can also start from the keyboard (F2, or adding a node), so pick up the text whenever it begins
+  useEffect(() => {
+    if (isEditing) {
+      setEditText(node.text);
+      discardEditRef.current = false;
+    }
+  }, [isEditing]);
+
   const handleDoubleClick = () => {
-    setIsEditing(true);
-    setEditText(node.text);
+    onEditingChange(node.id);
   };
 
   const handleEditChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
@@ -49,21 +126,59 @@ const MindMapNodeComponent: React.FC<MindMapNodeProps> = ({
   };
 
   const handleEditBlur = () => {
-    setIsEditing(false);
-    if (editText.trim() !== node.text) {
+    onEditingChange(null);
+    if (!discardEditRef.current && editText.trim() !== node.text) {
       onUpdateNodeText(node.id, editText.trim());
     }
   };
 
+  // Enter saves and Escape discards; either way focus returns to the node so keyboard editing can go on
   const handleKeyPress = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
-    if (e.key === 'Enter' && !e.shiftKey) {
+    if ((e.key === 'Enter' && !e.shiftKey) || e.key === 'Escape') {
       e.preventDefault();
+      discardEditRef.current = e.key === 'Escape';
       e.currentTarget.blur();
+      cardRef.current?.focus({ preventScroll: true });
     }
   };
 
+  const handleDragStart = (e: React.DragEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', node.text);
+    onDragNodeStart(node.id);
+  };
+
+  // The top and bottom quarters of a node drop beside it, the middle drops inside it
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (dragBranchIds.size === 0 || dragBranchIds.has(node.id)) return; // Can't drop into its own branch
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    const rect = e.currentTarget.getBoundingClientRect();
+    const offset = (e.clientY - rect.top) / rect.height;
+    setDropHint(offset < 0.25 ? 'before' : offset > 0.75 ? 'after' : 'inside');
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    if (dropHint) onDropNode(node.id, dropHint);
+    setDropHint(null);
+  };
+
+  // Alt+Up/Down reorder among siblings, Alt+Right indents under the previous sibling, Alt+Left outdents
+  const handleNodeKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (isEditing || !e.altKey) return;
+    const moves: Record<string, KeyboardMove> = { ArrowUp: 'up', ArrowDown: 'down', ArrowRight: 'indent', ArrowLeft: 'outdent' };
+    const move = moves[e.key];
+    if (!move) return;
+    e.preventDefault();
+    onKeyboardMove(node.id, move);
+  };
+
+  const dropHintClass = dropHint === 'inside' ? 'ring-4 ring-blue-400' : '';
+
   const renderChildren = () => {
-    if (!node.isExpanded || node.children.length === 0) return null;
+    if (flat || !node.isExpanded || node.children.length === 0) return null;
 
     return (
       <div className="pl-8 pt-4 flex flex-col items-start space-y-3 relative before:content-[''] before:absolute before:left-4 before:top-0 before:bottom-0 before:w-px before:bg-gray-400">
@@ -77,16 +192,30 @@ const MindMapNodeComponent: React.FC<MindMapNodeProps> = ({
             onUpdateNodeText={onUpdateNodeText}
             onDeleteNode={onDeleteNode}
             onToggleExpand={onToggleExpand}
-            selectedNodeId={selectedNodeId}
+            dragBranchIds={dragBranchIds}
+            onDragNodeStart={onDragNodeStart}
+            onDragNodeEnd={onDragNodeEnd}
+            onDropNode={onDropNode}
+            onKeyboardMove={onKeyboardMove}
+            selectedNodeIds={selectedNodeIds}
+            onOpenContextMenu={onOpenContextMenu}
+            editingNodeId={editingNodeId}
+            onEditingChange={onEditingChange}
+            highlight={highlight}
+            tagPalette={tagPalette}
+            onToggleTaskComplete={onToggleTaskComplete}
           />
         ))}
       </div>
     );
   };
 
+  if (isOutsideFilter && highlight.hideOutsideFilter) return null;
+  if (highlight.hideFinished && highlight.finishedIds.has(node.id)) return null;
+
   return (
-    <div className={`flex flex-col items-start relative w-full ${level === 0 ? '' : ''}`}>
-      <div className={`flex items-center space-x-2 z-10 w-full`}>
+    <div className={`flex flex-col items-start relative ${flat ? '' : 'w-full'} ${level === 0 ? '' : ''}`}>
+      <div className={`flex items-center space-x-2 z-10 ${flat ? '' : 'w-full'} ${isOutsideFilter ? 'opacity-30' : ''}`}>
         {node.children.length > 0 && (
           <button
             onClick={() => onToggleExpand(node.id)}
@@ -96,25 +225,68 @@ const MindMapNodeComponent: React.FC<MindMapNodeProps> = ({
           </button>
         )}
         <div
-          className={`cursor-pointer ${nodeTypeStyles[node.type]} ${isSelected ? 'ring-4 ring-yellow-400' : ''} transition-all duration-200 ease-in-out whitespace-pre-wrap`}
+          ref={cardRef}
+          data-node-id={node.id}
+          tabIndex={0}
+          draggable={!isEditing}
+          className={`relative cursor-pointer ${nodeTypeStyles[node.type]} ${dropHintClass || (isSelected ? 'ring-4 ring-yellow-400' : matchRing)} ${dragBranchIds.has(node.id) ? 'opacity-50' : ''} ${isOverdue ? 'outline outline-2 outline-offset-2 outline-red-500' : ''} transition-all duration-200 ease-in-out whitespace-pre-wrap`}
           onClick={handleTextClick}
           onDoubleClick={handleDoubleClick}
+          onContextMenu={handleContextMenu}
+          onKeyDown={handleNodeKeyDown}
+          onDragStart={handleDragStart}
+          onDragEnd={onDragNodeEnd}
+          onDragOver={handleDragOver}
+          onDragLeave={() => setDropHint(null)}
+          onDrop={handleDrop}
         >
+          {(dropHint === 'before' || dropHint === 'after') && (
+            <div className={`absolute left-0 right-0 h-1 rounded bg-blue-500 ${dropHint === 'before' ? '-top-2' : '-bottom-2'}`} />
+          )}
           {isEditing ? (
             <textarea
               value={editText}
               onChange={handleEditChange}
               onBlur={handleEditBlur}
               onKeyDown={handleKeyPress}
+              onFocus={(e) => e.currentTarget.select()}
               autoFocus
               className="bg-transparent border-b border-gray-300 outline-none resize-none overflow-hidden text-center w-full min-w-[150px] max-w-[300px]"
               style={{ height: 'auto', minHeight: '1.5em' }}
               rows={1}
             />
           ) : (
-            <span>{node.text}</span>
+            <span>
+              {task && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation(); // Toggling a task shouldn't change the selection
+                    onToggleTaskComplete(node.id);
+                  }}
+                  onDoubleClick={(e) => e.stopPropagation()}
+                  className="mr-1.5 inline-flex items-center justify-center w-4 h-4 align-[-2px] rounded border border-current text-[10px] leading-none"
+                  title={task.completed ? 'Mark as not done' : 'Mark as done'}
+                >
+                  {task.completed ? '✓' : ''}
+                </button>
+              )}
+              <span className={task?.completed ? 'line-through opacity-70' : ''}>{node.text}</span>
+            </span>
           )}
         </div>
+        {rollup && <ProgressRing rollup={rollup} />}
+        {isOverdue && (
+          <span className="flex-shrink-0 px-1.5 py-0.5 rounded bg-red-100 text-red-700 text-xs font-semibold" title={`Due ${task!.dueDate}`}>
+            Overdue
+          </span>
+        )}
+        {node.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {node.tags.map((tag) => (
+              <TagChip key={tag} tag={tag} color={tagColor(tag, tagPalette)} />
+            ))}
+          </div>
+        )}
       </div>
       {renderChildren()}
     </div>
@@ -13,7 +13,7 @@ const Modal: React.FC<ModalProps> = ({ isOpen, onClose, title, children }) => {
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900 bg-opacity-75">
-      <div className="bg-white p-6 rounded-lg shadow-lg max-w-lg w-full relative">
+      <div role="dialog" aria-modal="true" aria-label={title} className="bg-white p-6 rounded-lg shadow-lg max-w-lg w-full relative">
         <h2 className="text-xl font-bold mb-4 text-gray-800">{title}</h2>
         <button
           onClick={onClose}
@@ -0,0 +1,123 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+
+export type NodeMenuAction =
+  | 'add-child'
+  | 'add-sibling'
+  | 'link'
+  | 'duplicate'
+  | 'copy'
+  | 'paste'
+  | 'delete'
+  | 'convert-task'
+  | 'convert-flashcard'
+  | 'convert-summary'
+  | 'questions'
+  | 'quiz';
+
+interface NodeContextMenuProps {
+  x: number; // Viewport position of the click
+  y: number;
+  targetCount: number; // Nodes the bulk actions apply to
+  isLoading: boolean;
+  onAction: (action: NodeMenuAction) => void;
+  onClose: () => void;
+}
+
+// Actions marked `single` apply to the right-clicked node only; the rest apply to every selected node
+const MENU_SECTIONS: { action: NodeMenuAction; label: string; single?: boolean; ai?: boolean; danger?: boolean }[][] = [
+  [
+    { action: 'add-child', label: 'Add child', single: true },
+    { action: 'add-sibling', label: 'Add sibling', single: true },
+    { action: 'link', label: 'Link to...', single: true },
+  ],
+  [
+    { action: 'duplicate', label: 'Duplicate' },
+    { action: 'copy', label: 'Copy as Markdown' },
+    { action: 'paste', label: 'Paste as children' },
+  ],
+  [
+    { action: 'convert-task', label: 'Convert to task' },
+    { action: 'convert-flashcard', label: 'Convert to flashcard', ai: true },
+    { action: 'convert-summary', label: 'Generate summary', ai: true },
+    { action: 'questions', label: 'Generate questions', ai: true },
+    { action: 'quiz', label: 'Quiz on this branch', single: true, ai: true },
+  ],
+  [{ action: 'delete', label: 'Delete', danger: true }],
+];
+
+const NodeContextMenu: React.FC<NodeContextMenuProps> = ({ x, y, targetCount, isLoading, onAction, onClose }) => {
+  const menuRef = useRef<HTMLDivElement>(null);
+  const [position, setPosition] = useState({ left: x, top: y });
+
+  // Keep the menu on screen when opened near the right or bottom edge
+  useLayoutEffect(() => {
+    const menu = menuRef.current;
+    if (!menu) return;
+    setPosition({
+      left: Math.max(0, Math.min(x, window.innerWidth - menu.offsetWidth - 4)),
+      top: Math.max(0, Math.min(y, window.innerHeight - menu.offsetHeight - 4)),
+    });
+  }, [x, y]);
+
+  useEffect(() => {
+    menuRef.current?.querySelector<HTMLButtonElement>('button:not(:disabled)')?.focus();
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) onClose();
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('pointerdown', handlePointerDown);
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('blur', onClose);
+    return () => {
+      window.removeEventListener('pointerdown', handlePointerDown);
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('blur', onClose);
+    };
+  }, [onClose]);
+
+  // Up/Down move between items
+  const handleMenuKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key !== 'ArrowDown' && e.key !== 'ArrowUp') return;
+    e.preventDefault();
+    e.stopPropagation();
+    const items: HTMLButtonElement[] = Array.from(menuRef.current?.querySelectorAll<HTMLButtonElement>('button:not(:disabled)') ?? []);
+    const current = items.indexOf(document.activeElement as HTMLButtonElement);
+    items[(current + (e.key === 'ArrowDown' ? 1 : -1) + items.length) % items.length]?.focus();
+  };
+
+  return (
+    <div
+      ref={menuRef}
+      role="menu"
+      className="fixed z-40 min-w-[200px] py-1 bg-white rounded-lg shadow-lg border border-gray-200 text-sm text-gray-800"
+      style={position}
+      onKeyDown={handleMenuKeyDown}
+      onContextMenu={(e) => e.preventDefault()}
+    >
+      {targetCount > 1 && <p className="px-3 py-1 text-xs text-gray-500">{targetCount} nodes selected</p>}
+      {MENU_SECTIONS.map((section, index) => (
+        <div key={index} className={index > 0 ? 'border-t border-gray-100 mt-1 pt-1' : ''}>
+          {section.map(({ action, label, single, ai, danger }) => (
+            <button
+              key={action}
+              role="menuitem"
+              onClick={() => {
+                onClose();
+                onAction(action);
+              }}
+              disabled={(ai || action === 'convert-task') && isLoading}
+              className={`w-full text-left px-3 py-1.5 hover:bg-gray-100 focus:bg-gray-100 outline-none disabled:opacity-50 ${danger ? 'text-red-600' : ''}`}
+            >
+              {label}
+              {!single && targetCount > 1 && <span className="text-gray-400"> ({targetCount})</span>}
+            </button>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default NodeContextMenu;
@@ -0,0 +1,168 @@
+import React, { useState, useRef, useEffect } from 'react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { openPdf, extractPdfText } from '../services/pdfService';
+import LoadingSpinner from './LoadingSpinner';
+
+interface PdfInputProps {
+  onTextExtracted: (text: string) => void;
+  isLoading: boolean;
+}
+
+const PdfInput: React.FC<PdfInputProps> = ({ onTextExtracted, isLoading }) => {
+  const pdfRef = useRef<PDFDocumentProxy | null>(null);
+  const [fileName, setFileName] = useState<string>('');
+  const [pageCount, setPageCount] = useState<number>(0);
+  // Page inputs keep what's typed and are clamped on blur or extraction, so multi-digit pages can be entered
+  const [firstPageInput, setFirstPageInput] = useState<string>('1');
+  const [lastPageInput, setLastPageInput] = useState<string>('1');
+  const [progress, setProgress] = useState<string>('');
+  const [message, setMessage] = useState<{ kind: 'error' | 'warning' | 'info'; text: string } | null>(null);
+
+  useEffect(() => {
+    // Release the worker-side document on unmount
+    return () => {
+      pdfRef.current?.destroy();
+    };
+  }, []);
+
+  const handlePdfUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    if (file.type !== 'application/pdf' && !file.name.toLowerCase().endsWith('.pdf')) {
+      setMessage({ kind: 'error', text: 'Please upload a valid PDF file.' });
+      return;
+    }
+
+    setMessage(null);
+    setProgress('Opening PDF...');
+    try {
+      await pdfRef.current?.destroy();
+      pdfRef.current = null;
+      const pdf = await openPdf(await file.arrayBuffer());
+      pdfRef.current = pdf;
+      setFileName(file.name);
+      setPageCount(pdf.numPages);
+      setFirstPageInput('1');
+      setLastPageInput(String(pdf.numPages));
+    } catch (error) {
+      console.error('Error opening PDF:', error);
+      setFileName('');
+      setPageCount(0);
+      setMessage({ kind: 'error', text: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setProgress('');
+    }
+  };
+
+  // Clamps the typed range to the document, writing the result back into the inputs
+  const commitPageRange = (): { firstPage: number; lastPage: number } => {
+    const clampPage = (value: string, fallback: number) =>
+      Math.max(1, Math.min(Math.round(Number(value)) || fallback, pageCount));
+    const firstPage = clampPage(firstPageInput, 1);
+    const lastPage = Math.max(firstPage, clampPage(lastPageInput, pageCount));
+    setFirstPageInput(String(firstPage));
+    setLastPageInput(String(lastPage));
+    return { firstPage, lastPage };
+  };
+
+  const handleExtract = async () => {
+    const pdf = pdfRef.current;
+    if (!pdf) return;
+
+    const { firstPage, lastPage } = commitPageRange();
+    setMessage(null);
+    try {
+      const result = await extractPdfText(pdf, firstPage, lastPage, (pageNumber) =>
+        setProgress(`Reading page ${pageNumber} of ${lastPage}...`)
+      );
+      if (result.isLikelyScanned) {
+        setMessage({
+          kind: 'error',
+          text: 'No text layer was found in the selected pages. This looks like a scanned PDF; run it through OCR first, or paste its text into the Text tab.',
+        });
+        return;
+      }
+      if (result.pagesWithoutText.length > 0) {
+        setMessage({
+          kind: 'warning',
+          text: `Pages ${result.pagesWithoutText.join(', ')} have no text layer (possibly scanned images) and were skipped.`,
+        });
+      } else {
+        setMessage({ kind: 'info', text: `Extracted pages ${result.firstPage}-${result.lastPage}.` });
+      }
+      onTextExtracted(result.text);
+    } catch (error) {
+      console.error('Error extracting PDF text:', error);
+      setMessage({ kind: 'error', text: `Error extracting text: ${error instanceof Error ? error.message : String(error)}` });
+    } finally {
+      setProgress('');
+    }
+  };
+
+  const isBusy = isLoading || progress !== '';
+  const messageColor =
+    message?.kind === 'error' ? 'text-red-300' : message?.kind === 'warning' ? 'text-yellow-300' : 'text-green-300';
+
+  return (
+    <div className="flex flex-col items-center justify-center p-4 bg-gray-700 rounded-md">
+      <input
+        type="file"
+        accept=".pdf,application/pdf"
+        onChange={handlePdfUpload}
+        className="block w-full text-sm text-gray-300
+          file:mr-4 file:py-2 file:px-4
+          file:rounded-full file:border-0
+          file:text-sm file:font-semibold
+          file:bg-blue-50 file:text-blue-700
+          hover:file:bg-blue-100 cursor-pointer"
+        disabled={isBusy}
+      />
+      {pageCount > 0 ? (
+        <div className="w-full mt-3 space-y-2">
+          <p className="text-xs text-gray-300 truncate" title={fileName}>
+            {fileName} · {pageCount} page{pageCount === 1 ? '' : 's'}
+          </p>
+          <div className="flex items-center space-x-2 text-sm text-gray-300">
+            <label htmlFor="pdf-first-page">Pages</label>
+            <input
+              id="pdf-first-page"
+              type="number"
+              min={1}
+              max={pageCount}
+              value={firstPageInput}
+              onChange={(e) => setFirstPageInput(e.target.value)}
+              onBlur={commitPageRange}
+              className="w-16 p-1 bg-gray-800 border border-gray-600 rounded-md text-gray-100 text-sm"
+              disabled={isBusy}
+            />
+            <span>to</span>
+            <input
+              type="number"
+              min={1}
+              max={pageCount}
+              value={lastPageInput}
+              onChange={(e) => setLastPageInput(e.target.value)}
+              onBlur={commitPageRange}
+              className="w-16 p-1 bg-gray-800 border border-gray-600 rounded-md text-gray-100 text-sm"
+              disabled={isBusy}
+            />
+          </div>
+          <button
+            onClick={handleExtract}
+            className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-3 rounded-md transition-colors text-sm flex items-center justify-center"
+            disabled={isBusy}
+          >
+            {isBusy ? <LoadingSpinner /> : 'Extract Text & Generate Map'}
+          </button>
+        </div>
+      ) : (
+        <p className="mt-3 text-sm text-gray-300">Upload a PDF to extract its content.</p>
+      )}
+      {progress && <p className="mt-2 text-xs text-gray-300">{progress}</p>}
+      {message && <p className={`mt-2 text-xs ${messageColor}`}>{message.text}</p>}
+    </div>
+  );
+};
+
+export default PdfInput;
@@ -0,0 +1,171 @@
+import React from 'react';
+import { QuizQuestion, QuizQuestionType, QuizSession } from '../types';
+import { isQuizResponseCorrect, quizScore } from '../services/quizService';
+
+interface QuizViewProps {
+  session: QuizSession;
+  onChange: (session: QuizSession) => void;
+  onShowNode: (nodeId: string) => void; // Leaves the quiz open in the background
+  onClose: () => void;
+  onDiscard: () => void;
+}
+
+const QUESTION_TYPE_LABELS: Record<QuizQuestionType, string> = {
+  'multiple-choice': 'Multiple choice',
+  'true-false': 'True or false',
+  'short-answer': 'Short answer',
+};
+
+// Takes an AI-generated quiz in place of the canvas; after submitting, missed questions link back to their nodes
+const QuizView: React.FC<QuizViewProps> = ({ session, onChange, onShowNode, onClose, onDiscard }) => {
+  const { questions, responses, submitted } = session;
+  const answeredCount = questions.filter((question) => (responses[question.id] ?? '').trim() !== '').length;
+  const score = quizScore(session);
+
+  const setResponse = (questionId: string, response: string) =>
+    onChange({ ...session, responses: { ...responses, [questionId]: response } });
+
+  const toggleAccepted = (questionId: string) =>
+    onChange({
+      ...session,
+      acceptedIds: session.acceptedIds.includes(questionId)
+        ? session.acceptedIds.filter((id) => id !== questionId)
+        : [...session.acceptedIds, questionId],
+    });
+
+  const renderChoices = (question: QuizQuestion) => (
+    <div className="space-y-2">
+      {question.options.map((option) => {
+        const isChosen = responses[question.id] === option;
+        const style = !submitted
+          ? isChosen
+            ? 'border-blue-500 bg-blue-50'
+            : 'border-gray-200 hover:bg-gray-50'
+          : option === question.answer
+            ? 'border-green-500 bg-green-50'
+            : isChosen
+              ? 'border-red-400 bg-red-50'
+              : 'border-gray-200 opacity-70';
+        return (
+          <label key={option} className={`flex items-start space-x-2 p-2 border rounded-md cursor-pointer ${style}`}>
+            <input
+              type="radio"
+              name={question.id}
+              className="mt-1"
+              checked={isChosen}
+              disabled={submitted}
+              onChange={() => setResponse(question.id, option)}
+            />
+            <span>{option}</span>
+          </label>
+        );
+      })}
+    </div>
+  );
+
+  const renderShortAnswer = (question: QuizQuestion, isCorrect: boolean) => (
+    <div className="space-y-2">
+      <input
+        type="text"
+        value={responses[question.id] ?? ''}
+        onChange={(e) => setResponse(question.id, e.target.value)}
+        readOnly={submitted}
+        placeholder="Your answer..."
+        className={`w-full p-2 border rounded-md outline-none ${
+          submitted ? (isCorrect ? 'border-green-500 bg-green-50' : 'border-red-400 bg-red-50') : 'border-gray-300'
+        }`}
+      />
+      {submitted && (
+        <div className="flex items-start justify-between space-x-3 text-sm">
+          <p>
+            <span className="font-semibold">Model answer:</span> {question.answer}
+          </p>
+          {/* Free-text answers rarely match word for word, so the user has the last say */}
+          <button onClick={() => toggleAccepted(question.id)} className="flex-shrink-0 text-blue-600 hover:text-blue-800 underline">
+            {session.acceptedIds.includes(question.id) ? 'Count as wrong' : 'Count as correct'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="flex-1 relative bg-gray-100 overflow-auto flex flex-col items-center p-8 space-y-6">
+      <div className="w-full max-w-2xl flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-800">Quiz</h2>
+          <p className="text-sm text-gray-500">{session.title}</p>
+        </div>
+        <button
+          onClick={onClose}
+          className="px-3 py-1 rounded-md bg-white border border-gray-300 hover:bg-gray-50 text-sm font-semibold text-gray-700"
+          title="Back to the map; the quiz stays open"
+        >
+          Back to Map
+        </button>
+      </div>
+
+      {submitted && (
+        <div className="w-full max-w-2xl bg-white rounded-xl shadow p-4 text-center text-gray-800">
+          <p className="text-3xl font-bold">
+            {score} / {questions.length}
+          </p>
+          <p className="text-sm text-gray-500">{Math.round((score / Math.max(1, questions.length)) * 100)}% correct</p>
+        </div>
+      )}
+
+      <ol className="w-full max-w-2xl space-y-4">
+        {questions.map((question, index) => {
+          const isCorrect = submitted && isQuizResponseCorrect(question, session);
+          return (
+            <li key={question.id} className="bg-white rounded-xl shadow p-5 space-y-3 text-gray-800">
+              <div className="flex items-center justify-between text-xs text-gray-500">
+                <span>
+                  Question {index + 1} &middot; {QUESTION_TYPE_LABELS[question.type]}
+                </span>
+                {submitted && (
+                  <span className={`font-semibold ${isCorrect ? 'text-green-600' : 'text-red-600'}`}>{isCorrect ? 'Correct' : 'Missed'}</span>
+                )}
+              </div>
+              <p className="font-semibold whitespace-pre-wrap">{question.prompt}</p>
+              {question.type === 'short-answer' ? renderShortAnswer(question, isCorrect) : renderChoices(question)}
+              {submitted && question.explanation && <p className="text-sm text-gray-600">{question.explanation}</p>}
+              {submitted && !isCorrect && (
+                <button onClick={() => onShowNode(question.sourceNodeId)} className="text-sm text-blue-600 hover:text-blue-800 underline">
+                  Review "{question.sourceText.substring(0, 40)}" in the map
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      <div className="w-full max-w-2xl flex space-x-2">
+        {submitted ? (
+          <button
+            onClick={() => onChange({ ...session, responses: {}, acceptedIds: [], submitted: false })}
+            className="flex-1 bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-3 rounded-md transition-colors"
+          >
+            Retake Quiz
+          </button>
+        ) : (
+          <button
+            onClick={() => onChange({ ...session, submitted: true })}
+            className="flex-1 bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-3 rounded-md transition-colors disabled:opacity-50"
+            disabled={answeredCount === 0}
+          >
+            Submit Answers ({answeredCount} of {questions.length})
+          </button>
+        )}
+        <button
+          onClick={onDiscard}
+          className="flex-1 bg-gray-200 hover:bg-gray-300 text-gray-800 font-semibold py-2 px-3 rounded-md transition-colors"
+        >
+          Close Quiz
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default QuizView;
@@ -0,0 +1,33 @@
+import React from 'react';
+import { KEYBOARD_SHORTCUTS } from '../constants';
+
+const ShortcutCheatSheet: React.FC = () => (
+  <div className="text-sm text-gray-700">
+    <p className="mb-3">Select a node on the canvas, then:</p>
+    <table className="w-full">
+      <tbody>
+        {KEYBOARD_SHORTCUTS.map(({ keys, description }) => (
+          <tr key={`${keys.join()}-${description}`} className="border-t border-gray-200">
+            <td className="py-1.5 pr-4 whitespace-nowrap align-top">
+              {keys.map((combo, index) => (
+                <React.Fragment key={combo}>
+                  {index > 0 && <span className="text-gray-400"> / </span>}
+                  {combo.split('+').map((key, keyIndex) => (
+                    <React.Fragment key={key}>
+                      {keyIndex > 0 && '+'}
+                      <kbd className="px-1.5 py-0.5 bg-gray-100 border border-gray-300 rounded text-xs font-mono">{key}</kbd>
+                    </React.Fragment>
+                  ))}
+                </React.Fragment>
+              ))}
+            </td>
+            <td className="py-1.5">{description}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+    <p className="mt-3 text-xs text-gray-500">On a Mac, use Cmd instead of Ctrl.</p>
+  </div>
+);
+
+export default ShortcutCheatSheet;
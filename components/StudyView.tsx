@@ -0,0 +1,270 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { REVIEW_GRADE_LABELS } from '../constants';
+import { MindMapNode, ReviewGrade, StudyScope } from '../types';
+import {
+  collectStudyCards,
+  dueStudyCards,
+  isTypedAnswerCorrect,
+  reviewedOn,
+  scheduleReview,
+} from '../services/studyService';
+import { toDateKey } from '../utils/dateUtils';
+
+interface StudyViewProps {
+  rootNodes: MindMapNode[];
+  availableTags: string[];
+  selectedNode: MindMapNode | null;
+  onGrade: (nodeId: string, grade: ReviewGrade) => void;
+  onClose: () => void;
+}
+
+interface StudySession {
+  queue: string[]; // Node ids still to show; cards graded "again" go back on the end
+  total: number;
+  reviewed: number;
+  lapses: number;
+}
+
+const GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+
+const GRADE_STYLES: Record<ReviewGrade, string> = {
+  again: 'bg-red-600 hover:bg-red-700',
+  hard: 'bg-orange-500 hover:bg-orange-600',
+  good: 'bg-green-600 hover:bg-green-700',
+  easy: 'bg-blue-600 hover:bg-blue-700',
+};
+
+const formatInterval = (days: number) => (days < 30 ? `${days}d` : days < 365 ? `${Math.round(days / 30)}mo` : `${(days / 365).toFixed(1)}y`);
+
+// Review sessions over the map's flashcards, shown in place of the canvas
+const StudyView: React.FC<StudyViewProps> = ({ rootNodes, availableTags, selectedNode, onGrade, onClose }) => {
+  const [scope, setScope] = useState<StudyScope>({ kind: 'map' });
+  const [typedMode, setTypedMode] = useState(false);
+  const [session, setSession] = useState<StudySession | null>(null);
+  const [revealed, setRevealed] = useState(false);
+  const [typedAnswer, setTypedAnswer] = useState('');
+
+  const today = toDateKey();
+  const cards = useMemo(() => collectStudyCards(rootNodes, scope), [rootNodes, scope]);
+  const dueCards = useMemo(() => dueStudyCards(cards, today), [cards, today]);
+  const newCount = dueCards.filter((card) => !card.schedule).length;
+
+  // Cards are looked up live, so a card deleted from the map mid-session is skipped
+  const cardsById = useMemo(() => new Map(cards.map((card) => [card.nodeId, card])), [cards]);
+  const queue = session ? session.queue.filter((id) => cardsById.has(id)) : [];
+  const current = queue.length > 0 ? cardsById.get(queue[0])! : null;
+
+  const startSession = () => {
+    setSession({ queue: dueCards.map((card) => card.nodeId), total: dueCards.length, reviewed: 0, lapses: 0 });
+    setRevealed(false);
+    setTypedAnswer('');
+  };
+
+  const grade = (value: ReviewGrade) => {
+    if (!session || !current || !revealed) return;
+    onGrade(current.nodeId, value);
+    const [, ...rest] = queue;
+    setSession({
+      ...session,
+      queue: value === 'again' ? [...rest, current.nodeId] : rest,
+      reviewed: session.reviewed + 1,
+      lapses: session.lapses + (value === 'again' ? 1 : 0),
+    });
+    setRevealed(false);
+    setTypedAnswer('');
+  };
+
+  // Space or Enter shows the answer, 1-4 grade it, Escape leaves the study view
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.target as HTMLElement).closest('input, textarea, select') || document.querySelector('[role="dialog"]')) return;
+      if (e.key === 'Escape') {
+        onClose();
+      } else if (current && !revealed && (e.key === ' ' || e.key === 'Enter')) {
+        e.preventDefault();
+        setRevealed(true);
+      } else if (current && revealed && ['1', '2', '3', '4'].includes(e.key)) {
+        e.preventDefault();
+        grade(GRADES[Number(e.key) - 1]);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const scopeValue = scope.kind === 'map' ? 'map' : scope.kind === 'subtree' ? 'subtree' : `tag:${scope.tag}`;
+  const handleScopeChange = (value: string) => {
+    if (value === 'map') setScope({ kind: 'map' });
+    else if (value === 'subtree' && selectedNode) setScope({ kind: 'subtree', nodeId: selectedNode.id });
+    else if (value.startsWith('tag:')) setScope({ kind: 'tag', tag: value.slice(4) });
+  };
+
+  const renderSetup = () => (
+    <div className="w-full max-w-lg bg-white rounded-xl shadow p-6 space-y-4 text-gray-800">
+      <div className="grid grid-cols-3 gap-3 text-center">
+        <div>
+          <p className="text-3xl font-bold text-blue-600">{dueCards.length}</p>
+          <p className="text-xs text-gray-500">due today{newCount > 0 ? ` (${newCount} new)` : ''}</p>
+        </div>
+        <div>
+          <p className="text-3xl font-bold text-green-600">{reviewedOn(cards, today)}</p>
+          <p className="text-xs text-gray-500">reviewed today</p>
+        </div>
+        <div>
+          <p className="text-3xl font-bold text-gray-700">{cards.length}</p>
+          <p className="text-xs text-gray-500">cards in scope</p>
+        </div>
+      </div>
+
+      <label className="block text-sm">
+        <span className="font-semibold">Study</span>
+        <select
+          value={scopeValue}
+          onChange={(e) => handleScopeChange(e.target.value)}
+          className="mt-1 w-full p-2 border border-gray-300 rounded-md outline-none"
+        >
+          <option value="map">The whole map</option>
+          <option value="subtree" disabled={!selectedNode && scope.kind !== 'subtree'}>
+            {selectedNode ? `The "${selectedNode.text.substring(0, 30)}" branch` : 'The selected branch'}
+          </option>
+          {availableTags.map((tag) => (
+            <option key={tag} value={`tag:${tag}`}>
+              Cards tagged #{tag}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center space-x-2 text-sm cursor-pointer">
+        <input type="checkbox" checked={typedMode} onChange={(e) => setTypedMode(e.target.checked)} />
+        <span>Type each answer before seeing it</span>
+      </label>
+
+      <button
+        onClick={startSession}
+        className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-3 rounded-md transition-colors disabled:opacity-50"
+        disabled={dueCards.length === 0}
+      >
+        {dueCards.length === 0 ? (cards.length === 0 ? 'No flashcards here yet' : 'Nothing due today') : `Start Session (${dueCards.length})`}
+      </button>
+      {cards.length === 0 && (
+        <p className="text-xs text-gray-500">Use "Convert to Flashcard" on nodes to create cards to study.</p>
+      )}
+    </div>
+  );
+
+  const renderCard = () => {
+    if (!session || !current) return null;
+    const typedCorrect = typedMode && revealed && isTypedAnswerCorrect(typedAnswer, current.back);
+    return (
+      <div className="w-full max-w-2xl space-y-4">
+        <div className="flex justify-between text-sm text-gray-600">
+          <span>
+            {session.reviewed} reviewed &middot; {queue.length} to go
+          </span>
+          {session.lapses > 0 && <span>{session.lapses} again</span>}
+        </div>
+        <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-blue-600 transition-all"
+            style={{ width: `${Math.min(100, (session.reviewed / Math.max(1, session.reviewed + queue.length)) * 100)}%` }}
+          />
+        </div>
+
+        <div className="bg-white rounded-xl shadow p-6 space-y-4 text-gray-800">
+          {current.path.length > 0 && <p className="text-xs text-gray-400">{current.path.join(' › ')}</p>}
+          <p className="text-xl font-semibold whitespace-pre-wrap">{current.front}</p>
+
+          {typedMode && (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                setRevealed(true);
+                (document.activeElement as HTMLElement | null)?.blur(); // Hand the keys back for grading
+              }}
+            >
+              <input
+                key={current.nodeId + session.reviewed}
+                type="text"
+                value={typedAnswer}
+                onChange={(e) => setTypedAnswer(e.target.value)}
+                readOnly={revealed}
+                autoFocus
+                placeholder="Type your answer and press Enter..."
+                className={`w-full p-2 border rounded-md outline-none ${
+                  revealed ? (typedCorrect ? 'border-green-500 bg-green-50' : 'border-red-400 bg-red-50') : 'border-gray-300'
+                }`}
+              />
+            </form>
+          )}
+
+          {revealed ? (
+            <div className="border-t border-gray-200 pt-4 space-y-1">
+              {typedMode && <p className="text-sm font-semibold">{typedCorrect ? 'Correct!' : 'Compare with the answer:'}</p>}
+              <p className="text-lg whitespace-pre-wrap">{current.back}</p>
+            </div>
+          ) : (
+            !typedMode && (
+              <button
+                onClick={() => setRevealed(true)}
+                className="w-full bg-gray-200 hover:bg-gray-300 text-gray-800 font-semibold py-2 px-3 rounded-md transition-colors"
+              >
+                Show Answer <span className="text-xs text-gray-500">(Space)</span>
+              </button>
+            )
+          )}
+        </div>
+
+        {revealed && (
+          <div className="grid grid-cols-4 gap-2">
+            {GRADES.map((value, index) => (
+              <button
+                key={value}
+                onClick={() => grade(value)}
+                className={`${GRADE_STYLES[value]} text-white font-semibold py-2 px-3 rounded-md transition-colors`}
+              >
+                {REVIEW_GRADE_LABELS[value]}
+                <span className="block text-xs font-normal opacity-80">
+                  {index + 1} &middot; {formatInterval(scheduleReview(current.schedule, value, today).interval)}
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderSummary = () => (
+    <div className="w-full max-w-lg bg-white rounded-xl shadow p-6 space-y-4 text-center text-gray-800">
+      <p className="text-2xl font-bold">Session complete</p>
+      <p className="text-gray-600">
+        {session!.reviewed} review{session!.reviewed === 1 ? '' : 's'} of {session!.total} card{session!.total === 1 ? '' : 's'}
+        {session!.lapses > 0 ? `, ${session!.lapses} needed another go` : ''}.
+      </p>
+      <button
+        onClick={() => setSession(null)}
+        className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-3 rounded-md transition-colors"
+      >
+        Done
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="flex-1 relative bg-gray-100 overflow-auto flex flex-col items-center p-8 space-y-6">
+      <div className="w-full max-w-2xl flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-gray-800">Study Flashcards</h2>
+        <button
+          onClick={onClose}
+          className="px-3 py-1 rounded-md bg-white border border-gray-300 hover:bg-gray-50 text-sm font-semibold text-gray-700"
+          title="Back to the map (Esc)"
+        >
+          Back to Map
+        </button>
+      </div>
+      {!session ? renderSetup() : current ? renderCard() : renderSummary()}
+    </div>
+  );
+};
+
+export default StudyView;
@@ -0,0 +1,20 @@
+import React from 'react';
+
+interface TagChipProps {
+  tag: string;
+  color: string;
+  onRemove?: () => void;
+}
+
+const TagChip: React.FC<TagChipProps> = ({ tag, color, onRemove }) => (
+  <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs text-white" style={{ backgroundColor: color }}>
+    {tag}
+    {onRemove && (
+      <button onClick={onRemove} className="ml-1 font-bold leading-none hover:opacity-75" title={`Remove "${tag}"`}>
+        &times;
+      </button>
+    )}
+  </span>
+);
+
+export default TagChip;
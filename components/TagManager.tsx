@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { TAG_COLORS } from '../constants';
+import { MindMapNode, TagPalette } from '../types';
+import { addTag, cleanTag, normalizeTag, tagColor } from '../services/tagService';
+import TagChip from './TagChip';
+
+interface TagManagerProps {
+  selectedNode: MindMapNode | null;
+  palette: TagPalette;
+  onPaletteChange: (palette: TagPalette) => void;
+  onSetNodeTags: (nodeId: string, tags: string[]) => void;
+  onAutoTag: (scope: 'map' | 'subtree') => void;
+  isLoading: boolean;
+}
+
+const nextColor = (color: string) => TAG_COLORS[(TAG_COLORS.indexOf(color) + 1) % TAG_COLORS.length];
+
+const TagManager: React.FC<TagManagerProps> = ({ selectedNode, palette, onPaletteChange, onSetNodeTags, onAutoTag, isLoading }) => {
+  const [nodeTagInput, setNodeTagInput] = useState('');
+  const [paletteTagInput, setPaletteTagInput] = useState('');
+  const paletteTags = Object.keys(palette).sort((a, b) => a.localeCompare(b));
+
+  const handleAddNodeTag = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedNode || !cleanTag(nodeTagInput)) return;
+    onSetNodeTags(selectedNode.id, addTag(selectedNode.tags, nodeTagInput));
+    setNodeTagInput('');
+  };
+
+  const handleAddPaletteTag = (e: React.FormEvent) => {
+    e.preventDefault();
+    const tag = cleanTag(paletteTagInput);
+    if (!tag || paletteTags.some((existing) => normalizeTag(existing) === normalizeTag(tag))) return;
+    onPaletteChange({ ...palette, [tag]: tagColor(tag, palette) });
+    setPaletteTagInput('');
+  };
+
+  const handleRemovePaletteTag = (tag: string) => {
+    const { [tag]: _removed, ...rest } = palette;
+    onPaletteChange(rest);
+  };
+
+  return (
+    <div className="mb-6 p-4 bg-gray-800 rounded-lg">
+      <h3 className="text-lg font-semibold text-gray-200 mb-3">Tags</h3>
+
+      {/* Tags on the selected node */}
+      {selectedNode ? (
+        <>
+          <div className="flex flex-wrap gap-1 mb-2">
+            {selectedNode.tags.length === 0 && <span className="text-xs text-gray-400">No tags on this node.</span>}
+            {selectedNode.tags.map((tag) => (
+              <TagChip
+                key={tag}
+                tag={tag}
+                color={tagColor(tag, palette)}
+                onRemove={() => onSetNodeTags(selectedNode.id, selectedNode.tags.filter((t) => t !== tag))}
+              />
+            ))}
+          </div>
+          <form onSubmit={handleAddNodeTag} className="flex space-x-2 mb-4">
+            <input
+              type="text"
+              placeholder="Add tag..."
+              value={nodeTagInput}
+              onChange={(e) => setNodeTagInput(e.target.value)}
+              list="tag-palette-options"
+              className="flex-1 min-w-0 p-2 bg-gray-700 border border-gray-600 rounded-md text-gray-100 placeholder-gray-400 focus:ring-blue-500 focus:border-blue-500 outline-none text-sm"
+              disabled={isLoading}
+            />
+            <button
+              type="submit"
+              className="bg-gray-600 hover:bg-gray-700 text-white font-semibold py-2 px-3 rounded-md transition-colors text-sm"
+              disabled={isLoading || !cleanTag(nodeTagInput)}
+            >
+              Add
+            </button>
+          </form>
+          <datalist id="tag-palette-options">
+            {paletteTags.map((tag) => (
+              <option key={tag} value={tag} />
+            ))}
+          </datalist>
+        </>
+      ) : (
+        <p className="text-xs text-gray-400 mb-4">Select a node to edit its tags.</p>
+      )}
+
+      {/* Palette: the controlled vocabulary and its colours */}
+      <h4 className="text-sm font-semibold text-gray-300 mb-2">Palette</h4>
+      <ul className="space-y-1 mb-2">
+        {paletteTags.map((tag) => (
+          <li key={tag} className="flex items-center space-x-2">
+            <button
+              onClick={() => onPaletteChange({ ...palette, [tag]: nextColor(palette[tag]) })}
+              className="w-5 h-5 rounded-full flex-shrink-0 border border-gray-500"
+              style={{ backgroundColor: palette[tag] }}
+              title="Click to change colour"
+            />
+            <span className="flex-1 text-sm text-gray-200 truncate">{tag}</span>
+            <button
+              onClick={() => handleRemovePaletteTag(tag)}
+              className="text-gray-400 hover:text-white font-bold"
+              title={`Remove "${tag}" from the palette`}
+            >
+              &times;
+            </button>
+          </li>
+        ))}
+      </ul>
+      <form onSubmit={handleAddPaletteTag} className="flex space-x-2 mb-3">
+        <input
+          type="text"
+          placeholder="New palette tag..."
+          value={paletteTagInput}
+          onChange={(e) => setPaletteTagInput(e.target.value)}
+          className="flex-1 min-w-0 p-2 bg-gray-700 border border-gray-600 rounded-md text-gray-100 placeholder-gray-400 focus:ring-blue-500 focus:border-blue-500 outline-none text-sm"
+        />
+        <button
+          type="submit"
+          className="bg-gray-600 hover:bg-gray-700 text-white font-semibold py-2 px-3 rounded-md transition-colors text-sm"
+          disabled={!cleanTag(paletteTagInput)}
+        >
+          Add
+        </button>
+      </form>
+
+      {/* AI auto-tagging from the palette */}
+      <div className="flex space-x-2">
+        <button
+          onClick={() => onAutoTag('map')}
+          className="flex-1 bg-emerald-600 hover:bg-emerald-700 text-white font-semibold py-2 px-3 rounded-md transition-colors text-sm"
+          disabled={isLoading || paletteTags.length === 0}
+          title={paletteTags.length === 0 ? 'Add tags to the palette first' : 'Suggest palette tags for every node'}
+        >
+          Auto-Tag Map
+        </button>
+        <button
+          onClick={() => onAutoTag('subtree')}
+          className="flex-1 bg-emerald-800 hover:bg-emerald-900 text-white font-semibold py-2 px-3 rounded-md transition-colors text-sm"
+          disabled={isLoading || paletteTags.length === 0 || !selectedNode}
+          title="Suggest palette tags for the selected node and its children"
+        >
+          Auto-Tag Branch
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TagManager;
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { TagPalette, TagSuggestion } from '../types';
+import { tagColor } from '../services/tagService';
+import TagChip from './TagChip';
+
+interface TagSuggestionReviewProps {
+  suggestions: TagSuggestion[];
+  palette: TagPalette;
+  onApply: (accepted: TagSuggestion[]) => void;
+  onCancel: () => void;
+}
+
+const suggestionKey = (nodeId: string, tag: string) => `${nodeId}\u0000${tag}`;
+
+const TagSuggestionReview: React.FC<TagSuggestionReviewProps> = ({ suggestions, palette, onApply, onCancel }) => {
+  const allKeys = suggestions.flatMap(({ nodeId, tags }) => tags.map((tag) => suggestionKey(nodeId, tag)));
+  const [acceptedKeys, setAcceptedKeys] = useState<Set<string>>(() => new Set(allKeys));
+
+  const toggle = (key: string) => {
+    const next = new Set(acceptedKeys);
+    if (next.has(key)) next.delete(key);
+    else next.add(key);
+    setAcceptedKeys(next);
+  };
+
+  const handleApply = () => {
+    const accepted = suggestions
+      .map((suggestion) => ({
+        ...suggestion,
+        tags: suggestion.tags.filter((tag) => acceptedKeys.has(suggestionKey(suggestion.nodeId, tag))),
+      }))
+      .filter((suggestion) => suggestion.tags.length > 0);
+    onApply(accepted);
+  };
+
+  return (
+    <div className="space-y-3 text-sm text-gray-700">
+      <p>The AI suggests these tags. Untick any you don't want.</p>
+      <div className="flex space-x-2">
+        <button
+          onClick={() => setAcceptedKeys(new Set(allKeys))}
+          className="px-2 py-1 rounded-md bg-gray-200 hover:bg-gray-300 text-xs font-semibold"
+        >
+          Accept all
+        </button>
+        <button
+          onClick={() => setAcceptedKeys(new Set())}
+          className="px-2 py-1 rounded-md bg-gray-200 hover:bg-gray-300 text-xs font-semibold"
+        >
+          Reject all
+        </button>
+      </div>
+      <ul className="space-y-2">
+        {suggestions.map(({ nodeId, nodeText, tags }) => (
+          <li key={nodeId}>
+            <p className="font-medium break-words">{nodeText}</p>
+            <div className="flex flex-wrap gap-2 mt-1">
+              {tags.map((tag) => {
+                const key = suggestionKey(nodeId, tag);
+                return (
+                  <label key={tag} className="inline-flex items-center space-x-1 cursor-pointer">
+                    <input type="checkbox" checked={acceptedKeys.has(key)} onChange={() => toggle(key)} />
+                    <TagChip tag={tag} color={tagColor(tag, palette)} />
+                  </label>
+                );
+              })}
+            </div>
+          </li>
+        ))}
+      </ul>
+      <div className="flex space-x-2 pt-2">
+        <button
+          onClick={handleApply}
+          className="flex-1 bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-3 rounded-md transition-colors disabled:opacity-50"
+          disabled={acceptedKeys.size === 0}
+        >
+          Add {acceptedKeys.size} of {allKeys.length} tag{allKeys.length === 1 ? '' : 's'}
+        </button>
+        <button
+          onClick={onCancel}
+          className="flex-1 bg-gray-200 hover:bg-gray-300 text-gray-800 font-semibold py-2 px-3 rounded-md transition-colors"
+        >
+          Discard
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TagSuggestionReview;
@@ -0,0 +1,180 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { TASK_STAGE_LABELS, TASK_STAGES } from '../constants';
+import { MindMapNode, TaskStage } from '../types';
+import { collectTasks, isOverdue, TaskCard, TaskMetadata, taskStage, withStage } from '../services/taskService';
+import { isDateKey, toDateKey } from '../utils/dateUtils';
+
+interface TaskBoardProps {
+  rootNodes: MindMapNode[];
+  onUpdateTask: (nodeId: string, changes: Partial<TaskMetadata>) => void;
+  onShowNode: (nodeId: string) => void;
+  onClose: () => void;
+}
+
+const COLUMN_STYLES: Record<TaskStage, string> = {
+  todo: 'border-gray-400',
+  'in-progress': 'border-blue-500',
+  done: 'border-green-500',
+};
+
+// Kanban view of the map's task nodes, shown in place of the canvas. Cards move between columns by
+// dragging or with their stage menu; every change is written back to the node.
+const TaskBoard: React.FC<TaskBoardProps> = ({ rootNodes, onUpdateTask, onShowNode, onClose }) => {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropStage, setDropStage] = useState<TaskStage | null>(null);
+
+  const today = toDateKey();
+  const tasks = useMemo(() => collectTasks(rootNodes), [rootNodes]);
+  const columns = useMemo(
+    () => TASK_STAGES.map((stage) => ({ stage, cards: tasks.filter((card) => taskStage(card.task) === stage) })),
+    [tasks]
+  );
+
+  // Escape goes back to the map, as in the study view
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.target as HTMLElement).closest('input, textarea, select') || document.querySelector('[role="dialog"]')) return;
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const moveTask = (card: TaskCard, stage: TaskStage) => {
+    if (taskStage(card.task) !== stage) onUpdateTask(card.nodeId, withStage(card.task, stage));
+  };
+
+  const handleDrop = (e: React.DragEvent, stage: TaskStage) => {
+    e.preventDefault();
+    const card = tasks.find((task) => task.nodeId === draggingId);
+    if (card) moveTask(card, stage);
+    setDraggingId(null);
+    setDropStage(null);
+  };
+
+  // Assignees are saved when the field loses focus, so typing doesn't add an undo step per keystroke
+  const handleAssigneeBlur = (card: TaskCard, e: React.FocusEvent<HTMLInputElement>) => {
+    const assignee = e.target.value.trim() || undefined;
+    if (assignee !== card.task.assignee) onUpdateTask(card.nodeId, { assignee });
+  };
+
+  const renderCard = (card: TaskCard) => {
+    const { task } = card;
+    const overdue = isOverdue(task, today);
+    return (
+      <li
+        key={card.nodeId}
+        draggable
+        onDragStart={(e) => {
+          e.dataTransfer.effectAllowed = 'move';
+          e.dataTransfer.setData('text/plain', card.text); // Firefox only starts a drag with data set
+          setDraggingId(card.nodeId);
+        }}
+        onDragEnd={() => {
+          setDraggingId(null);
+          setDropStage(null);
+        }}
+        className={`bg-white rounded-lg shadow p-3 space-y-2 text-gray-800 cursor-grab ${
+          draggingId === card.nodeId ? 'opacity-50' : ''
+        } ${overdue ? 'ring-2 ring-red-400' : ''}`}
+      >
+        {card.path.length > 0 && <p className="text-xs text-gray-400 truncate">{card.path.join(' › ')}</p>}
+        <p className={`font-semibold whitespace-pre-wrap ${task.completed ? 'line-through text-gray-500' : ''}`}>{card.text}</p>
+        {task.description && task.description !== `Complete "${card.text}"` && (
+          <p className="text-sm text-gray-600 whitespace-pre-wrap">{task.description}</p>
+        )}
+
+        <div className="grid grid-cols-2 gap-2 text-xs">
+          <label className="block">
+            <span className={overdue ? 'text-red-600 font-semibold' : 'text-gray-500'}>{overdue ? 'Overdue' : 'Due'}</span>
+            <input
+              type="date"
+              value={isDateKey(task.dueDate) ? task.dueDate : ''}
+              onChange={(e) => onUpdateTask(card.nodeId, { dueDate: e.target.value || undefined })}
+              className="mt-0.5 w-full p-1 border border-gray-300 rounded outline-none"
+            />
+            {/* AI plans sometimes give relative dates; keep showing them until a real date is picked */}
+            {task.dueDate && !isDateKey(task.dueDate) && <span className="text-gray-500">"{task.dueDate}"</span>}
+          </label>
+          <label className="block">
+            <span className="text-gray-500">Assignee</span>
+            <input
+              key={task.assignee ?? ''} // Picks up assignees changed by undo
+              type="text"
+              defaultValue={task.assignee ?? ''}
+              onBlur={(e) => handleAssigneeBlur(card, e)}
+              onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+              placeholder="Unassigned"
+              className="mt-0.5 w-full p-1 border border-gray-300 rounded outline-none"
+            />
+          </label>
+        </div>
+
+        <div className="flex items-center justify-between text-xs">
+          <select
+            value={taskStage(task)}
+            onChange={(e) => moveTask(card, e.target.value as TaskStage)}
+            className="p-1 border border-gray-300 rounded outline-none"
+            title="Move to column"
+          >
+            {TASK_STAGES.map((stage) => (
+              <option key={stage} value={stage}>
+                {TASK_STAGE_LABELS[stage]}
+              </option>
+            ))}
+          </select>
+          <button onClick={() => onShowNode(card.nodeId)} className="text-blue-600 hover:text-blue-800 underline">
+            Show in map
+          </button>
+        </div>
+      </li>
+    );
+  };
+
+  return (
+    <div className="flex-1 relative bg-gray-100 overflow-auto flex flex-col p-8 space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-gray-800">Task Board</h2>
+        <button
+          onClick={onClose}
+          className="px-3 py-1 rounded-md bg-white border border-gray-300 hover:bg-gray-50 text-sm font-semibold text-gray-700"
+          title="Back to the map (Esc)"
+        >
+          Back to Map
+        </button>
+      </div>
+
+      {tasks.length === 0 ? (
+        <p className="text-gray-500">No tasks yet. Use "Convert to Task" on nodes to put them on the board.</p>
+      ) : (
+        <div className="grid grid-cols-3 gap-4 items-start">
+          {columns.map(({ stage, cards }) => (
+            <section
+              key={stage}
+              onDragOver={(e) => {
+                if (!draggingId) return; // Only task cards can be dropped here
+                e.preventDefault();
+                e.dataTransfer.dropEffect = 'move';
+                setDropStage(stage);
+              }}
+              onDragLeave={(e) => {
+                if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropStage(null);
+              }}
+              onDrop={(e) => handleDrop(e, stage)}
+              className={`rounded-xl border-t-4 ${COLUMN_STYLES[stage]} p-3 min-h-[12rem] transition-colors ${
+                dropStage === stage ? 'bg-blue-100' : 'bg-gray-200'
+              }`}
+            >
+              <h3 className="font-semibold text-gray-700 mb-3">
+                {TASK_STAGE_LABELS[stage]} <span className="text-gray-500 font-normal">({cards.length})</span>
+              </h3>
+              <ul className="space-y-3">{cards.map(renderCard)}</ul>
+            </section>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TaskBoard;
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { TaskEstimateSuggestion } from '../types';
+
+interface TaskEstimateReviewProps {
+  suggestions: TaskEstimateSuggestion[];
+  onApply: (accepted: TaskEstimateSuggestion[]) => void;
+  onCancel: () => void;
+}
+
+const formatDays = (days: number) => (days === 0 ? 'milestone' : `${days} day${days === 1 ? '' : 's'}`);
+
+const TaskEstimateReview: React.FC<TaskEstimateReviewProps> = ({ suggestions, onApply, onCancel }) => {
+  const allIds = suggestions.map((suggestion) => suggestion.nodeId);
+  const [acceptedIds, setAcceptedIds] = useState<Set<string>>(() => new Set(allIds));
+
+  const toggle = (id: string) => {
+    const next = new Set(acceptedIds);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setAcceptedIds(next);
+  };
+
+  return (
+    <div className="space-y-3 text-sm text-gray-700">
+      <p>The AI suggests these estimates and dependencies. Untick any you don't want.</p>
+      <div className="flex space-x-2">
+        <button
+          onClick={() => setAcceptedIds(new Set(allIds))}
+          className="px-2 py-1 rounded-md bg-gray-200 hover:bg-gray-300 text-xs font-semibold"
+        >
+          Accept all
+        </button>
+        <button
+          onClick={() => setAcceptedIds(new Set())}
+          className="px-2 py-1 rounded-md bg-gray-200 hover:bg-gray-300 text-xs font-semibold"
+        >
+          Reject all
+        </button>
+      </div>
+      <ul className="space-y-2">
+        {suggestions.map(({ nodeId, text, durationDays, previousDurationDays, addedDependsOn }) => (
+          <li key={nodeId}>
+            <label className="flex items-start space-x-2 cursor-pointer">
+              <input type="checkbox" className="mt-1" checked={acceptedIds.has(nodeId)} onChange={() => toggle(nodeId)} />
+              <span className="break-words">
+                <span className="font-medium">{text}</span>
+                {durationDays !== previousDurationDays && (
+                  <span className="block text-gray-600">
+                    {previousDurationDays !== undefined && (
+                      <span className="line-through text-gray-400 mr-1">{formatDays(previousDurationDays)}</span>
+                    )}
+                    {formatDays(durationDays)}
+                  </span>
+                )}
+                {addedDependsOn.length > 0 && (
+                  <span className="block text-teal-700">after {addedDependsOn.map((dep) => dep.text).join(', ')}</span>
+                )}
+              </span>
+            </label>
+          </li>
+        ))}
+      </ul>
+      <div className="flex space-x-2 pt-2">
+        <button
+          onClick={() => onApply(suggestions.filter((suggestion) => acceptedIds.has(suggestion.nodeId)))}
+          className="flex-1 bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-3 rounded-md transition-colors disabled:opacity-50"
+          disabled={acceptedIds.size === 0}
+        >
+          Apply {acceptedIds.size} of {allIds.length} estimate{allIds.length === 1 ? '' : 's'}
+        </button>
+        <button
+          onClick={onCancel}
+          className="flex-1 bg-gray-200 hover:bg-gray-300 text-gray-800 font-semibold py-2 px-3 rounded-md transition-colors"
+        >
+          Discard
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TaskEstimateReview;
@@ -0,0 +1,91 @@
+import React from 'react';
+import { MindMapSummary } from '../types';
+
+interface WorkspacePanelProps {
+  maps: MindMapSummary[];
+  currentMapId: string | null;
+  onOpenMap: (mapId: string) => void;
+  onCreateMap: () => void;
+  onRenameMap: (mapId: string) => void;
+  onDuplicateMap: (mapId: string) => void;
+  onDeleteMap: (mapId: string) => void;
+  isLoading: boolean;
+}
+
+const WorkspacePanel: React.FC<WorkspacePanelProps> = ({
+  maps,
+  currentMapId,
+  onOpenMap,
+  onCreateMap,
+  onRenameMap,
+  onDuplicateMap,
+  onDeleteMap,
+  isLoading,
+}) => {
+  return (
+    <div className="bg-gray-900 text-white p-4 border-b border-gray-700">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-lg font-bold text-blue-300">My Maps</h2>
+        <button
+          onClick={onCreateMap}
+          className="bg-green-600 hover:bg-green-700 text-white font-semibold py-1 px-3 rounded-md transition-colors text-xs"
+          disabled={isLoading}
+        >
+          + New Map
+        </button>
+      </div>
+      <ul className="max-h-48 overflow-y-auto space-y-1 pr-1">
+        {maps.length === 0 && <li className="text-xs text-gray-400 italic">No saved maps yet.</li>}
+        {maps.map((map) => {
+          const isCurrent = map.id === currentMapId;
+          return (
+            <li
+              key={map.id}
+              className={`group flex items-center justify-between rounded-md px-2 py-1 text-sm ${
+                isCurrent ? 'bg-blue-700' : 'bg-gray-800 hover:bg-gray-700'
+              }`}
+            >
+              <button
+                onClick={() => !isCurrent && onOpenMap(map.id)}
+                className="flex-1 text-left truncate"
+                title={`${map.name} · ${map.nodeCount} nodes · saved ${new Date(map.updatedAt).toLocaleString()}`}
+                disabled={isLoading}
+              >
+                {map.name}
+                <span className="ml-1 text-xs text-gray-400">({map.nodeCount})</span>
+              </button>
+              <div className="flex space-x-1 ml-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                <button
+                  onClick={() => onRenameMap(map.id)}
+                  className="text-xs text-gray-300 hover:text-white"
+                  title="Rename"
+                  disabled={isLoading}
+                >
+                  ✎
+                </button>
+                <button
+                  onClick={() => onDuplicateMap(map.id)}
+                  className="text-xs text-gray-300 hover:text-white"
+                  title="Duplicate"
+                  disabled={isLoading}
+                >
+                  ⧉
+                </button>
+                <button
+                  onClick={() => onDeleteMap(map.id)}
+                  className="text-xs text-red-300 hover:text-red-100"
+                  title="Delete"
+                  disabled={isLoading}
+                >
+                  &times;
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default WorkspacePanel;
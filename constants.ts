@@ -1,8 +1,24 @@
+import { MindMapNodeType, ReviewGrade, TaskStage } from './types';
 
 export const GEMINI_PRO_MODEL = 'gemini-2.5-pro';
 export const GEMINI_FLASH_MODEL = 'gemini-2.5-flash';
 export const GEMINI_LIVE_AUDIO_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
 
+// Other AI providers (see services/providers). Defaults can be overridden in AI Provider Settings.
+export const AI_PROVIDER_SETTINGS_KEY = 'ai-mind-mapper:aiProvider';
+export const OPENAI_DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+export const OPENAI_DEFAULT_FAST_MODEL = 'gpt-4o-mini';
+export const OPENAI_DEFAULT_PRO_MODEL = 'gpt-4o';
+export const OPENAI_TRANSCRIPTION_MODEL = 'whisper-1';
+export const OLLAMA_DEFAULT_BASE_URL = 'http://localhost:11434';
+export const OLLAMA_DEFAULT_MODEL = 'llama3.1';
+export const AI_REQUEST_TIMEOUT_MS = 120000; // Local models can be slow on large maps
+export const MOCK_AI_DEFAULT_SEED = 42;
+export const MOCK_AI_DEFAULT_LATENCY_MS = 600;
+
+// pdf.js loads its worker from the CDN the importmap in index.html maps `pdfjs-dist/` to
+export const PDFJS_CDN_BASE_URL = 'https://aistudiocdn.com/pdfjs-dist@';
+
 export const AI_THINKING_BUDGET_PRO = 32768;
 export const AI_THINKING_BUDGET_FLASH = 24576;
 export const MAX_OUTPUT_TOKENS = 2000; // General purpose for generating mind map/summaries
@@ -18,12 +34,14 @@ export const AI_MIND_MAP_SCHEMA = {
         type: 'object',
         properties: {
           title: { type: 'string', description: 'The title of the concept or topic.' },
+          id: { type: 'string', description: 'Id of the existing node this corresponds to, if any.' },
           subtopics: {
             type: 'array',
             items: {
               type: 'object',
               properties: {
                 title: { type: 'string' },
+                id: { type: 'string' },
                 subtopics: { type: 'array', items: { type: 'object' } }, // Recursive definition placeholder
                 pros: { type: 'array', items: { type: 'string' } }, // For debate mode
                 cons: { type: 'array', items: { type: 'string' } }, // For debate mode
@@ -53,6 +71,33 @@ export const AI_FLASHCARD_SCHEMA = {
   required: ['front', 'back'],
 };
 
+export const AI_QUIZ_SCHEMA = {
+  type: 'object',
+  properties: {
+    questions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: ['multiple-choice', 'true-false', 'short-answer'], description: 'Kind of question.' },
+          question: { type: 'string', description: 'The question, or for true/false the statement to judge.' },
+          answer: { type: 'string', description: 'The correct option for multiple choice, or a brief model answer for short answer.' },
+          distractors: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'For multiple choice: three plausible but wrong options.',
+          },
+          isTrue: { type: 'boolean', description: 'For true/false: whether the statement is true.' },
+          explanation: { type: 'string', description: 'One sentence on why the answer is right.' },
+          sourceId: { type: 'string', description: 'Id of the node the question is drawn from.' },
+        },
+        required: ['type', 'question', 'sourceId'],
+      },
+    },
+  },
+  required: ['questions'],
+};
+
 export const AI_SUMMARY_SCHEMA = {
   type: 'object',
   properties: {
@@ -70,6 +115,65 @@ export const AI_PROS_CONS_SCHEMA = {
   required: ['pros', 'cons'],
 };
 
+// Tag proposals; the 'tags' items get an enum of the allowed vocabulary at request time
+export const AI_TAG_SUGGESTIONS_SCHEMA = {
+  type: 'object',
+  properties: {
+    suggestions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', description: 'Id of the node being tagged.' },
+          tags: { type: 'array', items: { type: 'string' }, description: 'Tags from the vocabulary that fit the node.' },
+        },
+        required: ['id', 'tags'],
+      },
+    },
+  },
+  required: ['suggestions'],
+};
+
+export const AI_CROSS_LINK_SCHEMA = {
+  type: 'object',
+  properties: {
+    links: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          fromId: { type: 'string', description: 'Id of the node the link starts from.' },
+          toId: { type: 'string', description: 'Id of the node the link goes to.' },
+          label: { type: 'string', description: 'A few words naming the relationship, e.g. "causes" or "contrasts with".' },
+          directed: { type: 'boolean', description: 'True when the relationship reads one way, from fromId to toId.' },
+        },
+        required: ['fromId', 'toId', 'label', 'directed'],
+      },
+    },
+  },
+  required: ['links'],
+};
+
+// Duration estimates and dependencies for the tasks of a plan
+export const AI_TASK_ESTIMATES_SCHEMA = {
+  type: 'object',
+  properties: {
+    tasks: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', description: 'Id of the task.' },
+          durationDays: { type: 'integer', description: 'Estimated duration in days; 0 for a milestone.' },
+          dependsOn: { type: 'array', items: { type: 'string' }, description: 'Ids of tasks that must finish before this one starts.' },
+        },
+        required: ['id', 'durationDays'],
+      },
+    },
+  },
+  required: ['tasks'],
+};
+
 export const AI_QUESTIONS_SCHEMA = {
   type: 'object',
   properties: {
@@ -77,3 +181,78 @@ export const AI_QUESTIONS_SCHEMA = {
   },
   required: ['questions'],
 };
+
+// Local workspace persistence (IndexedDB)
+export const WORKSPACE_DB_NAME = 'ai-mind-mapper';
+export const WORKSPACE_DB_VERSION = 1;
+export const WORKSPACE_MAPS_STORE = 'maps';
+export const WORKSPACE_LAST_MAP_KEY = 'ai-mind-mapper:lastMapId';
+export const WORKSPACE_HISTORY_LIMIT = 50; // Undo steps kept per saved map
+export const DEFAULT_MAP_NAME = 'Untitled Map';
+
+// Exported map files (mindmap.json)
+export const MAP_FILE_FORMAT = 'ai-mind-mapper';
+export const MAP_FILE_FORMAT_VERSION = 5; // Bump and add a migration in mapFileService when MindMapNode changes
+
+// Colours and type sizes matching nodeTypeStyles in MindMapNode.tsx, for formats rendered outside the DOM
+export const NODE_TYPE_THEME: Record<
+  MindMapNodeType,
+  { background: string; text: string; fontSize: number; bold: boolean }
+> = {
+  [MindMapNodeType.ROOT]: { background: '#2563eb', text: '#ffffff', fontSize: 20, bold: true }, // blue-600
+  [MindMapNodeType.MAIN_TOPIC]: { background: '#9333ea', text: '#ffffff', fontSize: 18, bold: true }, // purple-600
+  [MindMapNodeType.SUB_TOPIC]: { background: '#6366f1', text: '#ffffff', fontSize: 16, bold: false }, // indigo-500
+  [MindMapNodeType.DETAIL]: { background: '#374151', text: '#f3f4f6', fontSize: 14, bold: false }, // gray-700
+};
+
+// Flashcard study (SM-2 scheduling)
+export const SM2_INITIAL_EASE = 2.5;
+export const SM2_MIN_EASE = 1.3;
+// SM-2 recall quality (0-5) for each grade button
+export const REVIEW_GRADE_QUALITY: Record<ReviewGrade, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+export const REVIEW_GRADE_LABELS: Record<ReviewGrade, string> = { again: 'Again', hard: 'Hard', good: 'Good', easy: 'Easy' };
+
+// AI quizzes
+export const QUIZ_MIN_QUESTIONS = 3;
+export const QUIZ_MAX_QUESTIONS = 10;
+
+// Task board
+export const TASK_STAGES: TaskStage[] = ['todo', 'in-progress', 'done'];
+export const TASK_STAGE_LABELS: Record<TaskStage, string> = { todo: 'To do', 'in-progress': 'In progress', done: 'Done' };
+
+// Gantt timeline
+export const GANTT_DEFAULT_DURATION_DAYS = 1; // For tasks that have no estimate yet
+export const GANTT_DAY_WIDTH = 28; // px
+export const GANTT_ROW_HEIGHT = 44; // px
+
+// Node tags
+export const TAG_PALETTE_KEY = 'ai-mind-mapper:tagPalette';
+export const TAG_COLORS = ['#dc2626', '#ea580c', '#ca8a04', '#16a34a', '#0d9488', '#0284c7', '#7c3aed', '#db2777', '#4b5563']; // Tailwind 600s
+
+// Graphical canvas
+export const CANVAS_LAYOUT_KEY = 'ai-mind-mapper:canvasLayout';
+export const CANVAS_MIN_ZOOM = 0.1;
+export const CANVAS_MAX_ZOOM = 3;
+
+// Keyboard shortcuts, as listed in the cheat sheet. Alternatives are separate entries in `keys`.
+export const KEYBOARD_SHORTCUTS: { keys: string[]; description: string }[] = [
+  { keys: ['Tab'], description: 'Add a child to the selected node' },
+  { keys: ['Enter'], description: 'Add a sibling after the selected node' },
+  { keys: ['↑', '↓'], description: 'Select the previous / next sibling' },
+  { keys: ['←'], description: 'Select the parent' },
+  { keys: ['→'], description: 'Select the first child (expanding the node)' },
+  { keys: ['F2'], description: 'Edit the selected node (or double-click it)' },
+  { keys: ['Enter'], description: 'While editing: save the text' },
+  { keys: ['Shift+Enter'], description: 'While editing: start a new line' },
+  { keys: ['Esc'], description: 'While editing: discard the changes' },
+  { keys: ['Delete'], description: 'Delete the selected node and its branch' },
+  { keys: ['Space'], description: 'Expand or collapse the selected node' },
+  { keys: ['Alt+↑', 'Alt+↓'], description: 'Move the node up / down among its siblings' },
+  { keys: ['Alt+→'], description: 'Indent the node under its previous sibling' },
+  { keys: ['Alt+←'], description: 'Outdent the node to follow its parent' },
+  { keys: ['Ctrl+Z'], description: 'Undo' },
+  { keys: ['Ctrl+Y', 'Ctrl+Shift+Z'], description: 'Redo' },
+  { keys: ['Ctrl+Click', 'Shift+Click'], description: 'Add or remove a node from the selection' },
+  { keys: ['Right-click'], description: 'Node menu (acts on every selected node)' },
+  { keys: ['?'], description: 'Show these shortcuts' },
+];
@@ -0,0 +1,381 @@
+import {
+  MAX_OUTPUT_TOKENS,
+  SHORT_OUTPUT_TOKENS,
+  AI_MIND_MAP_SCHEMA,
+  AI_FLASHCARD_SCHEMA,
+  AI_QUIZ_SCHEMA,
+  AI_SUMMARY_SCHEMA,
+  AI_PROS_CONS_SCHEMA,
+  AI_QUESTIONS_SCHEMA,
+  AI_TAG_SUGGESTIONS_SCHEMA,
+  AI_CROSS_LINK_SCHEMA,
+  AI_TASK_ESTIMATES_SCHEMA,
+} from '../constants';
+import {
+  AIMindMapOutput,
+  MindMapMode,
+  AIFlashcardOutput,
+  AIQuizOutput,
+  AISummaryOutput,
+  AIProsConsOutput,
+  AIQuestionsOutput,
+  AITagSuggestionsOutput,
+  AICrossLinkSuggestionsOutput,
+  AITaskEstimatesOutput,
+  AIModelTier,
+  NodeExpansionContext,
+  NodeExpansionOptions,
+} from '../types';
+import { getAIProvider } from './providers';
+
+// App-level AI features. Prompts and schemas live here; the configured provider (see ./providers) runs them.
+
+// Lets the app match restructured nodes back to the originals and keep the user's tags, tasks and cards
+const NODE_ID_INSTRUCTION = `Existing nodes carry an 'id'. Keep each node's 'id' unchanged when you keep, rename or move it; when merging nodes, keep the 'id' of one of them. Leave 'id' out for nodes you create.`;
+
+// Cross-links are context only; the response schema has no place for them
+const CROSS_LINK_INSTRUCTION = `The current map may also list 'links': associative links between nodes in different branches, given by node id with a label and whether they point one way. Use them to understand how ideas relate, and keep the ids of linked nodes so their links survive.`;
+
+const getModelTierForMode = (mode: MindMapMode): AIModelTier => {
+  switch (mode) {
+    case MindMapMode.STUDY:
+    case MindMapMode.PROJECT_PLANNING:
+    case MindMapMode.DEBATE:
+      return 'pro'; // Pro for more complex reasoning in specific modes
+    case MindMapMode.GENERAL:
+    default:
+      return 'fast';
+  }
+};
+
+const getSystemInstructionForMode = (mode: MindMapMode, inputContent: string, existingMapJson?: string): string => {
+  let baseInstruction = `You are an expert mind map generator. Your task is to extract key concepts and their relationships from the provided content and represent them as a hierarchical mind map in JSON format. Each node should have a 'title' (the concept's title) and an optional 'subtopics' array (containing more nested nodes, each with 'title' and 'subtopics'). Focus on creating a logical, organized, and concise structure, making sure the hierarchy is clear. Aim for 2-3 levels of depth initially. Do not include any other text or explanation, only the JSON.`;
+
+  if (existingMapJson) {
+    baseInstruction += `\n\nExisting Mind Map Context: ${existingMapJson}\n\nBased on the user's new input and the existing map, either add new relevant concepts, refine existing ones, or adjust the structure to better integrate the new information. Ensure consistency with the existing map's structure where appropriate.`;
+  }
+
+  switch (mode) {
+    case MindMapMode.STUDY:
+      return baseInstruction + ` For 'STUDY' mode, prioritize terms, definitions, key theories, and relationships that facilitate learning and memorization.`;
+    case MindMapMode.PROJECT_PLANNING:
+      return baseInstruction + ` For 'PROJECT PLANNING' mode, identify tasks, milestones, deliverables, resources, and dependencies.`;
+    case MindMapMode.DEBATE:
+      return baseInstruction + ` For 'DEBATE' mode, identify main arguments, counter-arguments, key points, and potential questions. For each main argument, include 'pros' and 'cons' arrays.`;
+    case MindMapMode.GENERAL:
+    default:
+      return baseInstruction + ` For 'GENERAL' mode, provide a balanced overview of the main concepts.`;
+  }
+};
+
+const getResponseSchemaForMode = (mode: MindMapMode): Record<string, unknown> => {
+  // Deep copy the base schema to allow modification for debate mode
+  const schema = JSON.parse(JSON.stringify(AI_MIND_MAP_SCHEMA));
+  if (mode === MindMapMode.DEBATE && schema.properties.map.items.properties) {
+      // Add pros/cons/questions directly to the main topic items
+      schema.properties.map.items.properties.pros = { type: 'array', items: { type: 'string' } };
+      schema.properties.map.items.properties.cons = { type: 'array', items: { type: 'string' } };
+      schema.properties.map.items.properties.questions = { type: 'array', items: { type: 'string' } };
+
+      // Also add to subtopics (assuming AIMapNode structure for subitems)
+      if (schema.properties.map.items.properties.subtopics && schema.properties.map.items.properties.subtopics.items) {
+          const subtopicItemsProperties = (schema.properties.map.items.properties.subtopics.items as any).properties;
+          if (subtopicItemsProperties) {
+              subtopicItemsProperties.pros = { type: 'array', items: { type: 'string' } };
+              subtopicItemsProperties.cons = { type: 'array', items: { type: 'string' } };
+              subtopicItemsProperties.questions = { type: 'array', items: { type: 'string' } };
+          }
+      }
+  }
+  return schema;
+};
+
+export async function generateMindMapStructure(
+  inputContent: string,
+  mode: MindMapMode,
+  existingMapJson?: string
+): Promise<AIMindMapOutput | null> {
+  try {
+    const provider = getAIProvider();
+    const tier = getModelTierForMode(mode);
+    const systemInstruction = getSystemInstructionForMode(mode, inputContent, existingMapJson);
+
+    const text = await provider.generateJson({
+      tier,
+      prompt: inputContent,
+      systemInstruction,
+      schema: getResponseSchemaForMode(mode),
+      maxOutputTokens: MAX_OUTPUT_TOKENS,
+      useThinking: true,
+    });
+
+    if (text) {
+      try {
+        const parsedJson: AIMindMapOutput = JSON.parse(text);
+        return parsedJson;
+      } catch (jsonError) {
+        console.error('Failed to parse JSON from AI response:', jsonError);
+        console.error('AI Raw Response:', text);
+        // Fallback for AI not adhering to JSON (very rare with structured output)
+        const simplifiedText = await provider.generateJson({
+          tier,
+          prompt: `Re-format this text into a clean JSON array of {title: string, subtopics: array} mind map structure: ${text}`,
+          schema: getResponseSchemaForMode(mode),
+          maxOutputTokens: MAX_OUTPUT_TOKENS,
+        });
+        if (simplifiedText) {
+            try {
+                return JSON.parse(simplifiedText);
+            } catch (secondJsonError) {
+                console.error('Second attempt to parse JSON failed:', secondJsonError);
+                return null;
+            }
+        }
+        return null;
+      }
+    }
+    return null;
+  } catch (error) {
+    console.error('Error generating mind map structure:', error);
+    throw error;
+  }
+}
+
+export async function transcribeAudio(audioBlob: Blob): Promise<string> {
+  return getAIProvider().transcribeAudio(audioBlob);
+}
+
+export async function generateFlashcard(nodeText: string): Promise<AIFlashcardOutput | null> {
+  try {
+    const text = await getAIProvider().generateJson({
+      tier: 'fast',
+      prompt: `Generate a single flashcard (question and answer) for the following concept: "${nodeText}"`,
+      systemInstruction: `You are a study assistant. Generate a concise flashcard in JSON format with 'front' (question) and 'back' (answer) properties. Only output the JSON.`,
+      schema: AI_FLASHCARD_SCHEMA,
+      maxOutputTokens: SHORT_OUTPUT_TOKENS,
+    });
+    return text ? JSON.parse(text) : null;
+  } catch (error) {
+    console.error('Error generating flashcard:', error);
+    return null;
+  }
+}
+
+export async function generateQuiz(
+  subtreeOutline: string, // One node per line as "[id] title", indented by depth, with its notes below it
+  questionCount: number
+): Promise<AIQuizOutput | null> {
+  try {
+    const text = await getAIProvider().generateJson({
+      tier: 'fast',
+      prompt: `Write a quiz of ${questionCount} questions about this part of a mind map:\n\n${subtreeOutline}`,
+      systemInstruction: `You are a study assistant writing a quiz that tests understanding of a mind map branch, including the summaries, pros, cons and other notes under its nodes. Mix the question types: 'multiple-choice' questions give the correct option in 'answer' and three plausible but wrong 'distractors'; 'true-false' questions state a claim in 'question' and say in 'isTrue' whether it holds; 'short-answer' questions give a brief model answer in 'answer'. Add a one-sentence 'explanation' to each, and set 'sourceId' to the id of the node the question is drawn from. Respond in JSON format with a 'questions' array. Only output the JSON.`,
+      schema: AI_QUIZ_SCHEMA,
+      maxOutputTokens: MAX_OUTPUT_TOKENS,
+    });
+    return text ? JSON.parse(text) : null;
+  } catch (error) {
+    console.error('Error generating quiz:', error);
+    return null;
+  }
+}
+
+export async function generateSummary(nodeText: string): Promise<AISummaryOutput | null> {
+  try {
+    const text = await getAIProvider().generateJson({
+      tier: 'fast',
+      prompt: `Summarize the following concept concisely: "${nodeText}"`,
+      systemInstruction: `You are a summarization expert. Provide a concise summary of the given concept in JSON format with a 'summary' property. Only output the JSON.`,
+      schema: AI_SUMMARY_SCHEMA,
+      maxOutputTokens: SHORT_OUTPUT_TOKENS,
+    });
+    return text ? JSON.parse(text) : null;
+  } catch (error) {
+    console.error('Error generating summary:', error);
+    return null;
+  }
+}
+
+export async function generateProsCons(topicText: string): Promise<AIProsConsOutput | null> {
+  try {
+    const text = await getAIProvider().generateJson({
+      tier: 'pro',
+      prompt: `List pros and cons for the topic: "${topicText}"`,
+      systemInstruction: `You are a debate assistant. List distinct pros and cons for the given topic in JSON format with 'pros' and 'cons' arrays. Only output the JSON.`,
+      schema: AI_PROS_CONS_SCHEMA,
+      maxOutputTokens: SHORT_OUTPUT_TOKENS,
+    });
+    return text ? JSON.parse(text) : null;
+  } catch (error) {
+    console.error('Error generating pros and cons:', error);
+    return null;
+  }
+}
+
+export async function generateClarifyingQuestions(topicText: string): Promise<AIQuestionsOutput | null> {
+  try {
+    const text = await getAIProvider().generateJson({
+      tier: 'pro',
+      prompt: `Generate 3-5 clarifying and expanding questions for the concept: "${topicText}"`,
+      systemInstruction: `You are a critical thinking assistant. Generate a list of clarifying or expanding questions for the given concept in JSON format with a 'questions' array. Only output the JSON.`,
+      schema: AI_QUESTIONS_SCHEMA,
+      maxOutputTokens: SHORT_OUTPUT_TOKENS,
+    });
+    return text ? JSON.parse(text) : null;
+  } catch (error) {
+    console.error('Error generating clarifying questions:', error);
+    return null;
+  }
+}
+
+export async function refineMindMapStructure(
+  mapNodes: string, // JSON string of current map, with its cross-links
+  newInput: string,
+  mode: MindMapMode
+): Promise<AIMindMapOutput | null> {
+  const provider = getAIProvider();
+  const systemInstruction = `You are a mind map refinement expert. Given the current mind map structure (in JSON) and new input, integrate the new input into the existing map. This could involve adding new nodes, merging duplicate ideas, or adjusting the hierarchy for better clarity and organization. If there are obvious duplicates in the current map based on the new input, suggest merging them by providing a refined structure where they are combined. The output MUST be a complete, refined JSON mind map structure, following the format: { "map": [{ "title": "...", "subtopics": [...] }] }. Do not lose any relevant existing information. ${NODE_ID_INSTRUCTION} ${CROSS_LINK_INSTRUCTION}`;
+
+  try {
+    const text = await provider.generateJson({
+      tier: getModelTierForMode(mode),
+      prompt: `Current Mind Map:\n\`\`\`json\n${mapNodes}\n\`\`\`\n\nNew Input: "${newInput}"\n\nRefined Mind Map:`,
+      systemInstruction,
+      schema: getResponseSchemaForMode(mode),
+      maxOutputTokens: MAX_OUTPUT_TOKENS,
+      useThinking: true,
+    });
+    return text ? JSON.parse(text) : null;
+  } catch (error) {
+    console.error('Error refining mind map structure:', error);
+    return null;
+  }
+}
+
+export async function mergeDuplicateIdeas(
+    mapNodes: string, // JSON string of current map
+    mode: MindMapMode,
+): Promise<AIMindMapOutput | null> {
+    const provider = getAIProvider();
+    const systemInstruction = `You are a mind map optimization expert. Review the provided mind map structure (in JSON) and identify any duplicate or highly redundant ideas/nodes. Consolidate these into single, well-phrased nodes, ensuring all important information is retained. The output MUST be a complete, refined JSON mind map structure with duplicates merged, following the format: { "map": [{ "title": "...", "subtopics": [...] }] }. ${NODE_ID_INSTRUCTION} Only output the JSON.`;
+
+    try {
+        const text = await provider.generateJson({
+            tier: getModelTierForMode(mode),
+            prompt: `Current Mind Map:\n\`\`\`json\n${mapNodes}\n\`\`\`\n\nMerge duplicate ideas in this mind map. Refined Mind Map:`,
+            systemInstruction,
+            schema: getResponseSchemaForMode(mode),
+            maxOutputTokens: MAX_OUTPUT_TOKENS,
+            useThinking: true,
+        });
+        return text ? JSON.parse(text) : null;
+    } catch (error) {
+        console.error('Error merging duplicate ideas:', error);
+        return null;
+    }
+}
+
+export async function expandNodeStructure(
+  branch: NodeExpansionContext,
+  options: NodeExpansionOptions,
+  mode: MindMapMode
+): Promise<AIMindMapOutput | null> {
+  const provider = getAIProvider();
+  const path = [...branch.ancestorTitles, branch.title].map((title) => `"${title}"`).join(' > ');
+  const siblings = branch.siblingTitles.length > 0 ? branch.siblingTitles.map((title) => `"${title}"`).join(', ') : 'none';
+  const systemInstruction = `You are a mind map expansion expert. You work on a single branch of a larger mind map and leave the rest of the map alone. The branch is "${branch.title}", found at ${path}. Its sibling topics are ${siblings}; keep the branch distinct from them. Answer with the children of "${branch.title}" (not the node itself) as the 'map' array, following the format: { "map": [{ "title": "...", "subtopics": [...] }] }. ${NODE_ID_INSTRUCTION} Only output the JSON.`;
+
+  let task: string;
+  switch (options.kind) {
+    case 'children':
+      task = `Generate exactly ${options.count} new subtopics for "${branch.title}" that do not repeat its current children. Return only the new subtopics, without nested subtopics.`;
+      break;
+    case 'deepen':
+      task = `Deepen this branch by ${options.depth} level${options.depth === 1 ? '' : 's'}: under each of its deepest nodes, add 2-4 more specific subtopics. Return the whole branch, keeping every existing node and its 'id'.`;
+      break;
+    case 'rewrite':
+    default:
+      task = `Rewrite this branch into a clearer, better organized structure. You may rename, regroup, add or drop nodes, but keep its important information.`;
+      break;
+  }
+
+  try {
+    const text = await provider.generateJson({
+      tier: getModelTierForMode(mode),
+      prompt: `Current branch under "${branch.title}":\n\`\`\`json\n${branch.branchJson}\n\`\`\`\n\n${task}`,
+      systemInstruction,
+      schema: getResponseSchemaForMode(mode),
+      maxOutputTokens: MAX_OUTPUT_TOKENS,
+      useThinking: true,
+    });
+    return text ? JSON.parse(text) : null;
+  } catch (error) {
+    console.error('Error expanding mind map node:', error);
+    return null;
+  }
+}
+
+export async function suggestNodeTags(
+  nodes: { id: string; path: string }[], // path: ancestor titles and the node's own title, joined with " > "
+  vocabulary: string[]
+): Promise<AITagSuggestionsOutput | null> {
+  const schema = JSON.parse(JSON.stringify(AI_TAG_SUGGESTIONS_SCHEMA));
+  schema.properties.suggestions.items.properties.tags.items.enum = vocabulary; // Constrain output to the vocabulary
+
+  try {
+    const text = await getAIProvider().generateJson({
+      tier: 'fast',
+      prompt: `Vocabulary: ${JSON.stringify(vocabulary)}\n\nNodes:\n${nodes.map((node) => `${node.id}: ${node.path}`).join('\n')}`,
+      systemInstruction: `You are a knowledge organization assistant. Tag mind map nodes using ONLY tags from the given vocabulary. Each node is listed as "id: path", where the path runs from the top-level topic to the node. Suggest tags only where they clearly fit, usually zero to two per node, and leave out nodes that need none. Respond in JSON format with a 'suggestions' array of { "id": "...", "tags": [...] }. Only output the JSON.`,
+      schema,
+      maxOutputTokens: MAX_OUTPUT_TOKENS,
+    });
+    return text ? JSON.parse(text) : null;
+  } catch (error) {
+    console.error('Error suggesting tags:', error);
+    return null;
+  }
+}
+
+export async function suggestCrossLinks(
+  nodes: { id: string; path: string }[], // path: ancestor titles and the node's own title, joined with " > "
+  existingLinks: { fromId: string; toId: string; label: string }[]
+): Promise<AICrossLinkSuggestionsOutput | null> {
+  try {
+    const text = await getAIProvider().generateJson({
+      tier: 'fast',
+      prompt: `Nodes:\n${nodes.map((node) => `${node.id}: ${node.path}`).join('\n')}\n\nExisting links:\n${JSON.stringify(existingLinks)}`,
+      systemInstruction: `You are a knowledge organization assistant. Find meaningful relationships between mind map nodes that sit in different branches, such as causes, depends on, contradicts or is an example of. Each node is listed as "id: path", where the path runs from the top-level topic to the node. Do not link a node to its own parent or child, and do not repeat existing links. Suggest only strong relationships, at most ten. Give each link a short label and mark it directed when it reads one way. Respond in JSON format with a 'links' array of { "fromId": "...", "toId": "...", "label": "...", "directed": true/false }. Only output the JSON.`,
+      schema: AI_CROSS_LINK_SCHEMA,
+      maxOutputTokens: MAX_OUTPUT_TOKENS,
+    });
+    return text ? JSON.parse(text) : null;
+  } catch (error) {
+    console.error('Error suggesting cross-links:', error);
+    return null;
+  }
+}
+
+export async function suggestTaskEstimates(
+  tasks: { id: string; path: string; durationDays?: number; dependsOn: string[] }[] // path as in suggestCrossLinks
+): Promise<AITaskEstimatesOutput | null> {
+  const lines = tasks.map((task) => {
+    const estimate = task.durationDays !== undefined ? `${task.durationDays} days` : 'no estimate';
+    const after = task.dependsOn.length > 0 ? `; after ${task.dependsOn.join(', ')}` : '';
+    return `${task.id}: ${task.path} (${estimate}${after})`;
+  });
+
+  try {
+    const text = await getAIProvider().generateJson({
+      tier: 'pro',
+      prompt: `Tasks:\n${lines.join('\n')}`,
+      systemInstruction: `You are a project planning assistant. Estimate how many days each task of a project plan takes and which tasks must finish before it can start. Each task is listed as "id: path (current estimate; after the ids it already depends on)", where the path runs from the top-level topic to the task. Give 'durationDays' as a whole number, using 0 for milestones such as launches or sign-offs. List in 'dependsOn' only the ids of other tasks in the list that genuinely block it, leaving out dependencies it already has, and never create a loop. Respond in JSON format with a 'tasks' array of { "id": "...", "durationDays": n, "dependsOn": [...] }. Only output the JSON.`,
+      schema: AI_TASK_ESTIMATES_SCHEMA,
+      maxOutputTokens: MAX_OUTPUT_TOKENS,
+    });
+    return text ? JSON.parse(text) : null;
+  } catch (error) {
+    console.error('Error suggesting task estimates:', error);
+    return null;
+  }
+}
@@ -0,0 +1,110 @@
+import { MindMapNode } from '../types';
+import { flattenTree } from '../utils/treeUtils';
+import { isDateKey } from '../utils/dateUtils';
+
+// iCalendar (RFC 5545) export of dated tasks, for importing or subscribing in calendar apps
+
+const PRODUCT_ID = '-//AI Mind Mapper//Mind Map Export//EN';
+const UID_DOMAIN = 'ai-mind-mapper';
+const MAX_LINE_OCTETS = 75;
+
+export interface CalendarEntry {
+  nodeId: string;
+  title: string;
+  path: string[]; // Ancestor titles, root first
+  tags: string[];
+  milestone: boolean;
+  dueDate: string;
+  startDate?: string;
+  completed: boolean;
+  description: string;
+  assignee?: string;
+}
+
+/**
+ * Every task with a calendar due date, in map order. Milestones are zero-length tasks or tasks with
+ * other tasks beneath them. Free-text due dates such as "next sprint" can't be placed on a calendar
+ * and are left out.
+ */
+export function collectCalendarEntries(nodes: MindMapNode[]): CalendarEntry[] {
+  return flattenTree(nodes)
+    .filter(({ node }) => isDateKey(node.metadata?.task?.dueDate))
+    .map(({ node, ancestors }) => {
+      const task = node.metadata!.task!;
+      const hasSubtasks = flattenTree(node.children).some(({ node: child }) => child.metadata?.task);
+      return {
+        nodeId: node.id,
+        title: node.text,
+        path: ancestors.map((ancestor) => ancestor.text),
+        tags: node.tags,
+        milestone: task.durationDays === 0 || hasSubtasks,
+        dueDate: task.dueDate!,
+        // DUE must be later than DTSTART, so a task starting on its due date has no start
+        startDate: isDateKey(task.startDate) && task.startDate < task.dueDate! ? task.startDate : undefined,
+        completed: task.completed,
+        description: task.description,
+        assignee: task.assignee,
+      };
+    });
+}
+
+const escapeText = (text: string): string =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const toDateValue = (dateKey: string): string => dateKey.replace(/-/g, '');
+
+const toUtcTimestamp = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Lines longer than 75 octets continue on the next line after a space, without splitting a UTF-8 character
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1; // Continuations start with a space
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const describeEntry = (entry: CalendarEntry): string => {
+  const lines: string[] = [];
+  if (entry.path.length > 0) lines.push(entry.path.join(' › '));
+  if (entry.description && entry.description !== `Complete "${entry.title}"`) lines.push(entry.description);
+  if (entry.assignee) lines.push(`Assignee: ${entry.assignee}`);
+  lines.push(entry.completed ? 'Status: done' : 'Status: not done');
+  return lines.join('\n');
+};
+
+/**
+ * Builds a VCALENDAR with a VTODO per entry, milestones included. UIDs come from node ids, so importing
+ * a re-exported file updates the earlier entries instead of duplicating them; keeping every entry a
+ * VTODO means a task turning into a milestone never changes the component an existing UID refers to.
+ */
+export function mindMapToICalendar(nodes: MindMapNode[], calendarName: string, now: Date = new Date()): string {
+  const stamp = toUtcTimestamp(now);
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODUCT_ID}`, 'CALSCALE:GREGORIAN', `X-WR-CALNAME:${escapeText(calendarName)}`];
+
+  for (const entry of collectCalendarEntries(nodes)) {
+    lines.push('BEGIN:VTODO', `UID:${entry.nodeId}@${UID_DOMAIN}`, `DTSTAMP:${stamp}`, `SUMMARY:${escapeText(entry.title)}`);
+    if (entry.startDate) lines.push(`DTSTART;VALUE=DATE:${toDateValue(entry.startDate)}`);
+    lines.push(`DUE;VALUE=DATE:${toDateValue(entry.dueDate)}`);
+    lines.push(entry.completed ? 'STATUS:COMPLETED' : 'STATUS:NEEDS-ACTION', `PERCENT-COMPLETE:${entry.completed ? 100 : 0}`);
+    lines.push(`DESCRIPTION:${escapeText(describeEntry(entry))}`);
+    const categories = entry.milestone ? [...entry.tags, 'Milestone'] : entry.tags;
+    if (categories.length > 0) lines.push(`CATEGORIES:${categories.map(escapeText).join(',')}`);
+    lines.push('END:VTODO');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
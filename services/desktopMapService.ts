@@ -0,0 +1,326 @@
+import { v4 as uuidv4 } from 'uuid';
+import { NODE_TYPE_THEME, TASK_STAGES } from '../constants';
+import { MindMapNode, MindMapNodeType, TaskStage } from '../types';
+import { nodeTypeForDepth } from '../utils/treeUtils';
+import { escapeXml, parseXmlDocument } from '../utils/xmlUtils';
+import { createZip } from '../utils/zipUtils';
+import { isDateKey } from '../utils/dateUtils';
+
+// Exporters for desktop mind-mapping tools: FreeMind/Freeplane (.mm) and XMind (.xmind)
+
+const APP_NAME = 'AI Mind Mapper';
+// Marks the central node we add when a map has several top-level nodes, so import can drop it again
+const WRAPPER_ATTRIBUTE = 'ai-mind-mapper-root';
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface NoteSection {
+  heading: 'Summary' | 'Pros' | 'Cons' | 'Questions' | 'Flashcard';
+  items: string[];
+}
+
+// Metadata that desktop tools have no field for is carried in the node's note
+const buildNoteSections = (node: MindMapNode): NoteSection[] => {
+  const metadata = node.metadata ?? {};
+  const sections: NoteSection[] = [];
+  if (metadata.summary) sections.push({ heading: 'Summary', items: [metadata.summary] });
+  if (metadata.pros?.length) sections.push({ heading: 'Pros', items: metadata.pros });
+  if (metadata.cons?.length) sections.push({ heading: 'Cons', items: metadata.cons });
+  if (metadata.questions?.length) sections.push({ heading: 'Questions', items: metadata.questions });
+  if (metadata.flashcard) {
+    sections.push({ heading: 'Flashcard', items: [`Q: ${metadata.flashcard.front}`, `A: ${metadata.flashcard.back}`] });
+  }
+  return sections;
+};
+
+const applyNoteSections = (node: MindMapNode, sections: NoteSection[]): void => {
+  const metadata: NonNullable<MindMapNode['metadata']> = { ...node.metadata };
+  sections.forEach(({ heading, items }) => {
+    switch (heading) {
+      case 'Summary':
+        metadata.summary = items.join('\n');
+        break;
+      case 'Pros':
+        metadata.pros = items;
+        break;
+      case 'Cons':
+        metadata.cons = items;
+        break;
+      case 'Questions':
+        metadata.questions = items;
+        break;
+      case 'Flashcard': {
+        const front = items.find((item) => item.startsWith('Q: '))?.slice(3) ?? '';
+        const back = items.find((item) => item.startsWith('A: '))?.slice(3) ?? '';
+        metadata.flashcard = { front, back };
+        break;
+      }
+    }
+  });
+  node.metadata = metadata;
+};
+
+const wrapRoots = (nodes: MindMapNode[], title: string): { root: MindMapNode; isWrapper: boolean } => {
+  if (nodes.length === 1) return { root: nodes[0], isWrapper: false };
+  return {
+    root: {
+      id: uuidv4(),
+      text: title,
+      children: nodes,
+      parentId: null,
+      isExpanded: true,
+      type: MindMapNodeType.ROOT,
+      tags: [],
+    },
+    isWrapper: true,
+  };
+};
+
+// --- FreeMind / Freeplane ---
+
+const noteToHtml = (sections: NoteSection[]): string =>
+  sections
+    .map(({ heading, items }) => {
+      const body =
+        heading === 'Summary'
+          ? items.map((item) => `<p>${escapeXml(item)}</p>`).join('')
+          : `<ul>${items.map((item) => `<li>${escapeXml(item)}</li>`).join('')}</ul>`;
+      return `<h3>${heading}</h3>${body}`;
+    })
+    .join('');
+
+export function mindMapToFreeMind(nodes: MindMapNode[], title: string = 'Mind Map'): string {
+  const { root, isWrapper } = wrapRoots(nodes, title);
+
+  const writeNode = (node: MindMapNode, depth: number, isRoot: boolean): string => {
+    const indent = '  '.repeat(depth + 1);
+    const theme = NODE_TYPE_THEME[node.type];
+    const folded = !node.isExpanded && node.children.length > 0 ? ' FOLDED="true"' : '';
+    const lines = [
+      `${indent}<node ID="ID_${node.id.replace(/-/g, '_')}" TEXT="${escapeXml(node.text)}"${folded}` +
+        ` COLOR="${theme.text}" BACKGROUND_COLOR="${theme.background}" STYLE="bubble">`,
+      `${indent}  <font NAME="SansSerif" SIZE="${theme.fontSize}"${theme.bold ? ' BOLD="true"' : ''}/>`,
+    ];
+    if (isRoot && isWrapper) {
+      lines.push(`${indent}  <attribute NAME="${WRAPPER_ATTRIBUTE}" VALUE="true"/>`);
+    }
+    node.tags.forEach((tag) => lines.push(`${indent}  <attribute NAME="tag" VALUE="${escapeXml(tag)}"/>`));
+    if (node.status) lines.push(`${indent}  <attribute NAME="status" VALUE="${node.status}"/>`);
+    const task = node.metadata?.task;
+    if (task) {
+      lines.push(`${indent}  <icon BUILTIN="${task.completed ? 'button_ok' : 'flag'}"/>`);
+      lines.push(`${indent}  <attribute NAME="task" VALUE="${escapeXml(task.description)}"/>`);
+      lines.push(`${indent}  <attribute NAME="completed" VALUE="${task.completed}"/>`);
+      if (task.dueDate) lines.push(`${indent}  <attribute NAME="due" VALUE="${escapeXml(task.dueDate)}"/>`);
+      if (task.stage) lines.push(`${indent}  <attribute NAME="stage" VALUE="${task.stage}"/>`);
+      if (task.assignee) lines.push(`${indent}  <attribute NAME="assignee" VALUE="${escapeXml(task.assignee)}"/>`);
+      if (task.startDate) lines.push(`${indent}  <attribute NAME="start" VALUE="${task.startDate}"/>`);
+      if (task.durationDays !== undefined) lines.push(`${indent}  <attribute NAME="duration" VALUE="${task.durationDays}"/>`);
+      task.dependsOn?.forEach((id) => lines.push(`${indent}  <attribute NAME="dependsOn" VALUE="${escapeXml(id)}"/>`));
+    }
+    const sections = buildNoteSections(node);
+    if (sections.length > 0) {
+      lines.push(
+        `${indent}  <richcontent TYPE="NOTE"><html><head/><body>${noteToHtml(sections)}</body></html></richcontent>`
+      );
+    }
+    node.children.forEach((child) => lines.push(writeNode(child, depth + 1, false)));
+    lines.push(`${indent}</node>`);
+    return lines.join('\n');
+  };
+
+  return [
+    '<map version="1.0.1">',
+    `<!-- Exported from ${APP_NAME} -->`,
+    writeNode(root, 0, true),
+    '</map>',
+    '',
+  ].join('\n');
+}
+
+const readNoteSections = (note: Element): NoteSection[] => {
+  const sections: NoteSection[] = [];
+  const headings = ['Summary', 'Pros', 'Cons', 'Questions', 'Flashcard'];
+  let current: NoteSection | null = null;
+  const body = note.querySelector('body') ?? note;
+  Array.from(body.children).forEach((element) => {
+    const tag = element.tagName.toLowerCase();
+    const text = element.textContent?.trim() ?? '';
+    if (/^h[1-6]$/.test(tag) && headings.includes(text)) {
+      current = { heading: text as NoteSection['heading'], items: [] };
+      sections.push(current);
+    } else if (tag === 'ul' || tag === 'ol') {
+      const items = Array.from(element.querySelectorAll('li')).map((li) => li.textContent?.trim() ?? '');
+      if (current) current.items.push(...items);
+    } else if (text) {
+      if (!current) {
+        // A plain note from another tool becomes the node's summary
+        current = { heading: 'Summary', items: [] };
+        sections.push(current);
+      }
+      current.items.push(text);
+    }
+  });
+  return sections;
+};
+
+/**
+ * Parses a FreeMind/Freeplane .mm file. The central node becomes a top-level node,
+ * unless it's the wrapper our own exporter added around several top-level nodes.
+ */
+export function freeMindToMindMap(xml: string): MindMapNode[] {
+  const doc = parseXmlDocument(xml, 'FreeMind (.mm) XML');
+  const rootElement = doc.querySelector('map > node');
+  if (!rootElement) {
+    throw new Error('The FreeMind file has no central node.');
+  }
+  const seenIds = new Set<string>();
+
+  const readNode = (element: Element, parentId: string | null, depth: number): MindMapNode => {
+    const rawId = (element.getAttribute('ID') ?? '').replace(/^ID_/, '').replace(/_/g, '-');
+    const id = UUID_PATTERN.test(rawId) && !seenIds.has(rawId) ? rawId : uuidv4();
+    seenIds.add(id);
+    const richText = Array.from(element.children).find(
+      (child) => child.tagName === 'richcontent' && child.getAttribute('TYPE') === 'NODE'
+    );
+    const text = element.getAttribute('TEXT') ?? richText?.textContent?.trim() ?? '';
+
+    const node: MindMapNode = {
+      id,
+      text,
+      children: [],
+      parentId,
+      isExpanded: element.getAttribute('FOLDED') !== 'true',
+      type: nodeTypeForDepth(depth),
+      tags: [],
+      metadata: {},
+    };
+
+    const attributes = new Map<string, string[]>();
+    Array.from(element.children).forEach((child) => {
+      if (child.tagName !== 'attribute') return;
+      const name = child.getAttribute('NAME') ?? '';
+      attributes.set(name, [...(attributes.get(name) ?? []), child.getAttribute('VALUE') ?? '']);
+    });
+    node.tags = attributes.get('tag') ?? [];
+    const status = attributes.get('status')?.[0];
+    if (status === 'task' || status === 'flashcard' || status === 'summary') node.status = status;
+    if (attributes.has('task') || attributes.has('completed')) {
+      node.metadata!.task = {
+        description: attributes.get('task')?.[0] ?? `Complete "${text}"`,
+        completed: attributes.get('completed')?.[0] === 'true',
+        dueDate: attributes.get('due')?.[0] || undefined,
+      };
+      const stage = attributes.get('stage')?.[0];
+      const assignee = attributes.get('assignee')?.[0];
+      if (TASK_STAGES.includes(stage as TaskStage)) node.metadata!.task.stage = stage as TaskStage;
+      if (assignee) node.metadata!.task.assignee = assignee;
+      const start = attributes.get('start')?.[0];
+      const duration = Number(attributes.get('duration')?.[0] ?? NaN);
+      if (isDateKey(start)) node.metadata!.task.startDate = start;
+      if (Number.isInteger(duration) && duration >= 0) node.metadata!.task.durationDays = duration;
+      if (attributes.has('dependsOn')) node.metadata!.task.dependsOn = attributes.get('dependsOn');
+    }
+
+    const note = Array.from(element.children).find(
+      (child) => child.tagName === 'richcontent' && child.getAttribute('TYPE') === 'NOTE'
+    );
+    if (note) applyNoteSections(node, readNoteSections(note));
+
+    node.children = Array.from(element.children)
+      .filter((child) => child.tagName === 'node')
+      .map((child) => readNode(child, id, depth + 1));
+    return node;
+  };
+
+  const isWrapper = Array.from(rootElement.children).some(
+    (child) => child.tagName === 'attribute' && child.getAttribute('NAME') === WRAPPER_ATTRIBUTE
+  );
+  if (isWrapper) {
+    return Array.from(rootElement.children)
+      .filter((child) => child.tagName === 'node')
+      .map((child) => readNode(child, null, 0));
+  }
+  return [readNode(rootElement, null, 0)];
+}
+
+// --- XMind ---
+
+interface XMindTopic {
+  id: string;
+  class: 'topic';
+  title: string;
+  structureClass?: string;
+  branch?: 'folded';
+  labels?: string[];
+  markers?: { markerId: string }[];
+  notes?: { plain: { content: string } };
+  style: { id: string; properties: Record<string, string> };
+  children?: { attached: XMindTopic[] };
+}
+
+const nodeToXMindTopic = (node: MindMapNode, type: MindMapNodeType = node.type): XMindTopic => {
+  const theme = NODE_TYPE_THEME[type];
+  const topic: XMindTopic = {
+    id: node.id,
+    class: 'topic',
+    title: node.text,
+    style: {
+      id: uuidv4(),
+      properties: {
+        'svg:fill': theme.background,
+        'fo:color': theme.text,
+        'fo:font-size': `${theme.fontSize}pt`,
+        'fo:font-weight': theme.bold ? 'bold' : 'normal',
+      },
+    },
+  };
+  if (!node.isExpanded && node.children.length > 0) topic.branch = 'folded';
+  if (node.tags.length > 0) topic.labels = node.tags;
+  const task = node.metadata?.task;
+  if (task) topic.markers = [{ markerId: task.completed ? 'task-done' : 'task-start' }];
+
+  const noteLines = buildNoteSections(node).flatMap(({ heading, items }) => [
+    `${heading}:`,
+    ...items.map((item) => (heading === 'Summary' ? item : `- ${item}`)),
+    '',
+  ]);
+  if (task) {
+    noteLines.push(`Task: ${task.description}${task.dueDate ? ` (due ${task.dueDate})` : ''}`);
+  }
+  if (noteLines.length > 0) topic.notes = { plain: { content: noteLines.join('\n').trim() } };
+
+  if (node.children.length > 0) {
+    topic.children = { attached: node.children.map((child) => nodeToXMindTopic(child)) };
+  }
+  return topic;
+};
+
+/**
+ * Builds an XMind workbook (the zip-based format used by XMind 2020 and later)
+ * with a single sheet holding the map.
+ */
+export function mindMapToXMind(nodes: MindMapNode[], title: string = 'Mind Map'): Blob {
+  const { root } = wrapRoots(nodes, title);
+  const rootTopic = nodeToXMindTopic(root, MindMapNodeType.ROOT);
+  rootTopic.structureClass = 'org.xmind.ui.map.unbalanced';
+
+  const content = [
+    {
+      id: uuidv4(),
+      class: 'sheet',
+      title,
+      rootTopic,
+    },
+  ];
+  const metadata = { creator: { name: APP_NAME, version: '1.0' } };
+  const manifest = { 'file-entries': { 'content.json': {}, 'metadata.json': {} } };
+
+  return createZip(
+    [
+      { name: 'content.json', data: JSON.stringify(content) },
+      { name: 'metadata.json', data: JSON.stringify(metadata) },
+      { name: 'manifest.json', data: JSON.stringify(manifest) },
+    ],
+    'application/vnd.xmind.workbook'
+  );
+}
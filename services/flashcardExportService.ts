@@ -0,0 +1,65 @@
+import { MindMapNode } from '../types';
+import { flattenTree } from '../utils/treeUtils';
+
+// Deck exports for flashcard nodes: Anki's tab-separated import format and plain CSV
+
+export interface ExportableFlashcard {
+  nodeId: string;
+  front: string;
+  back: string;
+  path: string[]; // Ancestor titles, root first
+  tags: string[];
+}
+
+export function collectFlashcards(nodes: MindMapNode[]): ExportableFlashcard[] {
+  return flattenTree(nodes)
+    .filter(({ node }) => node.status === 'flashcard' && node.metadata?.flashcard)
+    .map(({ node, ancestors }) => ({
+      nodeId: node.id,
+      front: node.metadata!.flashcard!.front,
+      back: node.metadata!.flashcard!.back,
+      path: ancestors.map((ancestor) => ancestor.text),
+      tags: node.tags,
+    }));
+}
+
+// Anki tags can't contain spaces; `::` separates levels of a hierarchical tag
+const toAnkiTag = (text: string): string => text.trim().replace(/\s+/g, '_').replace(/:{2,}/g, ':');
+
+const toAnkiField = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\t/g, ' ')
+    .replace(/\r?\n/g, '<br>');
+
+/**
+ * Builds an Anki "Notes in Plain Text" file with file headers, so Anki picks the
+ * deck, note type and tags column without manual mapping.
+ */
+export function flashcardsToAnki(cards: ExportableFlashcard[], deckName: string): string {
+  const lines = [
+    '#separator:tab',
+    '#html:true',
+    '#notetype:Basic',
+    `#deck:${deckName.replace(/[\r\n]/g, ' ')}`,
+    '#columns:Front\tBack\tTags',
+    '#tags column:3',
+  ];
+  cards.forEach((card) => {
+    const pathTag = card.path.length > 0 ? [card.path.map(toAnkiTag).filter(Boolean).join('::')] : [];
+    const tags = [...pathTag, ...card.tags.map(toAnkiTag)].filter(Boolean);
+    lines.push([toAnkiField(card.front), toAnkiField(card.back), tags.join(' ')].join('\t'));
+  });
+  return lines.join('\n') + '\n';
+}
+
+const toCsvField = (text: string): string => (/[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text);
+
+// Front/back/tags CSV for Quizlet-style tools; tags are the ancestor path followed by node tags
+export function flashcardsToCsv(cards: ExportableFlashcard[]): string {
+  const rows = [['Front', 'Back', 'Tags']];
+  cards.forEach((card) => rows.push([card.front, card.back, [...card.path, ...card.tags].join('; ')]));
+  return rows.map((row) => row.map(toCsvField).join(',')).join('\r\n') + '\r\n';
+}
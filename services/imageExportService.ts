@@ -0,0 +1,222 @@
+import { NODE_TYPE_THEME } from '../constants';
+import { ImageExportOptions, MindMapNode, MindMapNodeType } from '../types';
+import { escapeXml } from '../utils/xmlUtils';
+
+// Renders the map as a standalone SVG (left-to-right tree) and rasterises it to PNG
+
+const FONT_FAMILY = 'ui-sans-serif, system-ui, -apple-system, "Segoe UI", Roboto, Helvetica, Arial, sans-serif';
+const MAX_TEXT_WIDTH = 240;
+const PADDING_X = 14;
+const PADDING_Y = 8;
+const LINE_HEIGHT = 1.3;
+const COLUMN_GAP = 60;
+const ROW_GAP = 14;
+const MARGIN = 32;
+const CANVAS_BACKGROUND = '#f3f4f6'; // gray-100, as on the canvas
+const EDGE_COLOR = '#9ca3af'; // gray-400, as the canvas connectors
+
+const CORNER_RADIUS: Record<MindMapNodeType, number> = {
+  [MindMapNodeType.ROOT]: 999, // rounded-full, clamped to half the height below
+  [MindMapNodeType.MAIN_TOPIC]: 12,
+  [MindMapNodeType.SUB_TOPIC]: 8,
+  [MindMapNodeType.DETAIL]: 6,
+};
+
+interface LaidOutNode {
+  node: MindMapNode;
+  lines: string[];
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  fontSize: number;
+  isCollapsed: boolean;
+  children: LaidOutNode[];
+}
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+const measureText = (text: string, fontSize: number, bold: boolean): number => {
+  if (!measureContext) {
+    measureContext = document.createElement('canvas').getContext('2d');
+  }
+  if (!measureContext) return text.length * fontSize * 0.6; // Rough fallback
+  measureContext.font = `${bold ? 'bold ' : ''}${fontSize}px ${FONT_FAMILY}`;
+  return measureContext.measureText(text).width;
+};
+
+const wrapText = (text: string, fontSize: number, bold: boolean): string[] => {
+  const lines: string[] = [];
+  text.split('\n').forEach((paragraph) => {
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach((word) => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && measureText(candidate, fontSize, bold) > MAX_TEXT_WIDTH) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    });
+    lines.push(line);
+  });
+  return lines;
+};
+
+// Picks the trees to draw for the requested scope
+const selectRoots = (nodes: MindMapNode[], options: ImageExportOptions, selectedNodeId: string | null): MindMapNode[] => {
+  if (options.scope !== 'selected') return nodes;
+  const find = (list: MindMapNode[]): MindMapNode | undefined => {
+    for (const node of list) {
+      if (node.id === selectedNodeId) return node;
+      const found = find(node.children);
+      if (found) return found;
+    }
+    return undefined;
+  };
+  const selected = selectedNodeId ? find(nodes) : undefined;
+  if (!selected) throw new Error('Select a node to export its subtree.');
+  return [selected];
+};
+
+const layoutTree = (roots: MindMapNode[], onlyExpanded: boolean): { trees: LaidOutNode[]; width: number; height: number } => {
+  const columnWidths: number[] = [];
+
+  const measure = (node: MindMapNode, depth: number): LaidOutNode => {
+    const theme = NODE_TYPE_THEME[node.type];
+    const lines = wrapText(node.text || ' ', theme.fontSize, theme.bold);
+    const textWidth = Math.max(...lines.map((line) => measureText(line, theme.fontSize, theme.bold)));
+    const width = Math.ceil(textWidth + PADDING_X * 2);
+    const height = Math.ceil(lines.length * theme.fontSize * LINE_HEIGHT + PADDING_Y * 2);
+    columnWidths[depth] = Math.max(columnWidths[depth] ?? 0, width);
+    const isCollapsed = onlyExpanded && !node.isExpanded && node.children.length > 0;
+    return {
+      node,
+      lines,
+      x: 0,
+      y: 0,
+      width,
+      height,
+      fontSize: theme.fontSize,
+      isCollapsed,
+      children: isCollapsed ? [] : node.children.map((child) => measure(child, depth + 1)),
+    };
+  };
+
+  const trees = roots.map((root) => measure(root, 0));
+  const columnX: number[] = [];
+  columnWidths.reduce((x, width, depth) => {
+    columnX[depth] = x;
+    return x + width + COLUMN_GAP;
+  }, MARGIN);
+
+  // Leaves stack top to bottom; parents centre on their children
+  let nextY = MARGIN;
+  const place = (laid: LaidOutNode, depth: number) => {
+    laid.x = columnX[depth];
+    if (laid.children.length === 0) {
+      laid.y = nextY;
+      nextY += laid.height + ROW_GAP;
+      return;
+    }
+    laid.children.forEach((child) => place(child, depth + 1));
+    const first = laid.children[0];
+    const last = laid.children[laid.children.length - 1];
+    const centre = (first.y + first.height / 2 + last.y + last.height / 2) / 2;
+    laid.y = Math.max(centre - laid.height / 2, 0);
+    nextY = Math.max(nextY, laid.y + laid.height + ROW_GAP);
+  };
+  trees.forEach((tree) => {
+    place(tree, 0);
+    nextY += ROW_GAP * 2; // Extra space between separate top-level trees
+  });
+
+  const width = columnWidths.reduce((total, w) => total + w + COLUMN_GAP, MARGIN * 2 - COLUMN_GAP);
+  const height = nextY - ROW_GAP * 3 + MARGIN;
+  return { trees, width: Math.ceil(width), height: Math.ceil(Math.max(height, MARGIN * 2)) };
+};
+
+const renderNode = (laid: LaidOutNode, parts: string[]) => {
+  const theme = NODE_TYPE_THEME[laid.node.type];
+  laid.children.forEach((child) => {
+    const startX = laid.x + laid.width;
+    const startY = laid.y + laid.height / 2;
+    const endX = child.x;
+    const endY = child.y + child.height / 2;
+    const midX = (startX + endX) / 2;
+    parts.push(
+      `<path d="M${startX},${startY} C${midX},${startY} ${midX},${endY} ${endX},${endY}" fill="none" stroke="${EDGE_COLOR}" stroke-width="1.5"/>`
+    );
+  });
+
+  const radius = Math.min(CORNER_RADIUS[laid.node.type], laid.height / 2);
+  parts.push(
+    `<g><rect x="${laid.x}" y="${laid.y}" width="${laid.width}" height="${laid.height}" rx="${radius}" ry="${radius}" fill="${theme.background}"/>`
+  );
+  const textX = laid.x + laid.width / 2;
+  laid.lines.forEach((line, index) => {
+    const baseline = laid.y + PADDING_Y + laid.fontSize * (LINE_HEIGHT * index + 1);
+    parts.push(
+      `<text x="${textX}" y="${baseline}" text-anchor="middle" font-family="${escapeXml(FONT_FAMILY)}" font-size="${laid.fontSize}"${
+        theme.bold ? ' font-weight="bold"' : ''
+      } fill="${theme.text}">${escapeXml(line)}</text>`
+    );
+  });
+  if (laid.isCollapsed) {
+    // Mirrors the "+" expand button shown on collapsed nodes
+    const cx = laid.x + laid.width + 10;
+    const cy = laid.y + laid.height / 2;
+    parts.push(
+      `<circle cx="${cx}" cy="${cy}" r="8" fill="#6b7280"/><text x="${cx}" y="${cy + 4}" text-anchor="middle" font-family="${escapeXml(FONT_FAMILY)}" font-size="12" fill="#ffffff">+</text>`
+    );
+  }
+  parts.push('</g>');
+  laid.children.forEach((child) => renderNode(child, parts));
+};
+
+export function mindMapToSvg(
+  nodes: MindMapNode[],
+  options: ImageExportOptions,
+  selectedNodeId: string | null = null
+): { svg: string; width: number; height: number } {
+  const roots = selectRoots(nodes, options, selectedNodeId);
+  const { trees, width, height } = layoutTree(roots, options.scope === 'expanded');
+  const parts: string[] = [];
+  trees.forEach((tree) => renderNode(tree, parts));
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<rect width="100%" height="100%" fill="${CANVAS_BACKGROUND}"/>`,
+    ...parts,
+    '</svg>',
+  ].join('\n');
+  return { svg, width, height };
+}
+
+export async function mindMapToPng(
+  nodes: MindMapNode[],
+  options: ImageExportOptions,
+  selectedNodeId: string | null = null
+): Promise<Blob> {
+  const { svg, width, height } = mindMapToSvg(nodes, options, selectedNodeId);
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+  try {
+    const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error('Failed to render the map image.'));
+      img.src = url;
+    });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * options.scale);
+    canvas.height = Math.round(height * options.scale);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas rendering is not available in this browser.');
+    context.scale(options.scale, options.scale);
+    context.drawImage(image, 0, 0, width, height);
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode PNG.'))), 'image/png');
+    });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
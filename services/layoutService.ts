@@ -0,0 +1,322 @@
+import { CANVAS_LAYOUT_KEY } from '../constants';
+import { CanvasLayout, MindMapNode } from '../types';
+
+// Positions nodes for the graphical canvas layouts and draws curved edges and cross-links between them
+
+export type GraphLayout = Exclude<CanvasLayout, 'outline'>;
+
+export interface NodeSize {
+  width: number;
+  height: number;
+}
+
+export interface PositionedNode {
+  node: MindMapNode;
+  x: number; // Top-left corner
+  y: number;
+  width: number;
+  height: number;
+  depth: number;
+}
+
+export interface LayoutEdge {
+  fromId: string;
+  toId: string;
+  path: string; // SVG path data
+}
+
+export interface NodeBox extends NodeSize {
+  x: number; // Top-left corner
+  y: number;
+}
+
+export interface CrossLinkGeometry {
+  path: string; // SVG path data
+  labelX: number; // Midpoint of the curve
+  labelY: number;
+}
+
+export interface MapLayout {
+  nodes: PositionedNode[];
+  edges: LayoutEdge[];
+  width: number;
+  height: number;
+}
+
+export const CANVAS_LAYOUT_LABELS: Record<CanvasLayout, string> = {
+  balanced: 'Left-right balanced',
+  'right-tree': 'Right tree',
+  radial: 'Radial',
+  'org-chart': 'Org chart',
+  outline: 'Outline',
+};
+
+export function getCanvasLayout(): CanvasLayout {
+  const stored = localStorage.getItem(CANVAS_LAYOUT_KEY);
+  return stored && stored in CANVAS_LAYOUT_LABELS ? (stored as CanvasLayout) : 'balanced';
+}
+
+export function saveCanvasLayout(layout: CanvasLayout): void {
+  localStorage.setItem(CANVAS_LAYOUT_KEY, layout);
+}
+
+const LEVEL_GAP = 70; // Between depths along the layout's main axis
+const SIBLING_GAP = 16; // Between neighbouring nodes at the same depth
+const TREE_GAP = 48; // Between separate top-level trees
+const RING_GAP = 40; // Between rings of the radial layout
+const MARGIN = 40;
+
+interface LayoutTree {
+  node: MindMapNode;
+  size: NodeSize;
+  depth: number;
+  children: LayoutTree[];
+  x: number;
+  y: number;
+}
+
+type Axis = 'x' | 'y';
+const extent = (tree: LayoutTree, axis: Axis) => (axis === 'x' ? tree.size.width : tree.size.height);
+const descendants = (tree: LayoutTree): LayoutTree[] => [tree, ...tree.children.flatMap(descendants)];
+const centreOf = (tree: LayoutTree) => ({ x: tree.x + tree.size.width / 2, y: tree.y + tree.size.height / 2 });
+const leafCount = (tree: LayoutTree): number =>
+  tree.children.length === 0 ? 1 : tree.children.reduce((total, child) => total + leafCount(child), 0);
+
+const shift = (tree: LayoutTree, axis: Axis, delta: number) => descendants(tree).forEach((t) => (t[axis] += delta));
+
+/**
+ * Stacks trees along `axis` (the cross axis of the layout): leaves follow each other, parents
+ * centre on their children, and a per-depth contour keeps nodes at the same depth from overlapping.
+ * Returns the far edge of the stack.
+ */
+const stackTrees = (trees: LayoutTree[], axis: Axis, start: number): number => {
+  let contour: number[] = [];
+  let floor = start; // Where depths not reached yet begin
+  const next = (depth: number) => contour[depth] ?? floor;
+  const record = (tree: LayoutTree) =>
+    descendants(tree).forEach((t) => (contour[t.depth] = Math.max(next(t.depth), t[axis] + extent(t, axis) + SIBLING_GAP)));
+
+  const place = (tree: LayoutTree) => {
+    if (tree.children.length === 0) {
+      tree[axis] = next(tree.depth);
+    } else {
+      tree.children.forEach(place);
+      const first = tree.children[0];
+      const last = tree.children[tree.children.length - 1];
+      tree[axis] = (first[axis] + last[axis] + extent(last, axis)) / 2 - extent(tree, axis) / 2;
+      const overlap = next(tree.depth) - tree[axis];
+      if (overlap > 0) shift(tree, axis, overlap);
+    }
+    record(tree);
+  };
+
+  trees.forEach((tree, index) => {
+    if (index > 0) {
+      // Each top-level tree starts past everything drawn so far
+      floor = Math.max(floor, ...contour.filter((value) => value !== undefined)) + TREE_GAP - SIBLING_GAP;
+      contour = [];
+    }
+    place(tree);
+  });
+  const ends = trees.flatMap(descendants).map((t) => t[axis] + extent(t, axis));
+  return ends.length > 0 ? Math.max(...ends) : start;
+};
+
+// Places depths in columns (x) or rows (y), each as wide as its widest node; dir -1 grows leftwards/upwards
+const placeLevels = (trees: LayoutTree[], axis: Axis, origin: number, dir: 1 | -1) => {
+  const all = trees.flatMap(descendants);
+  const minDepth = Math.min(...all.map((t) => t.depth));
+  const levelSizes: number[] = [];
+  all.forEach((t) => (levelSizes[t.depth - minDepth] = Math.max(levelSizes[t.depth - minDepth] ?? 0, extent(t, axis))));
+  const levelStarts: number[] = [];
+  levelSizes.reduce((offset, size, level) => {
+    levelStarts[level] = offset;
+    return offset + size + LEVEL_GAP;
+  }, 0);
+  all.forEach((t) => {
+    const level = t.depth - minDepth;
+    // Mirrored levels align nodes on the edge facing the parent
+    t[axis] = dir === 1 ? origin + levelStarts[level] : origin - levelStarts[level] - extent(t, axis);
+  });
+};
+
+const layoutRightTree = (trees: LayoutTree[]) => {
+  stackTrees(trees, 'y', 0);
+  placeLevels(trees, 'x', 0, 1);
+};
+
+const layoutOrgChart = (trees: LayoutTree[]) => {
+  stackTrees(trees, 'x', 0);
+  placeLevels(trees, 'y', 0, 1);
+};
+
+// Each root sits in the middle, with its branches split between the right and left sides by size
+const layoutBalanced = (trees: LayoutTree[]) => {
+  let top = 0;
+  trees.forEach((root) => {
+    const total = leafCount(root);
+    let seen = 0;
+    const right: LayoutTree[] = [];
+    const left: LayoutTree[] = [];
+    root.children.forEach((child) => {
+      (seen < total / 2 ? right : left).push(child);
+      seen += leafCount(child);
+    });
+
+    const sides = [
+      { branches: right, dir: 1 as const, origin: root.size.width + LEVEL_GAP },
+      { branches: left, dir: -1 as const, origin: -LEVEL_GAP },
+    ].filter((side) => side.branches.length > 0);
+    const heights = sides.map(({ branches, dir, origin }) => {
+      placeLevels(branches, 'x', origin, dir);
+      return stackTrees(branches, 'y', 0);
+    });
+    const height = Math.max(root.size.height, ...heights);
+    root.x = 0;
+    root.y = top + (height - root.size.height) / 2;
+    sides.forEach(({ branches }, index) => branches.forEach((branch) => shift(branch, 'y', top + (height - heights[index]) / 2)));
+    top += height + TREE_GAP;
+  });
+};
+
+// Roots in the centre; each branch gets a slice of the circle proportional to its leaves
+const layoutRadial = (trees: LayoutTree[]) => {
+  let left = 0;
+  trees.forEach((root) => {
+    const all = descendants(root);
+    const maxDepth = Math.max(...all.map((t) => t.depth - root.depth));
+    const ringSize: number[] = [];
+    const ringLength: number[] = [];
+    all.forEach((t) => {
+      const ring = t.depth - root.depth;
+      const diagonal = Math.hypot(t.size.width, t.size.height);
+      ringSize[ring] = Math.max(ringSize[ring] ?? 0, diagonal);
+      ringLength[ring] = (ringLength[ring] ?? 0) + diagonal;
+    });
+    const radii = [0];
+    for (let ring = 1; ring <= maxDepth; ring++) {
+      const spaced = radii[ring - 1] + ringSize[ring - 1] / 2 + ringSize[ring] / 2 + RING_GAP;
+      radii[ring] = Math.max(spaced, ringLength[ring] / (2 * Math.PI)); // Big rings need room around the circle
+    }
+
+    const place = (tree: LayoutTree, from: number, to: number) => {
+      const ring = tree.depth - root.depth;
+      const angle = (from + to) / 2;
+      tree.x = radii[ring] * Math.cos(angle) - tree.size.width / 2;
+      tree.y = radii[ring] * Math.sin(angle) - tree.size.height / 2;
+      const leaves = leafCount(tree);
+      let start = from;
+      tree.children.forEach((child) => {
+        const span = ((to - from) * leafCount(child)) / leaves;
+        place(child, start, start + span);
+        start += span;
+      });
+    };
+    place(root, -Math.PI / 2, (3 * Math.PI) / 2); // First branch at the top, going clockwise
+
+    const minX = Math.min(...all.map((t) => t.x));
+    shift(root, 'x', left - minX);
+    left = Math.max(...all.map((t) => t.x + t.size.width)) + TREE_GAP;
+  });
+};
+
+const LAYOUTS: Record<GraphLayout, (trees: LayoutTree[]) => void> = {
+  'right-tree': layoutRightTree,
+  balanced: layoutBalanced,
+  radial: layoutRadial,
+  'org-chart': layoutOrgChart,
+};
+
+// Curved edge between facing sides of two nodes: top/bottom for org charts, left/right otherwise
+const edgePath = (parent: LayoutTree, child: LayoutTree, layout: GraphLayout): string => {
+  const p = centreOf(parent);
+  const c = centreOf(child);
+  if (layout === 'org-chart') {
+    const from = { x: p.x, y: parent.y + parent.size.height };
+    const to = { x: c.x, y: child.y };
+    const bend = (to.y - from.y) / 2;
+    return `M ${from.x} ${from.y} C ${from.x} ${from.y + bend}, ${to.x} ${to.y - bend}, ${to.x} ${to.y}`;
+  }
+  if (layout === 'radial') {
+    const bend = (c.x - p.x) / 2;
+    return `M ${p.x} ${p.y} C ${p.x + bend} ${p.y}, ${c.x - bend} ${c.y}, ${c.x} ${c.y}`;
+  }
+  const rightwards = c.x >= p.x;
+  const from = { x: rightwards ? parent.x + parent.size.width : parent.x, y: p.y };
+  const to = { x: rightwards ? child.x : child.x + child.size.width, y: c.y };
+  const bend = (to.x - from.x) / 2;
+  return `M ${from.x} ${from.y} C ${from.x + bend} ${from.y}, ${to.x - bend} ${to.y}, ${to.x} ${to.y}`;
+};
+
+/**
+ * Lays out the visible part of the map: collapsed nodes hide their children and `hiddenIds`
+ * (e.g. branches outside a tag filter) are left out. `sizeOf` gives each node's rendered size.
+ */
+export function layoutMindMap(
+  roots: MindMapNode[],
+  layout: GraphLayout,
+  sizeOf: (node: MindMapNode) => NodeSize,
+  hiddenIds: Set<string> = new Set()
+): MapLayout {
+  const build = (node: MindMapNode, depth: number): LayoutTree => ({
+    node,
+    size: sizeOf(node),
+    depth,
+    children: node.isExpanded ? node.children.filter((child) => !hiddenIds.has(child.id)).map((child) => build(child, depth + 1)) : [],
+    x: 0,
+    y: 0,
+  });
+  const trees = roots.filter((root) => !hiddenIds.has(root.id)).map((root) => build(root, 0));
+  if (trees.length === 0) return { nodes: [], edges: [], width: 0, height: 0 };
+  LAYOUTS[layout](trees);
+
+  // Move everything into positive coordinates with a margin around the drawing
+  const all = trees.flatMap(descendants);
+  const minX = Math.min(...all.map((t) => t.x));
+  const minY = Math.min(...all.map((t) => t.y));
+  all.forEach((t) => {
+    t.x += MARGIN - minX;
+    t.y += MARGIN - minY;
+  });
+
+  return {
+    nodes: all.map((t) => ({ node: t.node, x: t.x, y: t.y, width: t.size.width, height: t.size.height, depth: t.depth })),
+    edges: all.flatMap((parent) =>
+      parent.children.map((child) => ({ fromId: parent.node.id, toId: child.node.id, path: edgePath(parent, child, layout) }))
+    ),
+    width: Math.max(...all.map((t) => t.x + t.size.width)) + MARGIN,
+    height: Math.max(...all.map((t) => t.y + t.size.height)) + MARGIN,
+  };
+}
+
+const CROSS_LINK_BOW = 0.2; // Sideways bend as a share of the link's length
+
+// Where the line from a box's centre towards `target` crosses the box's border
+const boxExit = (box: NodeBox, target: { x: number; y: number }) => {
+  const cx = box.x + box.width / 2;
+  const cy = box.y + box.height / 2;
+  const dx = target.x - cx;
+  const dy = target.y - cy;
+  const scale = Math.min(1, dx ? box.width / 2 / Math.abs(dx) : Infinity, dy ? box.height / 2 / Math.abs(dy) : Infinity);
+  return { x: cx + dx * scale, y: cy + dy * scale };
+};
+
+/**
+ * Curve for a cross-link between two nodes, from border to border. It bows to one side so it
+ * stands apart from the tree's own edges, and reversing the ends bows it the other way.
+ */
+export function crossLinkPath(from: NodeBox, to: NodeBox): CrossLinkGeometry {
+  const start = { x: from.x + from.width / 2, y: from.y + from.height / 2 };
+  const end = { x: to.x + to.width / 2, y: to.y + to.height / 2 };
+  const control = {
+    x: (start.x + end.x) / 2 - (end.y - start.y) * CROSS_LINK_BOW,
+    y: (start.y + end.y) / 2 + (end.x - start.x) * CROSS_LINK_BOW,
+  };
+  const a = boxExit(from, control);
+  const b = boxExit(to, control);
+  return {
+    path: `M ${a.x} ${a.y} Q ${control.x} ${control.y}, ${b.x} ${b.y}`,
+    labelX: (a.x + 2 * control.x + b.x) / 4,
+    labelY: (a.y + 2 * control.y + b.y) / 4,
+  };
+}
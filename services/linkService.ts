@@ -0,0 +1,68 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AICrossLinkSuggestionsOutput, CrossLinkSuggestion, MindMapLink, MindMapNode } from '../types';
+import { flattenTree } from '../utils/treeUtils';
+
+// Cross-links refer to nodes by id and are kept beside the tree rather than inside it
+
+export const createLink = (fromId: string, toId: string, label: string = '', directed: boolean = false): MindMapLink => ({
+  id: uuidv4(),
+  fromId,
+  toId,
+  label: label.trim(),
+  directed,
+});
+
+// The link joining two nodes, whichever way round it was drawn
+export const findLinkBetween = (links: MindMapLink[], aId: string, bId: string): MindMapLink | undefined =>
+  links.find((link) => (link.fromId === aId && link.toId === bId) || (link.fromId === bId && link.toId === aId));
+
+/**
+ * Links whose ends are both in the map. The others belong to deleted nodes and are kept
+ * (until the workspace prunes them) so undoing the deletion brings them back.
+ */
+export function liveLinks(links: MindMapLink[], nodes: MindMapNode[]): MindMapLink[] {
+  if (links.length === 0) return links;
+  const ids = new Set(flattenTree(nodes).map(({ node }) => node.id));
+  return links.filter((link) => ids.has(link.fromId) && ids.has(link.toId));
+}
+
+// Adds links, replacing any with the same id (e.g. when re-importing a file exported from this map)
+export function mergeLinks(links: MindMapLink[], added: MindMapLink[]): MindMapLink[] {
+  const addedIds = new Set(added.map((link) => link.id));
+  return [...links.filter((link) => !addedIds.has(link.id)), ...added];
+}
+
+// The links of one node for the editor, with the node at the other end
+export function linksOfNode(links: MindMapLink[], nodes: MindMapNode[], nodeId: string): { link: MindMapLink; other: MindMapNode }[] {
+  const nodesById = new Map(flattenTree(nodes).map(({ node }) => [node.id, node]));
+  return links.flatMap((link) => {
+    const otherId = link.fromId === nodeId ? link.toId : link.toId === nodeId ? link.fromId : null;
+    const other = otherId ? nodesById.get(otherId) : undefined;
+    return other ? [{ link, other }] : [];
+  });
+}
+
+/**
+ * Turns raw AI link proposals into reviewable suggestions: both ends must be nodes of the map,
+ * and self-links, parent-child pairs (already joined by the tree) and already linked pairs are dropped.
+ */
+export function toCrossLinkSuggestions(
+  output: AICrossLinkSuggestionsOutput,
+  nodes: MindMapNode[],
+  links: MindMapLink[]
+): CrossLinkSuggestion[] {
+  const nodesById = new Map(flattenTree(nodes).map(({ node }) => [node.id, node]));
+  const suggestions: CrossLinkSuggestion[] = [];
+  for (const { fromId, toId, label, directed } of output.links ?? []) {
+    const from = nodesById.get(fromId);
+    const to = nodesById.get(toId);
+    if (!from || !to || from.id === to.id || from.parentId === to.id || to.parentId === from.id) continue;
+    if (findLinkBetween([...links, ...suggestions], from.id, to.id)) continue;
+    suggestions.push({
+      ...createLink(from.id, to.id, typeof label === 'string' ? label : '', directed === true),
+      fromText: from.text,
+      toText: to.text,
+    });
+  }
+  return suggestions;
+}
@@ -0,0 +1,335 @@
+import { v4 as uuidv4 } from 'uuid';
+import { MapChange, MindMapNode } from '../types';
+import { flattenTree, nodeTypeForDepth, NodeWithAncestors } from '../utils/treeUtils';
+
+const RENAME_THRESHOLD = 0.6; // Text similarity (plus position bonuses) for treating a pair as one renamed node
+const SAME_PARENT_BONUS = 0.3;
+const SAME_PLACE_BONUS = 0.1;
+const MERGE_THRESHOLD = 0.6;
+
+const normalizeText = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const bigrams = (text: string): string[] => {
+  const result: string[] = [];
+  for (let i = 0; i < text.length - 1; i++) result.push(text.slice(i, i + 2));
+  return result;
+};
+
+// Sørensen–Dice coefficient over character bigrams, 0 (nothing shared) to 1 (identical)
+const textSimilarity = (a: string, b: string): number => {
+  const x = normalizeText(a);
+  const y = normalizeText(b);
+  if (x === y) return 1;
+  const xs = bigrams(x);
+  const ys = bigrams(y);
+  if (xs.length === 0 || ys.length === 0) return 0;
+  const counts = new Map<string, number>();
+  xs.forEach((gram) => counts.set(gram, (counts.get(gram) ?? 0) + 1));
+  let shared = 0;
+  for (const gram of ys) {
+    const count = counts.get(gram) ?? 0;
+    if (count > 0) {
+      shared++;
+      counts.set(gram, count - 1);
+    }
+  }
+  return (2 * shared) / (xs.length + ys.length);
+};
+
+const parentOf = (entry: NodeWithAncestors): MindMapNode | null => entry.ancestors[entry.ancestors.length - 1] ?? null;
+
+/**
+ * Matches a map proposed by the AI back to the current one: first by the ids the AI echoed back,
+ * then by identical text, then by similar text and position. Matched nodes keep their id, tags,
+ * status, metadata and expansion state; nodes that are truly new get fresh ids.
+ */
+export function reconcileProposedMap(current: MindMapNode[], proposed: MindMapNode[]): MindMapNode[] {
+  const oldEntries = flattenTree(current);
+  const newEntries = flattenTree(proposed);
+  const oldById = new Map(oldEntries.map((entry) => [entry.node.id, entry]));
+  const matchOf = new Map<MindMapNode, string>(); // Proposed node -> existing id (AI id hints may repeat, so keyed by node)
+  const matchedOld = new Set<string>();
+
+  const pair = (node: MindMapNode, oldId: string) => {
+    matchOf.set(node, oldId);
+    matchedOld.add(oldId);
+  };
+
+  // Existing id the proposed parent corresponds to (null = top level, undefined = an unmatched new node)
+  const mappedParentId = (entry: NodeWithAncestors): string | null | undefined => {
+    const parent = parentOf(entry);
+    return parent ? matchOf.get(parent) : null;
+  };
+
+  // 1. Ids the AI echoed back, when they name an existing node not already claimed
+  for (const entry of newEntries) {
+    if (oldById.has(entry.node.id) && !matchedOld.has(entry.node.id)) pair(entry.node, entry.node.id);
+  }
+
+  // 2. Identical text, preferring a candidate under the same parent
+  for (const entry of newEntries) {
+    if (matchOf.has(entry.node)) continue;
+    const text = normalizeText(entry.node.text);
+    const candidates = oldEntries.filter((old) => !matchedOld.has(old.node.id) && normalizeText(old.node.text) === text);
+    if (candidates.length === 0) continue;
+    const newParentId = mappedParentId(entry);
+    const best = candidates.find((old) => (parentOf(old)?.id ?? null) === newParentId) ?? candidates[0];
+    pair(entry.node, best.node.id);
+  }
+
+  // 3. The most similar remaining pairs, with bonuses for keeping the same parent and place
+  const candidates: { node: MindMapNode; oldId: string; score: number }[] = [];
+  for (const entry of newEntries) {
+    if (matchOf.has(entry.node)) continue;
+    const newParentId = mappedParentId(entry);
+    const newIndex = (parentOf(entry)?.children ?? proposed).indexOf(entry.node);
+    for (const old of oldEntries) {
+      if (matchedOld.has(old.node.id)) continue;
+      const oldParent = parentOf(old);
+      const sameParent = (oldParent?.id ?? null) === newParentId;
+      const samePlace = sameParent && (oldParent?.children ?? current).indexOf(old.node) === newIndex;
+      const score =
+        textSimilarity(entry.node.text, old.node.text) +
+        (sameParent ? SAME_PARENT_BONUS : 0) +
+        (samePlace ? SAME_PLACE_BONUS : 0);
+      if (score >= RENAME_THRESHOLD) candidates.push({ node: entry.node, oldId: old.node.id, score });
+    }
+  }
+  candidates
+    .sort((a, b) => b.score - a.score)
+    .forEach(({ node, oldId }) => {
+      if (!matchOf.has(node) && !matchedOld.has(oldId)) pair(node, oldId);
+    });
+
+  const rebuild = (node: MindMapNode, parentId: string | null): MindMapNode => {
+    const oldId = matchOf.get(node);
+    const old = oldId ? oldById.get(oldId)!.node : null;
+    const id = old ? old.id : uuidv4();
+    const result: MindMapNode = { ...node, id, parentId, children: [] };
+    if (old) {
+      result.isExpanded = old.isExpanded;
+      result.tags = old.tags;
+      result.status = old.status;
+      // Work attached by the user wins over points the AI suggested
+      result.metadata = { ...node.metadata, ...old.metadata };
+    }
+    result.children = node.children.map((child) => rebuild(child, id));
+    return result;
+  };
+  return proposed.map((node) => rebuild(node, null));
+}
+
+/**
+ * Lists the structural changes between the current map and a reconciled proposal (see
+ * reconcileProposedMap), where kept nodes share ids. Unmatched existing nodes that closely
+ * resemble a kept node count as merged into it.
+ */
+export function diffMindMaps(current: MindMapNode[], proposed: MindMapNode[]): MapChange[] {
+  const oldEntries = flattenTree(current);
+  const newEntries = flattenTree(proposed);
+  const oldById = new Map(oldEntries.map((entry) => [entry.node.id, entry]));
+  const isKept = (node: MindMapNode) => oldById.has(node.id);
+  const keptIds = new Set(newEntries.filter((entry) => isKept(entry.node)).map((entry) => entry.node.id));
+
+  // Merges: an unmatched existing node that closely resembles a kept node was folded into it
+  const mergedInto = new Map<string, string>(); // Existing id -> existing id that absorbs it
+  for (const old of oldEntries) {
+    if (keptIds.has(old.node.id)) continue;
+    let best: { oldId: string; score: number } | null = null;
+    for (const entry of newEntries) {
+      if (!isKept(entry.node)) continue;
+      const score = Math.max(
+        textSimilarity(old.node.text, entry.node.text),
+        textSimilarity(old.node.text, oldById.get(entry.node.id)!.node.text)
+      );
+      if (score >= MERGE_THRESHOLD && (!best || score > best.score)) best = { oldId: entry.node.id, score };
+    }
+    // Never merge a node into one of its own descendants
+    if (best && !flattenTree([old.node]).some(({ node }) => node.id === best!.oldId)) {
+      mergedInto.set(old.node.id, best.oldId);
+    }
+  }
+
+  // The proposed previous sibling; its id exists once the changes are applied
+  const previousSiblingId = (entry: NodeWithAncestors): string | null => {
+    const siblings = parentOf(entry)?.children ?? proposed;
+    return siblings[siblings.indexOf(entry.node) - 1]?.id ?? null;
+  };
+
+  const changes: MapChange[] = [];
+  const addChangeIdOf = new Map<string, string>(); // Id of every new node -> its topmost 'added' change
+
+  // Added subtrees, reported at their topmost new node with only the new descendants attached
+  const newOnly = (node: MindMapNode): MindMapNode => ({
+    ...node,
+    children: node.children.filter((child) => !isKept(child)).map(newOnly),
+  });
+  for (const entry of newEntries) {
+    if (isKept(entry.node)) continue;
+    const parent = parentOf(entry);
+    if (parent && !isKept(parent)) {
+      addChangeIdOf.set(entry.node.id, addChangeIdOf.get(parent.id)!);
+      continue;
+    }
+    const id = `added:${entry.node.id}`;
+    addChangeIdOf.set(entry.node.id, id);
+    changes.push({
+      id,
+      kind: 'added',
+      nodeId: entry.node.id,
+      text: entry.node.text,
+      toParentId: parent?.id ?? null,
+      toParentText: parent?.text ?? null,
+      afterNodeId: previousSiblingId(entry),
+      subtree: newOnly(entry.node),
+    });
+  }
+
+  // Renames and moves of kept nodes
+  for (const entry of newEntries) {
+    if (!isKept(entry.node)) continue;
+    const old = oldById.get(entry.node.id)!;
+    if (old.node.text.trim() !== entry.node.text.trim()) {
+      changes.push({ id: `renamed:${old.node.id}`, kind: 'renamed', nodeId: old.node.id, text: old.node.text, newText: entry.node.text });
+    }
+    const parent = parentOf(entry);
+    const oldParent = parentOf(old);
+    if ((parent?.id ?? null) !== (oldParent?.id ?? null)) {
+      changes.push({
+        id: `moved:${old.node.id}`,
+        kind: 'moved',
+        nodeId: old.node.id,
+        text: old.node.text,
+        fromParentText: oldParent?.text ?? null,
+        toParentId: parent?.id ?? null,
+        toParentText: parent?.text ?? null,
+        afterNodeId: previousSiblingId(entry),
+        dependsOn: parent && !isKept(parent) ? addChangeIdOf.get(parent.id) : undefined,
+      });
+    }
+  }
+
+  // Merged and removed existing nodes (removals reported at the topmost removed node)
+  const removed = new Set<string>();
+  for (const old of oldEntries) {
+    if (keptIds.has(old.node.id)) continue;
+    const intoId = mergedInto.get(old.node.id);
+    if (intoId) {
+      changes.push({
+        id: `merged:${old.node.id}`,
+        kind: 'merged',
+        nodeId: old.node.id,
+        text: old.node.text,
+        intoNodeId: intoId,
+        intoText: oldById.get(intoId)!.node.text,
+      });
+      continue;
+    }
+    removed.add(old.node.id);
+    const parent = parentOf(old);
+    if (parent && removed.has(parent.id)) continue;
+    changes.push({ id: `removed:${old.node.id}`, kind: 'removed', nodeId: old.node.id, text: old.node.text });
+  }
+
+  return changes;
+}
+
+// Mutable position of a node inside a cloned tree
+const locate = (
+  nodes: MindMapNode[],
+  id: string
+): { node: MindMapNode; siblings: MindMapNode[]; index: number } | null => {
+  for (let index = 0; index < nodes.length; index++) {
+    if (nodes[index].id === id) return { node: nodes[index], siblings: nodes, index };
+    const found = locate(nodes[index].children, id);
+    if (found) return found;
+  }
+  return null;
+};
+
+const containsNode = (node: MindMapNode, id: string): boolean =>
+  node.id === id || node.children.some((child) => containsNode(child, id));
+
+/**
+ * Applies the accepted subset of `changes` to the current map and returns the new roots, leaving
+ * `current` untouched. Changes whose prerequisites were rejected are skipped, and nodes kept by a
+ * rejected move or merge are never lost with a removed ancestor.
+ */
+export function applyMapChanges(current: MindMapNode[], changes: MapChange[], acceptedIds: Set<string>): MindMapNode[] {
+  const roots: MindMapNode[] = JSON.parse(JSON.stringify(current)); // Deep copy for immutability
+  const accepted = changes.filter((change) => acceptedIds.has(change.id));
+  const ofKind = (kind: MapChange['kind']) => accepted.filter((change) => change.kind === kind);
+  const relocated = new Set<string>(); // Subtrees whose depth may have changed
+
+  const childrenOf = (parentId: string | null | undefined): MindMapNode[] | null => {
+    if (parentId === null || parentId === undefined) return roots;
+    return locate(roots, parentId)?.node.children ?? null;
+  };
+  // Places the node after its proposed previous sibling, or last when that sibling isn't there
+  const insertAfter = (siblings: MindMapNode[], node: MindMapNode, afterNodeId: string | null | undefined) => {
+    const afterIndex = afterNodeId ? siblings.findIndex((sibling) => sibling.id === afterNodeId) : -1;
+    siblings.splice(afterNodeId === null ? 0 : afterIndex === -1 ? siblings.length : afterIndex + 1, 0, node);
+    relocated.add(node.id);
+  };
+
+  for (const change of ofKind('added')) {
+    const siblings = childrenOf(change.toParentId);
+    if (siblings && change.subtree) insertAfter(siblings, JSON.parse(JSON.stringify(change.subtree)), change.afterNodeId);
+  }
+
+  for (const change of ofKind('renamed')) {
+    const target = locate(roots, change.nodeId);
+    if (target && change.newText !== undefined) target.node.text = change.newText;
+  }
+
+  for (const change of ofKind('moved')) {
+    const source = locate(roots, change.nodeId);
+    if (!source) continue;
+    if (change.toParentId && containsNode(source.node, change.toParentId)) continue;
+    const siblings = childrenOf(change.toParentId);
+    if (!siblings) continue; // Target was part of a rejected addition
+    source.siblings.splice(source.index, 1);
+    insertAfter(siblings, source.node, change.afterNodeId);
+  }
+
+  for (const change of ofKind('merged')) {
+    const source = locate(roots, change.nodeId);
+    const target = change.intoNodeId ? locate(roots, change.intoNodeId) : null;
+    if (!source || !target || containsNode(source.node, target.node.id)) continue;
+    source.siblings.splice(source.index, 1);
+    source.node.children.forEach((child) => relocated.add(child.id));
+    target.node.children.push(...source.node.children);
+    target.node.tags = [...new Set([...target.node.tags, ...source.node.tags])];
+    target.node.metadata = { ...source.node.metadata, ...target.node.metadata };
+  }
+
+  // Nodes that some other change keeps, whether or not that change was accepted
+  const keptIds = new Set(changes.filter((change) => change.kind === 'moved' || change.kind === 'merged').map((change) => change.nodeId));
+  for (const change of ofKind('removed')) {
+    const source = locate(roots, change.nodeId);
+    if (!source) continue;
+    const rescued: MindMapNode[] = [];
+    const collectKept = (node: MindMapNode) =>
+      node.children.forEach((child) => (keptIds.has(child.id) ? rescued.push(child) : collectKept(child)));
+    collectKept(source.node);
+    source.siblings.splice(source.index, 1, ...rescued);
+    rescued.forEach((node) => relocated.add(node.id));
+  }
+
+  // Refresh parent links everywhere and node types in subtrees that changed depth
+  const finalize = (nodes: MindMapNode[], parentId: string | null, depth: number, retype: boolean) =>
+    nodes.forEach((node) => {
+      const shouldRetype = retype || relocated.has(node.id);
+      node.parentId = parentId;
+      if (shouldRetype) node.type = nodeTypeForDepth(depth);
+      finalize(node.children, node.id, depth + 1, shouldRetype);
+    });
+  finalize(roots, null, 0, false);
+
+  return roots;
+}
@@ -0,0 +1,314 @@
+import { v4 as uuidv4 } from 'uuid';
+import { MAP_FILE_FORMAT, MAP_FILE_FORMAT_VERSION, TASK_STAGES } from '../constants';
+import { FlashcardSchedule, MindMapFile, MindMapImportResult, MindMapLink, MindMapNode, MindMapNodeType, TaskStage } from '../types';
+import { flattenTree, nodeTypeForDepth } from '../utils/treeUtils';
+import { isDateKey } from '../utils/dateUtils';
+import { findLinkBetween, liveLinks } from './linkService';
+
+// Each migration upgrades a file's node list from version N to N + 1.
+// Version 0 is the legacy export: a bare MindMapNode[] with no envelope.
+const MIGRATIONS: Record<number, (nodes: unknown[]) => unknown[]> = {
+  0: (nodes) => nodes,
+  1: (nodes) => nodes, // v2 added cross-links beside the nodes
+  2: (nodes) => nodes, // v3 added flashcard review schedules
+  3: (nodes) => nodes, // v4 added task board stages and assignees
+  4: (nodes) => nodes, // v5 added task start dates, durations and dependencies
+};
+
+const NODE_STATUSES: ReadonlyArray<NonNullable<MindMapNode['status']>> = ['task', 'flashcard', 'summary'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+export function serializeMindMapFile(nodes: MindMapNode[], links: MindMapLink[] = []): string {
+  const file: MindMapFile = {
+    format: MAP_FILE_FORMAT,
+    version: MAP_FILE_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    nodes,
+    links: liveLinks(links, nodes),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+const sanitizeSchedule = (raw: unknown): FlashcardSchedule | null => {
+  if (!isRecord(raw)) return null;
+  const { ease, interval, repetitions, dueDate, lastReviewed } = raw;
+  const isCount = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+  if (!isCount(ease) || !isCount(interval) || !isCount(repetitions)) return null;
+  if (!isDateKey(dueDate) || !isDateKey(lastReviewed)) return null;
+  return { ease, interval, repetitions, dueDate, lastReviewed };
+};
+
+const sanitizeMetadata = (
+  raw: unknown,
+  label: string,
+  warnings: string[]
+): MindMapNode['metadata'] | undefined => {
+  if (raw === undefined) return undefined;
+  if (!isRecord(raw)) {
+    warnings.push(`${label}: dropped metadata that was not an object.`);
+    return undefined;
+  }
+
+  const metadata: NonNullable<MindMapNode['metadata']> = {};
+  for (const key of ['pros', 'cons', 'questions'] as const) {
+    if (raw[key] === undefined) continue;
+    if (isStringArray(raw[key])) {
+      metadata[key] = raw[key] as string[];
+    } else {
+      warnings.push(`${label}: dropped invalid metadata.${key}.`);
+    }
+  }
+  if (raw.flashcard !== undefined) {
+    const flashcard = raw.flashcard;
+    if (isRecord(flashcard) && typeof flashcard.front === 'string' && typeof flashcard.back === 'string') {
+      metadata.flashcard = { front: flashcard.front, back: flashcard.back };
+      if (flashcard.schedule !== undefined) {
+        const schedule = sanitizeSchedule(flashcard.schedule);
+        if (schedule) metadata.flashcard.schedule = schedule;
+        else warnings.push(`${label}: reset an invalid flashcard schedule.`);
+      }
+    } else {
+      warnings.push(`${label}: dropped invalid metadata.flashcard.`);
+    }
+  }
+  if (raw.summary !== undefined) {
+    if (typeof raw.summary === 'string') {
+      metadata.summary = raw.summary;
+    } else {
+      warnings.push(`${label}: dropped invalid metadata.summary.`);
+    }
+  }
+  if (raw.task !== undefined) {
+    const task = raw.task;
+    if (isRecord(task) && typeof task.description === 'string') {
+      metadata.task = {
+        description: task.description,
+        completed: task.completed === true,
+        dueDate: isDateKey(task.dueDate) ? task.dueDate : undefined,
+      };
+      if (task.dueDate !== undefined && !metadata.task.dueDate) {
+        warnings.push(`${label}: dropped an invalid task due date.`);
+      }
+      if (TASK_STAGES.includes(task.stage as TaskStage)) metadata.task.stage = task.stage as TaskStage;
+      if (typeof task.assignee === 'string' && task.assignee.trim()) metadata.task.assignee = task.assignee.trim();
+      if (isDateKey(task.startDate)) metadata.task.startDate = task.startDate;
+      if (typeof task.durationDays === 'number' && Number.isFinite(task.durationDays) && task.durationDays >= 0) {
+        metadata.task.durationDays = Math.round(task.durationDays);
+      }
+      // Dependencies on tasks missing from the map are kept; the timeline ignores them
+      if (Array.isArray(task.dependsOn)) {
+        const dependsOn = task.dependsOn.filter((id): id is string => typeof id === 'string');
+        if (dependsOn.length > 0) metadata.task.dependsOn = dependsOn;
+      }
+    } else {
+      warnings.push(`${label}: dropped invalid metadata.task.`);
+    }
+  }
+  return metadata;
+};
+
+// Validates one node (and its subtree), repairing what can be repaired and skipping what can't
+const sanitizeNode = (
+  raw: unknown,
+  parentId: string | null,
+  depth: number,
+  path: string,
+  seenIds: Set<string>,
+  duplicateIds: Set<string>,
+  warnings: string[]
+): MindMapNode | null => {
+  if (!isRecord(raw)) {
+    warnings.push(`${path}: skipped an entry that is not a node object.`);
+    return null;
+  }
+
+  let text: string;
+  if (typeof raw.text === 'string') {
+    text = raw.text;
+  } else if (typeof raw.title === 'string') {
+    text = raw.title; // Tolerate AI-shaped nodes
+  } else {
+    warnings.push(`${path}: missing text, set to "Untitled".`);
+    text = 'Untitled';
+  }
+  const label = `${path} "${text.substring(0, 30)}"`;
+
+  let id = typeof raw.id === 'string' && raw.id.trim() ? raw.id : '';
+  if (!id) {
+    id = uuidv4();
+    warnings.push(`${label}: missing id, generated a new one.`);
+  } else if (seenIds.has(id)) {
+    duplicateIds.add(id);
+    id = uuidv4();
+    warnings.push(`${label}: duplicate id, generated a new one.`);
+  }
+  seenIds.add(id);
+
+  if (raw.parentId !== parentId) {
+    warnings.push(`${label}: parentId did not match its position in the tree and was corrected.`);
+  }
+
+  let type = raw.type as MindMapNodeType;
+  if (!Object.values(MindMapNodeType).includes(type)) {
+    type = nodeTypeForDepth(depth);
+    warnings.push(`${label}: invalid type, set to ${type}.`);
+  }
+
+  let tags: string[] = [];
+  if (raw.tags !== undefined) {
+    if (Array.isArray(raw.tags)) {
+      tags = raw.tags.filter((tag): tag is string => typeof tag === 'string');
+      if (tags.length !== raw.tags.length) warnings.push(`${label}: removed non-text tags.`);
+    } else {
+      warnings.push(`${label}: tags was not a list and was reset.`);
+    }
+  }
+
+  let status: MindMapNode['status'];
+  if (raw.status !== undefined) {
+    if (NODE_STATUSES.includes(raw.status as NonNullable<MindMapNode['status']>)) {
+      status = raw.status as MindMapNode['status'];
+    } else {
+      warnings.push(`${label}: dropped unknown status "${String(raw.status)}".`);
+    }
+  }
+
+  const rawChildren = raw.children === undefined ? [] : raw.children;
+  if (!Array.isArray(rawChildren)) {
+    warnings.push(`${label}: children was not a list and was dropped.`);
+  }
+  const children = (Array.isArray(rawChildren) ? rawChildren : [])
+    .map((child, index) => sanitizeNode(child, id, depth + 1, `${path}.${index + 1}`, seenIds, duplicateIds, warnings))
+    .filter((child): child is MindMapNode => child !== null);
+
+  const node: MindMapNode = {
+    id,
+    text,
+    children,
+    parentId,
+    isExpanded: typeof raw.isExpanded === 'boolean' ? raw.isExpanded : true,
+    type,
+    tags,
+  };
+  if (status) node.status = status;
+  const metadata = sanitizeMetadata(raw.metadata, label, warnings);
+  if (metadata) node.metadata = metadata;
+  return node;
+};
+
+// Once a duplicated id is replaced, a dependency on it could mean either node, so it is dropped
+const dropAmbiguousDependencies = (nodes: MindMapNode[], duplicateIds: Set<string>, warnings: string[]): void => {
+  for (const { node } of flattenTree(nodes)) {
+    const task = node.metadata?.task;
+    if (!task?.dependsOn?.some((id) => duplicateIds.has(id))) continue;
+    const dependsOn = task.dependsOn.filter((id) => !duplicateIds.has(id));
+    if (dependsOn.length > 0) task.dependsOn = dependsOn;
+    else delete task.dependsOn;
+    warnings.push(`"${node.text.substring(0, 30)}": dropped a dependency on a node id used more than once in the file.`);
+  }
+};
+
+// Keeps links between nodes that made it into the map, one per pair of nodes. Links to an id the
+// file uses more than once are dropped, since there's no telling which of those nodes they meant.
+const sanitizeLinks = (raw: unknown, nodes: MindMapNode[], duplicateIds: Set<string>, warnings: string[]): MindMapLink[] => {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    warnings.push('Links: not a list, dropped.');
+    return [];
+  }
+
+  const nodeIds = new Set(flattenTree(nodes).map(({ node }) => node.id));
+  const links: MindMapLink[] = [];
+  raw.forEach((entry, index) => {
+    const label = `Link ${index + 1}`;
+    if (!isRecord(entry) || typeof entry.fromId !== 'string' || typeof entry.toId !== 'string') {
+      warnings.push(`${label}: skipped an entry that is not a link between two node ids.`);
+      return;
+    }
+    if (duplicateIds.has(entry.fromId) || duplicateIds.has(entry.toId)) {
+      warnings.push(`${label}: skipped a link to a node id used more than once in the file.`);
+      return;
+    }
+    if (!nodeIds.has(entry.fromId) || !nodeIds.has(entry.toId) || entry.fromId === entry.toId) {
+      warnings.push(`${label}: skipped a link to a node that is not in the map.`);
+      return;
+    }
+    if (findLinkBetween(links, entry.fromId, entry.toId)) {
+      warnings.push(`${label}: skipped a second link between the same nodes.`);
+      return;
+    }
+    let id = typeof entry.id === 'string' && entry.id.trim() ? entry.id : '';
+    if (!id || links.some((link) => link.id === id)) {
+      id = uuidv4();
+      warnings.push(`${label}: missing or duplicate id, generated a new one.`);
+    }
+    links.push({
+      id,
+      fromId: entry.fromId,
+      toId: entry.toId,
+      label: typeof entry.label === 'string' ? entry.label : '',
+      directed: entry.directed === true,
+    });
+  });
+  return links;
+};
+
+/**
+ * Parses an exported map file (versioned envelope or legacy bare array),
+ * migrates it to the current format and validates every node.
+ * Throws when the file can't be used at all.
+ */
+export function parseMindMapFile(json: string): MindMapImportResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  let version: number;
+  let rawNodes: unknown;
+  let rawLinks: unknown;
+  if (Array.isArray(data)) {
+    version = 0;
+    rawNodes = data;
+  } else if (isRecord(data) && data.format === MAP_FILE_FORMAT) {
+    version = typeof data.version === 'number' ? data.version : 0;
+    rawNodes = data.nodes;
+    rawLinks = data.links;
+  } else {
+    throw new Error('The file is not an AI Mind Mapper export.');
+  }
+
+  if (version > MAP_FILE_FORMAT_VERSION) {
+    throw new Error(`This file was exported by a newer version (format v${version}). Please update the app to import it.`);
+  }
+  if (!Array.isArray(rawNodes)) {
+    throw new Error('The file does not contain a list of mind map nodes.');
+  }
+
+  let migrated: unknown[] = rawNodes;
+  for (let v = version; v < MAP_FILE_FORMAT_VERSION; v++) {
+    const migrate = MIGRATIONS[v];
+    if (!migrate) throw new Error(`No migration available from format v${v}.`);
+    migrated = migrate(migrated);
+  }
+
+  const warnings: string[] = [];
+  const seenIds = new Set<string>();
+  const duplicateIds = new Set<string>();
+  const nodes = migrated
+    .map((raw, index) => sanitizeNode(raw, null, 0, `Node ${index + 1}`, seenIds, duplicateIds, warnings))
+    .filter((node): node is MindMapNode => node !== null);
+
+  if (nodes.length === 0 && migrated.length > 0) {
+    throw new Error('None of the nodes in the file could be read.');
+  }
+  dropAmbiguousDependencies(nodes, duplicateIds, warnings);
+  return { nodes, links: sanitizeLinks(rawLinks, nodes, duplicateIds, warnings), warnings };
+}
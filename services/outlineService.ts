@@ -0,0 +1,299 @@
+import { v4 as uuidv4 } from 'uuid';
+import { TASK_STAGES } from '../constants';
+import { MindMapNode, TaskStage } from '../types';
+import { nodeTypeForDepth } from '../utils/treeUtils';
+import { escapeXml, parseXmlDocument } from '../utils/xmlUtils';
+import { isDateKey } from '../utils/dateUtils';
+
+// Node fields carried as outline attributes: `key:: value` lines in Markdown, `_key="value"` in OPML
+type OutlineAttributes = Partial<Record<OutlineAttributeKey, string>>;
+type OutlineAttributeKey =
+  | 'tags'
+  | 'status'
+  | 'complete'
+  | 'task'
+  | 'due'
+  | 'stage'
+  | 'assignee'
+  | 'start'
+  | 'duration'
+  | 'summary'
+  | 'front'
+  | 'back'
+  | 'pros'
+  | 'cons'
+  | 'questions';
+
+const ATTRIBUTE_KEYS: OutlineAttributeKey[] = [
+  'tags', 'status', 'complete', 'task', 'due', 'stage', 'assignee', 'start', 'duration', 'summary', 'front', 'back', 'pros', 'cons', 'questions',
+];
+
+// OPML readers commonly understand `_note` and `_complete`, so those keys keep their conventional names
+const OPML_ATTRIBUTE_NAMES: Record<OutlineAttributeKey, string> = {
+  tags: '_tags',
+  status: '_status',
+  complete: '_complete',
+  task: '_task',
+  due: '_due',
+  stage: '_stage',
+  assignee: '_assignee',
+  start: '_start',
+  duration: '_duration',
+  summary: '_note',
+  front: '_flashcardFront',
+  back: '_flashcardBack',
+  pros: '_pros',
+  cons: '_cons',
+  questions: '_questions',
+};
+
+const nodeToAttributes = (node: MindMapNode): OutlineAttributes => {
+  const attributes: OutlineAttributes = {};
+  const metadata = node.metadata ?? {};
+  if (node.tags.length > 0) attributes.tags = JSON.stringify(node.tags);
+  if (node.status) attributes.status = node.status;
+  if (metadata.task) {
+    attributes.complete = String(metadata.task.completed);
+    attributes.task = metadata.task.description;
+    if (metadata.task.dueDate) attributes.due = metadata.task.dueDate;
+    if (metadata.task.stage) attributes.stage = metadata.task.stage;
+    if (metadata.task.assignee) attributes.assignee = metadata.task.assignee;
+    // Dependencies refer to node ids, which outlines don't keep, so only the dates travel
+    if (metadata.task.startDate) attributes.start = metadata.task.startDate;
+    if (metadata.task.durationDays !== undefined) attributes.duration = String(metadata.task.durationDays);
+  }
+  if (metadata.summary) attributes.summary = metadata.summary;
+  if (metadata.flashcard) {
+    attributes.front = metadata.flashcard.front;
+    attributes.back = metadata.flashcard.back;
+  }
+  if (metadata.pros) attributes.pros = JSON.stringify(metadata.pros);
+  if (metadata.cons) attributes.cons = JSON.stringify(metadata.cons);
+  if (metadata.questions) attributes.questions = JSON.stringify(metadata.questions);
+  return attributes;
+};
+
+const parseStringList = (value: string | undefined): string[] | undefined => {
+  if (value === undefined) return undefined;
+  try {
+    const parsed = JSON.parse(value);
+    if (Array.isArray(parsed)) return parsed.map(String);
+  } catch {
+    // Hand-written outlines may use a plain comma-separated list
+  }
+  return value.split(',').map((item) => item.trim()).filter(Boolean);
+};
+
+const applyAttributes = (node: MindMapNode, attributes: OutlineAttributes): void => {
+  const metadata: NonNullable<MindMapNode['metadata']> = {};
+  node.tags = parseStringList(attributes.tags) ?? [];
+  if (attributes.status === 'task' || attributes.status === 'flashcard' || attributes.status === 'summary') {
+    node.status = attributes.status;
+  }
+  if (attributes.task !== undefined || attributes.complete !== undefined || attributes.due !== undefined) {
+    metadata.task = {
+      description: attributes.task ?? `Complete "${node.text}"`,
+      completed: attributes.complete === 'true',
+      dueDate: attributes.due || undefined,
+    };
+    if (TASK_STAGES.includes(attributes.stage as TaskStage)) metadata.task.stage = attributes.stage as TaskStage;
+    if (attributes.assignee) metadata.task.assignee = attributes.assignee;
+    if (isDateKey(attributes.start)) metadata.task.startDate = attributes.start;
+    const duration = Number(attributes.duration ?? NaN);
+    if (Number.isInteger(duration) && duration >= 0) metadata.task.durationDays = duration;
+    if (!node.status) node.status = 'task';
+  }
+  if (attributes.summary !== undefined) metadata.summary = attributes.summary;
+  if (attributes.front !== undefined || attributes.back !== undefined) {
+    metadata.flashcard = { front: attributes.front ?? '', back: attributes.back ?? '' };
+  }
+  const pros = parseStringList(attributes.pros);
+  const cons = parseStringList(attributes.cons);
+  const questions = parseStringList(attributes.questions);
+  if (pros) metadata.pros = pros;
+  if (cons) metadata.cons = cons;
+  if (questions) metadata.questions = questions;
+  node.metadata = metadata;
+};
+
+const createOutlineNode = (text: string, parent: MindMapNode | null, depth: number): MindMapNode => ({
+  id: uuidv4(),
+  text,
+  children: [],
+  parentId: parent ? parent.id : null,
+  isExpanded: true,
+  type: nodeTypeForDepth(depth),
+  tags: [],
+  metadata: {},
+});
+
+// --- Markdown ---
+
+// Values that wouldn't survive a single line (or start with a quote) are written as JSON strings;
+// tabs count too, since the parser reads them as spaces
+const encodeMarkdownValue = (value: string): string =>
+  /[\n\r\t]/.test(value) || value.startsWith('"') || value !== value.trim() ? JSON.stringify(value) : value;
+
+const decodeMarkdownValue = (value: string): string => {
+  if (value.startsWith('"')) {
+    try {
+      const parsed = JSON.parse(value);
+      if (typeof parsed === 'string') return parsed;
+    } catch {
+      // Not JSON after all; keep the raw text
+    }
+  }
+  return value;
+};
+
+// Text the list-item line can't carry as is (line breaks, a leading checkbox, tabs or surrounding
+// spaces) goes in a `text::` line instead; the item line then shows its first line for readers
+const needsTextAttribute = (text: string): boolean =>
+  /[\n\r\t]/.test(text) || /^\[[ xX]\]\s/.test(text) || text !== text.trim();
+
+export function mindMapToMarkdown(nodes: MindMapNode[]): string {
+  const lines: string[] = [];
+
+  const writeNode = (node: MindMapNode, depth: number) => {
+    const indent = '  '.repeat(depth);
+    const attributes = nodeToAttributes(node);
+    const checkbox = attributes.complete !== undefined ? (attributes.complete === 'true' ? '[x] ' : '[ ] ') : '';
+    if (needsTextAttribute(node.text)) {
+      const firstLine = node.text.split(/\r\n?|\n/)[0].replace(/\t/g, ' ').trim();
+      lines.push(`${indent}- ${checkbox}${firstLine.replace(/^\[/, '\\[')}`);
+      lines.push(`${indent}  text:: ${encodeMarkdownValue(node.text)}`);
+    } else {
+      lines.push(`${indent}- ${checkbox}${node.text}`);
+    }
+    ATTRIBUTE_KEYS.forEach((key) => {
+      const value = attributes[key];
+      if (key === 'complete' || value === undefined) return; // Completion is the checkbox
+      lines.push(`${indent}  ${key}:: ${encodeMarkdownValue(value)}`);
+    });
+    node.children.forEach((child) => writeNode(child, depth + 1));
+  };
+
+  nodes.forEach((node) => writeNode(node, 0));
+  return lines.join('\n') + '\n';
+}
+
+const LIST_ITEM_PATTERN = /^(\s*)(?:[-*+]|\d+[.)])\s+(?:\[([ xX])\]\s+)?(.*)$/;
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const ATTRIBUTE_PATTERN = /^\s*([A-Za-z]+)::\s?(.*)$/;
+
+/**
+ * Parses nested Markdown bullet lists (and headings) into a node tree.
+ * Headings nest everything below them until the next heading of the same or higher level.
+ */
+export function markdownToMindMap(markdown: string): MindMapNode[] {
+  const roots: MindMapNode[] = [];
+  // Headings rank by level, list items rank below every heading by indentation
+  const stack: { rank: number; node: MindMapNode; attributes: OutlineAttributes }[] = [];
+  const entries: { node: MindMapNode; attributes: OutlineAttributes }[] = [];
+
+  const addNode = (rank: number, text: string): OutlineAttributes => {
+    while (stack.length > 0 && stack[stack.length - 1].rank >= rank) stack.pop();
+    const parentEntry = stack[stack.length - 1];
+    const node = createOutlineNode(text, parentEntry?.node ?? null, stack.length);
+    (parentEntry ? parentEntry.node.children : roots).push(node);
+    const attributes: OutlineAttributes = {};
+    stack.push({ rank, node, attributes });
+    entries.push({ node, attributes });
+    return attributes;
+  };
+
+  markdown.replace(/\r\n?/g, '\n').split('\n').forEach((rawLine) => {
+    const line = rawLine.replace(/\t/g, '    ');
+    if (!line.trim()) return;
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      addNode(heading[1].length, heading[2]);
+      return;
+    }
+
+    const item = line.match(LIST_ITEM_PATTERN);
+    if (item) {
+      const attributes = addNode(100 + item[1].length, item[3]);
+      if (item[2] !== undefined) attributes.complete = String(item[2].toLowerCase() === 'x');
+      return;
+    }
+
+    // Anything else continues the most recent node: an attribute line or more of its text
+    const current = stack[stack.length - 1];
+    if (!current) return;
+    const attribute = line.match(ATTRIBUTE_PATTERN);
+    const key = attribute?.[1] as OutlineAttributeKey | 'text' | undefined;
+    if (key === 'text') {
+      current.node.text = decodeMarkdownValue(attribute![2].trim());
+    } else if (key && ATTRIBUTE_KEYS.includes(key)) {
+      current.attributes[key] = decodeMarkdownValue(attribute![2].trim());
+    } else {
+      current.node.text += `\n${line.trim()}`;
+    }
+  });
+
+  entries.forEach(({ node, attributes }) => applyAttributes(node, attributes));
+  return roots;
+}
+
+// --- OPML ---
+
+export function mindMapToOpml(nodes: MindMapNode[], title: string = 'Mind Map'): string {
+  const writeOutline = (node: MindMapNode, depth: number): string => {
+    const indent = '    '.repeat(depth + 2);
+    const attributes = nodeToAttributes(node);
+    const attributeText = ATTRIBUTE_KEYS
+      .filter((key) => attributes[key] !== undefined)
+      .map((key) => ` ${OPML_ATTRIBUTE_NAMES[key]}="${escapeXml(attributes[key]!)}"`)
+      .join('');
+    const open = `${indent}<outline text="${escapeXml(node.text)}"${attributeText}`;
+    if (node.children.length === 0) return `${open}/>`;
+    return [
+      `${open}>`,
+      ...node.children.map((child) => writeOutline(child, depth + 1)),
+      `${indent}</outline>`,
+    ].join('\n');
+  };
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    '  <head>',
+    `    <title>${escapeXml(title)}</title>`,
+    `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+    '  </head>',
+    '  <body>',
+    ...nodes.map((node) => writeOutline(node, 0)),
+    '  </body>',
+    '</opml>',
+    '',
+  ].join('\n');
+}
+
+export function opmlToMindMap(opml: string): MindMapNode[] {
+  const doc = parseXmlDocument(opml, 'OPML/XML');
+  const body = doc.querySelector('opml > body');
+  if (!body) {
+    throw new Error('The OPML file has no <body> element.');
+  }
+
+  const readOutline = (element: Element, parent: MindMapNode | null, depth: number): MindMapNode => {
+    const text = element.getAttribute('text') ?? element.getAttribute('title') ?? '';
+    const node = createOutlineNode(text, parent, depth);
+    const attributes: OutlineAttributes = {};
+    ATTRIBUTE_KEYS.forEach((key) => {
+      const value = element.getAttribute(OPML_ATTRIBUTE_NAMES[key]);
+      if (value !== null) attributes[key] = value;
+    });
+    applyAttributes(node, attributes);
+    node.children = Array.from(element.children)
+      .filter((child) => child.tagName === 'outline')
+      .map((child) => readOutline(child, node, depth + 1));
+    return node;
+  };
+
+  return Array.from(body.children)
+    .filter((child) => child.tagName === 'outline')
+    .map((child) => readOutline(child, null, 0));
+}
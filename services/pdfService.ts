@@ -0,0 +1,167 @@
+import { getDocument, GlobalWorkerOptions, version } from 'pdfjs-dist';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { PDFJS_CDN_BASE_URL } from '../constants';
+import { PdfExtractionResult } from '../types';
+
+// Parsing and text extraction run in pdf.js's web worker, off the UI thread. The worker must match
+// the library's exact version, and a CDN URL works whether the library came from Vite or the importmap.
+GlobalWorkerOptions.workerSrc = `${PDFJS_CDN_BASE_URL}${version}/build/pdf.worker.min.mjs`;
+
+const MIN_PAGE_CHARACTERS = 20; // Fewer extracted characters than this means the page has no usable text layer
+const LINE_TOLERANCE = 0.5; // Fraction of the font size within which items share a baseline
+const PARAGRAPH_GAP = 1.6; // Line spacing (in font sizes) beyond which a new paragraph starts
+const COLUMN_MIN_LINES = 5;
+
+interface TextLine {
+  text: string;
+  x: number;
+  right: number;
+  y: number; // Baseline, PDF units (grows upwards)
+  fontSize: number;
+}
+
+export async function openPdf(data: ArrayBuffer): Promise<PDFDocumentProxy> {
+  try {
+    return await getDocument({ data: new Uint8Array(data) }).promise;
+  } catch (error: any) {
+    if (error?.name === 'PasswordException') {
+      throw new Error('This PDF is password protected and cannot be read.');
+    }
+    throw new Error(`Could not read the PDF: ${error?.message ?? String(error)}`);
+  }
+}
+
+// Groups text items sharing a baseline into lines, left to right
+const buildLines = (items: TextItem[]): TextLine[] => {
+  const lines: TextLine[] = [];
+  items
+    .filter((item) => item.str.trim().length > 0)
+    .forEach((item) => {
+      const [a, b, , , x, y] = item.transform as number[];
+      const fontSize = Math.hypot(a, b) || item.height;
+      const line = lines.find(
+        (candidate) => Math.abs(candidate.y - y) <= Math.max(candidate.fontSize, fontSize) * LINE_TOLERANCE &&
+          x >= candidate.x - fontSize && x <= candidate.right + fontSize * 1.5
+      );
+      if (line) {
+        const gap = x - line.right;
+        line.text += (gap > fontSize * 0.15 && !line.text.endsWith(' ') ? ' ' : '') + item.str;
+        line.right = Math.max(line.right, x + item.width);
+        line.fontSize = Math.max(line.fontSize, fontSize);
+      } else {
+        lines.push({ text: item.str, x, right: x + item.width, y, fontSize });
+      }
+    });
+  return lines;
+};
+
+/**
+ * Orders a page's lines for reading: top to bottom, and for two-column layouts
+ * the whole left column before the right one, with full-width lines (titles,
+ * footers) kept above or below the columns.
+ */
+const orderLines = (lines: TextLine[], pageWidth: number): TextLine[] => {
+  const byY = (first: TextLine, second: TextLine) => second.y - first.y || first.x - second.x;
+  const mid = pageWidth / 2;
+  const left = lines.filter((line) => line.right <= mid + 2);
+  const right = lines.filter((line) => line.x >= mid - 2);
+  if (left.length < COLUMN_MIN_LINES || right.length < COLUMN_MIN_LINES) {
+    return [...lines].sort(byY);
+  }
+
+  const columnLines = new Set([...left, ...right]);
+  const columnTop = Math.max(...[...columnLines].map((line) => line.y));
+  const fullWidth = lines.filter((line) => !columnLines.has(line)).sort(byY);
+  return [
+    ...fullWidth.filter((line) => line.y > columnTop),
+    ...left.sort(byY),
+    ...right.sort(byY),
+    ...fullWidth.filter((line) => line.y <= columnTop),
+  ];
+};
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+// Larger-than-body lines become Markdown headings so the model sees the document's outline
+const headingPrefix = (fontSize: number, bodySize: number): string => {
+  if (!bodySize) return '';
+  const ratio = fontSize / bodySize;
+  if (ratio >= 1.6) return '# ';
+  if (ratio >= 1.3) return '## ';
+  if (ratio >= 1.15) return '### ';
+  return '';
+};
+
+const linesToText = (lines: TextLine[], bodySize: number): string => {
+  const output: string[] = [];
+  let previous: TextLine | null = null;
+  lines.forEach((line) => {
+    const prefix = headingPrefix(line.fontSize, bodySize);
+    const text = line.text.replace(/\s+/g, ' ').trim();
+    const gap = previous ? Math.abs(previous.y - line.y) : 0;
+    const startsBlock =
+      !previous || prefix !== '' || headingPrefix(previous.fontSize, bodySize) !== '' || gap > line.fontSize * PARAGRAPH_GAP;
+
+    if (startsBlock) {
+      if (output.length > 0) output.push('');
+      output.push(prefix + text);
+    } else {
+      // Join wrapped lines of the same paragraph, undoing end-of-line hyphenation
+      const last = output[output.length - 1];
+      output[output.length - 1] = /[A-Za-z]-$/.test(last) ? last.slice(0, -1) + text : `${last} ${text}`;
+    }
+    previous = line;
+  });
+  return output.join('\n');
+};
+
+/**
+ * Extracts the text of pages firstPage..lastPage (1-based, inclusive), keeping
+ * headings and reading order. Pages without a text layer are reported rather
+ * than silently skipped so scanned documents can be flagged.
+ */
+export async function extractPdfText(
+  pdf: PDFDocumentProxy,
+  firstPage: number,
+  lastPage: number,
+  onProgress?: (pageNumber: number) => void
+): Promise<PdfExtractionResult> {
+  const start = Math.max(1, Math.min(firstPage, pdf.numPages));
+  const end = Math.max(start, Math.min(lastPage, pdf.numPages));
+  const pages: { lines: TextLine[]; width: number }[] = [];
+  const pagesWithoutText: number[] = [];
+
+  for (let pageNumber = start; pageNumber <= end; pageNumber++) {
+    onProgress?.(pageNumber);
+    const page = await pdf.getPage(pageNumber);
+    const content = await page.getTextContent();
+    const items = content.items.filter((item): item is TextItem => 'str' in item);
+    const lines = buildLines(items);
+    if (lines.reduce((total, line) => total + line.text.trim().length, 0) < MIN_PAGE_CHARACTERS) {
+      pagesWithoutText.push(pageNumber);
+    }
+    pages.push({ lines, width: page.getViewport({ scale: 1 }).width });
+    page.cleanup();
+  }
+
+  // Body text size is the median line size across the extracted range
+  const bodySize = median(pages.flatMap((page) => page.lines.map((line) => line.fontSize)));
+  const text = pages
+    .map((page) => linesToText(orderLines(page.lines, page.width), bodySize))
+    .filter(Boolean)
+    .join('\n\n');
+
+  const pageCount = end - start + 1;
+  return {
+    text,
+    firstPage: start,
+    lastPage: end,
+    pagesWithoutText,
+    isLikelyScanned: pagesWithoutText.length === pageCount,
+  };
+}
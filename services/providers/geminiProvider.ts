@@ -0,0 +1,184 @@
+import { GoogleGenAI, Modality, Schema } from "@google/genai";
+import {
+  GEMINI_LIVE_AUDIO_MODEL,
+  AI_THINKING_BUDGET_PRO,
+} from '../../constants';
+import { AIJsonRequest, AIProvider, AIProviderSettings } from '../../types';
+
+let audioInputContext: AudioContext | null = null;
+
+// Helper function to base64 encode a Uint8Array
+function encode(bytes: Uint8Array): string {
+  let binary = '';
+  const len = bytes.byteLength;
+  for (let i = 0; i < len; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+// Helper function to decode a base64 string to Uint8Array
+function decode(base64: string): Uint8Array {
+  const binaryString = atob(base64);
+  const len = binaryString.length;
+  const bytes = new Uint8Array(len);
+  for (let i = 0; i < len; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export async function decodeAudioData(
+  data: Uint8Array,
+  ctx: AudioContext,
+  sampleRate: number,
+  numChannels: number,
+): Promise<AudioBuffer> {
+  const dataInt16 = new Int16Array(data.buffer);
+  const frameCount = dataInt16.length / numChannels;
+  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
+
+  for (let channel = 0; channel < numChannels; channel++) {
+    const channelData = buffer.getChannelData(channel);
+    for (let i = 0; i < frameCount; i++) {
+      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
+    }
+  }
+  return buffer;
+}
+
+
+const createGeminiClient = (settings: AIProviderSettings) => {
+  return new GoogleGenAI({ apiKey: settings.apiKey || process.env.API_KEY });
+};
+
+// Fix: Refactored transcribeAudio to properly handle session management and adhere to guidelines
+async function transcribeAudio(ai: GoogleGenAI, audioBlob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = async () => {
+      if (reader.result) {
+        const base64Audio = (reader.result as string).split(',')[1];
+        let transcriptionHandled = false; // Flag to ensure promise is resolved or rejected only once
+
+        try {
+          const sessionPromise = ai.live.connect({
+            model: GEMINI_LIVE_AUDIO_MODEL,
+            callbacks: {
+              onopen: () => {
+                // As per guidelines, sendRealtimeInput must be called after sessionPromise resolves, not here.
+              },
+              onmessage: async (message) => {
+                if (message.serverContent?.inputTranscription?.text) {
+                  if (!transcriptionHandled) {
+                    transcriptionHandled = true;
+                    resolve(message.serverContent.inputTranscription.text);
+                    // Close the session after successfully getting transcription
+                    sessionPromise.then(session => session.close());
+                  }
+                } else if (message.serverContent?.turnComplete) {
+                  // If turnComplete arrives and no transcription text was received, resolve with empty string
+                  if (!transcriptionHandled) {
+                    transcriptionHandled = true;
+                    resolve('');
+                    sessionPromise.then(session => session.close());
+                  }
+                }
+              },
+              onerror: (e) => {
+                if (!transcriptionHandled) {
+                  transcriptionHandled = true;
+                  reject(new Error(`Live API error: ${e.message}`));
+                  sessionPromise.then(session => session.close());
+                }
+              },
+              onclose: () => {
+                // If the connection closes and we haven't resolved/rejected yet, it's an issue
+                if (!transcriptionHandled) {
+                  transcriptionHandled = true;
+                  reject(new Error('Live API connection closed before transcription complete.'));
+                }
+              },
+            },
+            config: {
+              responseModalities: [Modality.AUDIO], // Required for Live API
+              inputAudioTranscription: {}, // Enable transcription
+              speechConfig: {
+                voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } }, // Required but not used for transcription only
+              },
+            },
+          });
+
+          // CRITICAL: Solely rely on sessionPromise resolves and then call `session.sendRealtimeInput`
+          sessionPromise.then((session) => {
+            session.sendRealtimeInput({
+              media: { data: base64Audio, mimeType: 'audio/pcm;rate=16000' }
+            });
+            // No explicit close for input stream needed here if `session.close()` is called later.
+          }).catch(error => {
+            if (!transcriptionHandled) {
+              transcriptionHandled = true;
+              reject(new Error(`Failed to establish Live API session: ${error.message}`));
+            }
+          });
+
+          // Set a timeout for the entire transcription process
+          setTimeout(() => {
+            if (!transcriptionHandled) {
+              transcriptionHandled = true;
+              reject(new Error('Transcription timed out or failed to start/complete.'));
+              sessionPromise.then(session => session.close()); // Attempt to close the session on timeout
+            }
+          }, 20000); // Increased timeout to 20 seconds for connection and transcription
+        } catch (error) {
+          if (!transcriptionHandled) {
+            transcriptionHandled = true;
+            reject(error);
+          }
+        }
+      } else {
+        reject(new Error('Failed to read audio blob.'));
+      }
+    };
+    reader.onerror = (error) => reject(error);
+    reader.readAsDataURL(audioBlob);
+  });
+}
+
+export const createGeminiProvider = (settings: AIProviderSettings): AIProvider => {
+  const ai = createGeminiClient(settings);
+
+  return {
+    id: 'gemini',
+
+    async generateJson(request: AIJsonRequest): Promise<string | null> {
+      try {
+        const response = await ai.models.generateContent({
+          model: request.tier === 'pro' ? settings.proModel : settings.fastModel,
+          contents: { parts: [{ text: request.prompt }] },
+          config: {
+            systemInstruction: request.systemInstruction,
+            responseMimeType: 'application/json',
+            responseSchema: request.schema as Schema,
+            maxOutputTokens: request.maxOutputTokens,
+            ...(request.useThinking ? { thinkingConfig: { thinkingBudget: AI_THINKING_BUDGET_PRO } } : {}),
+          },
+        });
+        return response.text ?? null;
+      } catch (error: any) {
+        // Specific error handling for "Requested entity was not found." (Veo API key related)
+        if (error.message && error.message.includes("Requested entity was not found.") && (window as any).aistudio && (window as any).aistudio.openSelectKey) {
+            alert("Your API key might be invalid or not selected. Please select a valid API key.");
+            await (window as any).aistudio.openSelectKey();
+        }
+        throw error;
+      }
+    },
+
+    transcribeAudio(pcmAudio: Blob): Promise<string> {
+      return transcribeAudio(ai, pcmAudio);
+    },
+  };
+};
+
+export { audioInputContext };
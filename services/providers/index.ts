@@ -0,0 +1,139 @@
+import {
+  AI_PROVIDER_SETTINGS_KEY,
+  GEMINI_FLASH_MODEL,
+  GEMINI_PRO_MODEL,
+  OPENAI_DEFAULT_BASE_URL,
+  OPENAI_DEFAULT_FAST_MODEL,
+  OPENAI_DEFAULT_PRO_MODEL,
+  OLLAMA_DEFAULT_BASE_URL,
+  OLLAMA_DEFAULT_MODEL,
+  MOCK_AI_DEFAULT_SEED,
+  MOCK_AI_DEFAULT_LATENCY_MS,
+} from '../../constants';
+import { AIProvider, AIProviderId, AIProviderSettings, MockAIFailureMode } from '../../types';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAICompatibleProvider } from './openAICompatibleProvider';
+import { createOllamaProvider } from './ollamaProvider';
+import { createMockProvider } from './mockProvider';
+
+export const AI_PROVIDER_LABELS: Record<AIProviderId, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI-compatible endpoint',
+  ollama: 'Ollama (self-hosted)',
+  mock: 'Mock (offline, no AI)',
+};
+
+export const MOCK_FAILURE_MODE_LABELS: Record<MockAIFailureMode, string> = {
+  none: 'None',
+  'malformed-json-once': 'Malformed JSON on first response',
+  'malformed-json': 'Always malformed JSON',
+  error: 'Always fail',
+};
+
+const PROVIDER_FACTORIES: Record<AIProviderId, (settings: AIProviderSettings) => AIProvider> = {
+  gemini: createGeminiProvider,
+  openai: createOpenAICompatibleProvider,
+  ollama: createOllamaProvider,
+  mock: createMockProvider,
+};
+
+const isProviderId = (value: unknown): value is AIProviderId =>
+  typeof value === 'string' && value in PROVIDER_FACTORIES;
+
+/**
+ * Providers this build may use. Set AI_ALLOWED_PROVIDERS (e.g. "ollama") at build time
+ * to keep documents away from hosted services.
+ */
+export const getAllowedProviders = (): AIProviderId[] => {
+  const configured = (process.env.AI_ALLOWED_PROVIDERS ?? '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter(isProviderId);
+  return configured.length > 0 ? configured : (Object.keys(PROVIDER_FACTORIES) as AIProviderId[]);
+};
+
+export const getDefaultProviderSettings = (provider: AIProviderId): AIProviderSettings => {
+  switch (provider) {
+    case 'openai':
+      return {
+        provider,
+        baseUrl: process.env.AI_BASE_URL || OPENAI_DEFAULT_BASE_URL,
+        apiKey: '',
+        fastModel: process.env.AI_FAST_MODEL || OPENAI_DEFAULT_FAST_MODEL,
+        proModel: process.env.AI_PRO_MODEL || OPENAI_DEFAULT_PRO_MODEL,
+      };
+    case 'ollama':
+      return {
+        provider,
+        baseUrl: process.env.AI_BASE_URL || OLLAMA_DEFAULT_BASE_URL,
+        apiKey: '',
+        fastModel: process.env.AI_FAST_MODEL || OLLAMA_DEFAULT_MODEL,
+        proModel: process.env.AI_PRO_MODEL || OLLAMA_DEFAULT_MODEL,
+      };
+    case 'mock': {
+      const failureMode = process.env.AI_MOCK_FAILURE ?? '';
+      return {
+        provider,
+        baseUrl: '',
+        apiKey: '',
+        fastModel: 'mock-fast',
+        proModel: 'mock-pro',
+        mock: {
+          seed: Number(process.env.AI_MOCK_SEED) || MOCK_AI_DEFAULT_SEED,
+          latencyMs: process.env.AI_MOCK_LATENCY_MS ? Number(process.env.AI_MOCK_LATENCY_MS) || 0 : MOCK_AI_DEFAULT_LATENCY_MS,
+          failureMode: failureMode in MOCK_FAILURE_MODE_LABELS ? (failureMode as MockAIFailureMode) : 'none',
+        },
+      };
+    }
+    case 'gemini':
+    default:
+      return {
+        provider: 'gemini',
+        baseUrl: '',
+        apiKey: '',
+        fastModel: GEMINI_FLASH_MODEL,
+        proModel: GEMINI_PRO_MODEL,
+      };
+  }
+};
+
+const getBuildDefaultProvider = (): AIProviderId => {
+  const allowed = getAllowedProviders();
+  const configured = process.env.AI_PROVIDER;
+  return isProviderId(configured) && allowed.includes(configured) ? configured : allowed[0];
+};
+
+export function getAIProviderSettings(): AIProviderSettings {
+  try {
+    const stored = localStorage.getItem(AI_PROVIDER_SETTINGS_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (isProviderId(parsed?.provider) && getAllowedProviders().includes(parsed.provider)) {
+        return { ...getDefaultProviderSettings(parsed.provider), ...parsed };
+      }
+    }
+  } catch (error) {
+    console.error('Failed to read AI provider settings:', error);
+  }
+  return getDefaultProviderSettings(getBuildDefaultProvider());
+}
+
+export function saveAIProviderSettings(settings: AIProviderSettings): void {
+  if (!getAllowedProviders().includes(settings.provider)) {
+    throw new Error(`${AI_PROVIDER_LABELS[settings.provider]} is not allowed in this build.`);
+  }
+  localStorage.setItem(AI_PROVIDER_SETTINGS_KEY, JSON.stringify(settings));
+  cachedProvider = null;
+}
+
+let cachedProvider: { key: string; provider: AIProvider } | null = null;
+
+// Returns the provider for the current settings, reusing the instance while settings are unchanged
+export function getAIProvider(): AIProvider {
+  const settings = getAIProviderSettings();
+  const key = JSON.stringify(settings);
+  if (!cachedProvider || cachedProvider.key !== key) {
+    cachedProvider = { key, provider: PROVIDER_FACTORIES[settings.provider](settings) };
+  }
+  return cachedProvider.provider;
+}
@@ -0,0 +1,195 @@
+import { AIJsonRequest, AIProvider, AIProviderSettings, MockAIOptions } from '../../types';
+import { MOCK_AI_DEFAULT_LATENCY_MS, MOCK_AI_DEFAULT_SEED } from '../../constants';
+
+type JsonSchema = {
+  type?: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  enum?: unknown[];
+};
+
+const MAX_TREE_DEPTH = 3; // Levels of nested arrays of objects, e.g. topic > subtopic > detail
+const FALLBACK_KEYWORDS = ['planning', 'research', 'design', 'testing', 'delivery', 'feedback', 'budget', 'risks'];
+const STOP_WORDS = new Set(
+  'title subtopics pros cons questions json string array mind format refined current merge duplicate ideas about above after again against also because been before being below between both could does doing down during each from further have having here into itself just more most once only other ought over same should some such than that their theirs them then there these they this those through under until very were what when where which while with would your yours'.split(
+    ' '
+  )
+);
+const UUID_PATTERN = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/g;
+const MOCK_TRANSCRIPT =
+  'This is a simulated transcription from the mock AI provider. Planning the product launch: research the market, design the campaign, and schedule a review with the team.';
+
+// Same string always gives the same seed (FNV-1a)
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Small seeded PRNG (mulberry32) returning floats in [0, 1)
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// The most frequent meaningful words in the prompt, so fake output stays on topic
+const extractKeywords = (prompt: string): string[] => {
+  // Single-node prompts end with the quoted concept; ignore the instruction around it
+  const text = prompt.match(/:\s*"([^"]*)"\s*$/)?.[1] ?? prompt;
+  const counts = new Map<string, number>();
+  for (const word of text.toLowerCase().match(/[a-z][a-z'-]{3,}/g) ?? []) {
+    if (!STOP_WORDS.has(word)) counts.set(word, (counts.get(word) ?? 0) + 1);
+  }
+  const keywords = [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([word]) => word);
+  return keywords.length >= 3 ? keywords.slice(0, 30) : [...keywords, ...FALLBACK_KEYWORDS.slice(0, 3 - keywords.length)];
+};
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+class MockValueGenerator {
+  private random: () => number;
+  private keywords: string[];
+  private instructions: string;
+  private nodeIds: string[];
+
+  constructor(seed: number, keywords: string[], instructions: string, nodeIds: string[]) {
+    this.random = createRandom(seed);
+    this.keywords = keywords;
+    this.instructions = instructions;
+    this.nodeIds = nodeIds;
+  }
+
+  private int(min: number, max: number): number {
+    return min + Math.floor(this.random() * (max - min + 1));
+  }
+
+  private keyword(): string {
+    return this.keywords[this.int(0, this.keywords.length - 1)];
+  }
+
+  // Strings are shaped by their property name so fixtures read naturally in the UI
+  private string(key: string): string {
+    const a = this.keyword();
+    const b = this.keyword();
+    switch (key) {
+      case 'id':
+      case 'fromId':
+      case 'toId':
+      case 'sourceId':
+      case 'dependsOn':
+        // Echo ids of nodes mentioned in the prompt, as a real model does when editing a map
+        return this.nodeIds.length > 0 ? this.nodeIds[this.int(0, this.nodeIds.length - 1)] : `${a}-${b}`;
+      case 'title':
+        return this.random() < 0.5 ? capitalize(a) : `${capitalize(a)} and ${b}`;
+      case 'front':
+      case 'questions':
+        return `How does ${a} relate to ${b}?`;
+      case 'back':
+        return `${capitalize(a)} shapes ${b} by setting its scope and priorities.`;
+      case 'summary':
+        return `This section covers ${a} and ${b}, and how they affect ${this.keyword()}.`;
+      case 'pros':
+        return `Improves ${a} through better ${b}`;
+      case 'cons':
+        return `Adds overhead to ${a} and ${b}`;
+      default:
+        return `${capitalize(a)} ${b}`;
+    }
+  }
+
+  generate(schema: JsonSchema, key: string, parentObject: JsonSchema | null, depth: number): unknown {
+    if (schema.enum && schema.enum.length > 0) {
+      return schema.enum[this.int(0, schema.enum.length - 1)];
+    }
+    switch (schema.type) {
+      case 'object': {
+        // An object schema without properties is a recursion placeholder for its parent's shape
+        const objectSchema = schema.properties ? schema : parentObject ?? schema;
+        const required = new Set(objectSchema.required ?? []);
+        const result: Record<string, unknown> = {};
+        for (const [name, propertySchema] of Object.entries(objectSchema.properties ?? {})) {
+          // Optional fields are filled only when the instructions ask for them, e.g. 'pros' in debate mode
+          if (!required.has(name) && (!this.instructions.includes(name) || this.random() < 0.2)) continue;
+          result[name] = this.generate(propertySchema, name, objectSchema, depth);
+        }
+        return result;
+      }
+      case 'array': {
+        const items = schema.items ?? { type: 'string' };
+        const nestsObjects = items.type === 'object';
+        if (nestsObjects && depth >= MAX_TREE_DEPTH) return [];
+        const length = nestsObjects ? this.int(2, Math.max(2, 4 - depth)) : this.int(1, 3);
+        return Array.from({ length }, () => this.generate(items, key, parentObject, nestsObjects ? depth + 1 : depth));
+      }
+      case 'number':
+        return Math.round(this.random() * 1000) / 10;
+      case 'integer':
+        return this.int(1, 10);
+      case 'boolean':
+        return this.random() < 0.5;
+      case 'string':
+      default:
+        return this.string(key);
+    }
+  }
+}
+
+const delay = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * An offline backend that fabricates schema-valid JSON from a seeded generator. The same seed
+ * and request always produce the same output, and it can simulate latency, malformed JSON and
+ * failures for development, demos and tests.
+ */
+export const createMockProvider = (settings: AIProviderSettings): AIProvider => {
+  const options: MockAIOptions = {
+    seed: MOCK_AI_DEFAULT_SEED,
+    latencyMs: MOCK_AI_DEFAULT_LATENCY_MS,
+    failureMode: 'none',
+    ...settings.mock,
+  };
+  let responseCount = 0;
+
+  const simulateRequest = async () => {
+    if (options.latencyMs > 0) await delay(options.latencyMs);
+    if (options.failureMode === 'error') {
+      throw new Error('Mock AI provider: simulated failure (503 Service Unavailable).');
+    }
+  };
+
+  return {
+    id: 'mock',
+
+    async generateJson(request: AIJsonRequest): Promise<string | null> {
+      await simulateRequest();
+      const generator = new MockValueGenerator(
+        hashString(`${options.seed}:${request.tier}:${request.prompt}`),
+        extractKeywords(request.prompt),
+        request.systemInstruction ?? request.prompt,
+        request.prompt.match(UUID_PATTERN) ?? []
+      );
+      const json = JSON.stringify(generator.generate(request.schema as JsonSchema, '', null, 0));
+
+      responseCount++;
+      const corrupt =
+        options.failureMode === 'malformed-json' || (options.failureMode === 'malformed-json-once' && responseCount === 1);
+      // Cut off mid-document, as a model does when it hits its token limit
+      return corrupt ? json.slice(0, Math.max(1, Math.floor(json.length / 2))) : json;
+    },
+
+    async transcribeAudio(): Promise<string> {
+      await simulateRequest();
+      return MOCK_TRANSCRIPT;
+    },
+  };
+};
@@ -0,0 +1,42 @@
+import { AI_REQUEST_TIMEOUT_MS } from '../../constants';
+import { AIJsonRequest, AIProvider, AIProviderSettings } from '../../types';
+import { fetchJson, readJsonPath, schemaInstruction } from './providerUtils';
+
+/**
+ * A self-hosted Ollama server (or anything exposing its /api/chat endpoint).
+ * Documents never leave the machine or network the server runs on.
+ */
+export const createOllamaProvider = (settings: AIProviderSettings): AIProvider => {
+  const baseUrl = settings.baseUrl.replace(/\/+$/, '');
+
+  return {
+    id: 'ollama',
+
+    async generateJson(request: AIJsonRequest): Promise<string | null> {
+      const data = await fetchJson(
+        `${baseUrl}/api/chat`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            model: request.tier === 'pro' ? settings.proModel : settings.fastModel,
+            messages: [
+              { role: 'system', content: schemaInstruction(request) },
+              { role: 'user', content: request.prompt },
+            ],
+            format: request.schema, // Ollama constrains output to a JSON schema
+            stream: false,
+            options: { num_predict: request.maxOutputTokens },
+          }),
+        },
+        AI_REQUEST_TIMEOUT_MS
+      );
+      const content = readJsonPath(data, 'message', 'content');
+      return typeof content === 'string' ? content : null;
+    },
+
+    async transcribeAudio(): Promise<string> {
+      throw new Error('Voice transcription is not available with the Ollama provider. Please type or paste your text instead.');
+    },
+  };
+};
@@ -0,0 +1,75 @@
+import { AI_REQUEST_TIMEOUT_MS, OPENAI_TRANSCRIPTION_MODEL } from '../../constants';
+import { AIJsonRequest, AIProvider, AIProviderSettings } from '../../types';
+import { fetchJson, readJsonPath, schemaInstruction } from './providerUtils';
+
+// Wraps raw 16 kHz mono 16-bit PCM in a WAV header, which transcription endpoints accept
+const pcmToWav = async (pcmAudio: Blob, sampleRate: number = 16000): Promise<Blob> => {
+  const pcm = await pcmAudio.arrayBuffer();
+  const header = new DataView(new ArrayBuffer(44));
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) header.setUint8(offset + i, value.charCodeAt(i));
+  };
+  writeString(0, 'RIFF');
+  header.setUint32(4, 36 + pcm.byteLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  header.setUint32(16, 16, true); // PCM format chunk size
+  header.setUint16(20, 1, true); // Linear PCM
+  header.setUint16(22, 1, true); // Mono
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * 2, true); // Byte rate
+  header.setUint16(32, 2, true); // Block align
+  header.setUint16(34, 16, true); // Bits per sample
+  writeString(36, 'data');
+  header.setUint32(40, pcm.byteLength, true);
+  return new Blob([header.buffer, pcm], { type: 'audio/wav' });
+};
+
+/**
+ * Any server implementing the OpenAI Chat Completions API: OpenAI itself, Azure-style
+ * gateways, vLLM, LM Studio, llama.cpp server, LocalAI and so on.
+ */
+export const createOpenAICompatibleProvider = (settings: AIProviderSettings): AIProvider => {
+  const baseUrl = settings.baseUrl.replace(/\/+$/, '');
+  const authHeaders: Record<string, string> = settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {};
+
+  return {
+    id: 'openai',
+
+    async generateJson(request: AIJsonRequest): Promise<string | null> {
+      const data = await fetchJson(
+        `${baseUrl}/chat/completions`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...authHeaders },
+          body: JSON.stringify({
+            model: request.tier === 'pro' ? settings.proModel : settings.fastModel,
+            messages: [
+              { role: 'system', content: schemaInstruction(request) },
+              { role: 'user', content: request.prompt },
+            ],
+            // json_object is the structured-output mode most compatible servers support
+            response_format: { type: 'json_object' },
+            max_tokens: request.maxOutputTokens,
+          }),
+        },
+        AI_REQUEST_TIMEOUT_MS
+      );
+      const content = readJsonPath(data, 'choices', 0, 'message', 'content');
+      return typeof content === 'string' ? content : null;
+    },
+
+    async transcribeAudio(pcmAudio: Blob): Promise<string> {
+      const form = new FormData();
+      form.append('file', await pcmToWav(pcmAudio), 'recording.wav');
+      form.append('model', OPENAI_TRANSCRIPTION_MODEL);
+      const data = await fetchJson(
+        `${baseUrl}/audio/transcriptions`,
+        { method: 'POST', headers: authHeaders, body: form },
+        AI_REQUEST_TIMEOUT_MS
+      );
+      const text = readJsonPath(data, 'text');
+      return typeof text === 'string' ? text : '';
+    },
+  };
+};
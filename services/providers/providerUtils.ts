@@ -0,0 +1,42 @@
+import { AIJsonRequest } from '../../types';
+
+// Providers without native schema support get the JSON schema spelled out in the system prompt
+export const schemaInstruction = (request: AIJsonRequest): string =>
+  [
+    request.systemInstruction ?? '',
+    `Respond with a single JSON object that conforms to this JSON schema, and nothing else:\n${JSON.stringify(request.schema)}`,
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+
+// Follows a path of keys into an untyped JSON reply, giving undefined as soon as a step isn't an object or array
+export const readJsonPath = (value: unknown, ...path: (string | number)[]): unknown =>
+  path.reduce<unknown>(
+    (current, key) => (typeof current === 'object' && current !== null ? (current as Record<string, unknown>)[key] : undefined),
+    value
+  );
+
+// POSTs to an HTTP AI endpoint and parses the JSON reply, turning HTTP failures and timeouts into readable errors
+export async function fetchJson(url: string, init: RequestInit, timeoutMs: number): Promise<unknown> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`AI server responded with ${response.status} ${response.statusText}${detail ? `: ${detail.slice(0, 300)}` : ''}`);
+    }
+    return await response.json();
+  } catch (error: any) {
+    if (error?.name === 'AbortError') {
+      throw new Error(`AI server at ${new URL(url).origin} did not respond within ${Math.round(timeoutMs / 1000)} seconds.`);
+    }
+    if (error instanceof TypeError) {
+      // fetch rejects with a TypeError when the server is unreachable or blocks CORS
+      throw new Error(`Could not reach the AI server at ${new URL(url).origin}. Check that it is running and allows requests from this page.`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
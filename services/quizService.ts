@@ -0,0 +1,88 @@
+import { v4 as uuidv4 } from 'uuid';
+import { QUIZ_MAX_QUESTIONS, QUIZ_MIN_QUESTIONS } from '../constants';
+import { AIQuizOutput, MindMapNode, QuizQuestion, QuizSession } from '../types';
+import { flattenTree } from '../utils/treeUtils';
+import { isTypedAnswerCorrect } from './studyService';
+
+const TRUE_FALSE_OPTIONS = ['True', 'False'];
+
+/**
+ * The subtree as the quiz prompt sees it: one "[id] title" line per node, indented by depth,
+ * followed by the node's summary and other notes so questions can go beyond the titles.
+ */
+export function describeSubtreeForQuiz(root: MindMapNode): string {
+  return flattenTree([root])
+    .flatMap(({ node, ancestors }) => {
+      const indent = '  '.repeat(ancestors.length);
+      const notes: string[] = [];
+      const { metadata } = node;
+      if (metadata?.summary) notes.push(`Summary: ${metadata.summary}`);
+      if (metadata?.pros?.length) notes.push(`Pros: ${metadata.pros.join('; ')}`);
+      if (metadata?.cons?.length) notes.push(`Cons: ${metadata.cons.join('; ')}`);
+      if (metadata?.flashcard) notes.push(`Flashcard: ${metadata.flashcard.front} / ${metadata.flashcard.back}`);
+      if (metadata?.task?.description) notes.push(`Task: ${metadata.task.description}`);
+      return [`${indent}- [${node.id}] ${node.text}`, ...notes.map((note) => `${indent}    ${note}`)];
+    })
+    .join('\n');
+}
+
+// About one question per node, within sensible bounds
+export const quizQuestionCount = (root: MindMapNode): number =>
+  Math.min(QUIZ_MAX_QUESTIONS, Math.max(QUIZ_MIN_QUESTIONS, flattenTree([root]).length));
+
+const shuffle = <T>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+/**
+ * Validates raw AI questions: each must come from a node in the subtree (falling back to the
+ * subtree's root) and be answerable. Multiple-choice options are shuffled so the answer isn't
+ * always in the same place.
+ */
+export function toQuizQuestions(output: AIQuizOutput, root: MindMapNode): QuizQuestion[] {
+  const nodesById = new Map(flattenTree([root]).map(({ node }) => [node.id, node]));
+  const questions: QuizQuestion[] = [];
+  for (const raw of output.questions ?? []) {
+    const prompt = typeof raw.question === 'string' ? raw.question.trim() : '';
+    if (!prompt) continue;
+    const answer = typeof raw.answer === 'string' ? raw.answer.trim() : '';
+    const source = nodesById.get(raw.sourceId) ?? root;
+    const base = {
+      id: uuidv4(),
+      prompt,
+      explanation: typeof raw.explanation === 'string' ? raw.explanation : '',
+      sourceNodeId: source.id,
+      sourceText: source.text,
+    };
+
+    if (raw.type === 'multiple-choice') {
+      const distractors = (Array.isArray(raw.distractors) ? raw.distractors : [])
+        .filter((option): option is string => typeof option === 'string' && option.trim() !== '')
+        .map((option) => option.trim())
+        .filter((option, index, all) => option !== answer && all.indexOf(option) === index);
+      if (!answer || distractors.length === 0) continue;
+      questions.push({ ...base, type: 'multiple-choice', options: shuffle([answer, ...distractors]), answer });
+    } else if (raw.type === 'true-false') {
+      if (typeof raw.isTrue !== 'boolean') continue;
+      questions.push({ ...base, type: 'true-false', options: TRUE_FALSE_OPTIONS, answer: raw.isTrue ? 'True' : 'False' });
+    } else if (raw.type === 'short-answer') {
+      if (!answer) continue;
+      questions.push({ ...base, type: 'short-answer', options: [], answer });
+    }
+  }
+  return questions;
+}
+
+export function isQuizResponseCorrect(question: QuizQuestion, session: QuizSession): boolean {
+  const response = session.responses[question.id] ?? '';
+  if (question.type !== 'short-answer') return response === question.answer;
+  return session.acceptedIds.includes(question.id) || isTypedAnswerCorrect(response, question.answer);
+}
+
+export const quizScore = (session: QuizSession): number =>
+  session.questions.filter((question) => isQuizResponseCorrect(question, session)).length;
@@ -0,0 +1,215 @@
+import { GANTT_DEFAULT_DURATION_DAYS } from '../constants';
+import { AITaskEstimatesOutput, MindMapNode, TaskEstimateSuggestion } from '../types';
+import { addDays, daysBetween, isDateKey } from '../utils/dateUtils';
+import { collectTasks, TaskCard } from './taskService';
+
+// Critical-path scheduling of a plan's task nodes. Days are counted from the project start in
+// calendar days; a task occupies [start, finish), so a 0-day milestone has start === finish.
+
+export interface ScheduledTask extends TaskCard {
+  durationDays: number;
+  isEstimated: boolean; // False when the default duration stands in for a missing estimate
+  dependsOn: string[]; // Dependencies on tasks still in the map
+  earlyStart: number;
+  earlyFinish: number;
+  lateStart: number;
+  lateFinish: number;
+  slack: number; // Days the task can slip without delaying the project
+  isCritical: boolean;
+  inCycle: boolean; // Part of a dependency cycle; those dependencies are ignored when scheduling
+  startDate: string;
+  finishDate: string;
+}
+
+export interface ProjectSchedule {
+  tasks: ScheduledTask[]; // In map order
+  startDate: string;
+  finishDate: string;
+  lengthDays: number;
+  cycles: string[][]; // Node ids of each group of tasks that depend on each other in a loop
+}
+
+const liveDependencies = (card: TaskCard, taskIds: Set<string>): string[] =>
+  [...new Set(card.task.dependsOn ?? [])].filter((id) => id !== card.nodeId && taskIds.has(id));
+
+/**
+ * Groups of tasks that depend on each other in a loop (the strongly connected components with
+ * more than one task), found with Tarjan's algorithm.
+ */
+function findDependencyCycles(dependencies: Map<string, string[]>): string[][] {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+  let counter = 0;
+
+  const visit = (id: string) => {
+    index.set(id, counter);
+    lowLink.set(id, counter);
+    counter++;
+    stack.push(id);
+    onStack.add(id);
+    for (const dependency of dependencies.get(id) ?? []) {
+      if (!index.has(dependency)) {
+        visit(dependency);
+        lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(dependency)!));
+      } else if (onStack.has(dependency)) {
+        lowLink.set(id, Math.min(lowLink.get(id)!, index.get(dependency)!));
+      }
+    }
+    if (lowLink.get(id) === index.get(id)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+      if (component.length > 1) cycles.push(component);
+    }
+  };
+
+  for (const id of dependencies.keys()) {
+    if (!index.has(id)) visit(id);
+  }
+  return cycles;
+}
+
+/**
+ * Forward and backward passes of the critical path method. A task starts once all its
+ * dependencies have finished, and not before its own start date; the project starts on the
+ * earliest start date given, or today.
+ */
+export function buildProjectSchedule(nodes: MindMapNode[], today: string): ProjectSchedule {
+  const cards = collectTasks(nodes);
+  const taskIds = new Set(cards.map((card) => card.nodeId));
+  const dependencies = new Map(cards.map((card) => [card.nodeId, liveDependencies(card, taskIds)]));
+
+  const cycles = findDependencyCycles(dependencies);
+  const cycleOf = new Map<string, number>();
+  cycles.forEach((cycle, i) => cycle.forEach((id) => cycleOf.set(id, i)));
+  // Dependencies inside a cycle can't all hold, so scheduling drops them and the view flags the loop
+  const schedulable = new Map(
+    [...dependencies].map(([id, deps]) => [
+      id,
+      deps.filter((dep) => cycleOf.get(dep) === undefined || cycleOf.get(dep) !== cycleOf.get(id)),
+    ])
+  );
+
+  const startDates = cards.map((card) => card.task.startDate).filter(isDateKey).sort();
+  const projectStart = startDates[0] ?? today;
+  const duration = (card: TaskCard) => card.task.durationDays ?? GANTT_DEFAULT_DURATION_DAYS;
+
+  // Kahn's algorithm gives an order in which every task follows its dependencies
+  const dependents = new Map<string, string[]>(cards.map((card) => [card.nodeId, []]));
+  const waiting = new Map<string, number>();
+  for (const [id, deps] of schedulable) {
+    waiting.set(id, deps.length);
+    deps.forEach((dep) => dependents.get(dep)!.push(id));
+  }
+  const order = cards.filter((card) => waiting.get(card.nodeId) === 0).map((card) => card.nodeId);
+  for (let i = 0; i < order.length; i++) {
+    for (const dependent of dependents.get(order[i])!) {
+      waiting.set(dependent, waiting.get(dependent)! - 1);
+      if (waiting.get(dependent) === 0) order.push(dependent);
+    }
+  }
+
+  const cardsById = new Map(cards.map((card) => [card.nodeId, card]));
+  const earlyStart = new Map<string, number>();
+  const earlyFinish = new Map<string, number>();
+  for (const id of order) {
+    const card = cardsById.get(id)!;
+    const notBefore = isDateKey(card.task.startDate) ? daysBetween(projectStart, card.task.startDate) : 0;
+    const start = Math.max(notBefore, ...schedulable.get(id)!.map((dep) => earlyFinish.get(dep)!));
+    earlyStart.set(id, start);
+    earlyFinish.set(id, start + duration(card));
+  }
+
+  const lengthDays = Math.max(0, ...earlyFinish.values());
+  const lateStart = new Map<string, number>();
+  const lateFinish = new Map<string, number>();
+  for (const id of [...order].reverse()) {
+    const finish = Math.min(lengthDays, ...dependents.get(id)!.map((dependent) => lateStart.get(dependent)!));
+    lateFinish.set(id, finish);
+    lateStart.set(id, finish - duration(cardsById.get(id)!));
+  }
+
+  const tasks = cards.map((card): ScheduledTask => {
+    const id = card.nodeId;
+    const slack = lateStart.get(id)! - earlyStart.get(id)!;
+    return {
+      ...card,
+      durationDays: duration(card),
+      isEstimated: card.task.durationDays !== undefined,
+      dependsOn: dependencies.get(id)!,
+      earlyStart: earlyStart.get(id)!,
+      earlyFinish: earlyFinish.get(id)!,
+      lateStart: lateStart.get(id)!,
+      lateFinish: lateFinish.get(id)!,
+      slack,
+      isCritical: slack === 0,
+      inCycle: cycleOf.has(id),
+      startDate: addDays(projectStart, earlyStart.get(id)!),
+      finishDate: addDays(projectStart, earlyFinish.get(id)!),
+    };
+  });
+
+  return { tasks, startDate: projectStart, finishDate: addDays(projectStart, lengthDays), lengthDays, cycles };
+}
+
+// Whether `fromId` can already reach `toId` by following dependencies
+const dependsOnTransitively = (dependencies: Map<string, string[]>, fromId: string, toId: string): boolean => {
+  const seen = new Set<string>();
+  const pending = [fromId];
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    if (id === toId) return true;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    pending.push(...(dependencies.get(id) ?? []));
+  }
+  return false;
+};
+
+/**
+ * Validates raw AI estimates against the map's tasks. Proposed dependencies are added to the
+ * existing ones, skipping any that would close a loop; suggestions that change nothing are dropped.
+ */
+export function toTaskEstimateSuggestions(output: AITaskEstimatesOutput, nodes: MindMapNode[]): TaskEstimateSuggestion[] {
+  const cards = collectTasks(nodes);
+  const cardsById = new Map(cards.map((card) => [card.nodeId, card]));
+  const taskIds = new Set(cardsById.keys());
+  const dependencies = new Map(cards.map((card) => [card.nodeId, liveDependencies(card, taskIds)]));
+  const suggestions: TaskEstimateSuggestion[] = [];
+  const suggested = new Set<string>();
+
+  for (const raw of output.tasks ?? []) {
+    const card = cardsById.get(raw.id);
+    if (!card || suggested.has(card.nodeId)) continue;
+    const durationDays =
+      typeof raw.durationDays === 'number' && Number.isFinite(raw.durationDays) && raw.durationDays >= 0
+        ? Math.round(raw.durationDays)
+        : card.task.durationDays;
+    if (durationDays === undefined) continue;
+    const own = dependencies.get(card.nodeId)!;
+    const added: string[] = [];
+    for (const dep of Array.isArray(raw.dependsOn) ? raw.dependsOn : []) {
+      if (!taskIds.has(dep) || dep === card.nodeId || own.includes(dep) || added.includes(dep)) continue;
+      if (dependsOnTransitively(dependencies, dep, card.nodeId)) continue;
+      added.push(dep);
+      dependencies.set(card.nodeId, [...dependencies.get(card.nodeId)!, dep]);
+    }
+    if (durationDays === card.task.durationDays && added.length === 0) continue;
+    suggested.add(card.nodeId);
+    suggestions.push({
+      nodeId: card.nodeId,
+      text: card.text,
+      durationDays,
+      previousDurationDays: card.task.durationDays,
+      addedDependsOn: added.map((id) => ({ id, text: cardsById.get(id)!.text })),
+    });
+  }
+  return suggestions;
+}
@@ -0,0 +1,72 @@
+import { MindMapNode } from '../types';
+import { flattenTree } from '../utils/treeUtils';
+import { normalizeTag } from './tagService';
+
+// Everything a search can hit on one node: its text, tags and the AI/user metadata shown in the app
+const searchableText = (node: MindMapNode): string => {
+  const metadata = node.metadata ?? {};
+  return [
+    node.text,
+    ...node.tags,
+    metadata.summary,
+    metadata.flashcard?.front,
+    metadata.flashcard?.back,
+    metadata.task?.description,
+    ...(metadata.questions ?? []),
+    ...(metadata.pros ?? []),
+    ...(metadata.cons ?? []),
+  ]
+    .filter(Boolean)
+    .join('\n')
+    .toLowerCase();
+};
+
+// Ids of nodes matching every word of the query, in depth-first (reading) order
+export function searchMindMap(nodes: MindMapNode[], query: string): string[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+  return flattenTree(nodes)
+    .filter(({ node }) => {
+      const text = searchableText(node);
+      return words.every((word) => text.includes(word));
+    })
+    .map(({ node }) => node.id);
+}
+
+// Every tag used in the map, sorted, for filter suggestions
+export function collectTags(nodes: MindMapNode[]): string[] {
+  const tags = new Set(flattenTree(nodes).flatMap(({ node }) => node.tags));
+  return [...tags].sort((a, b) => a.localeCompare(b));
+}
+
+const hasTag = (node: MindMapNode, wanted: string) => node.tags.some((nodeTag) => normalizeTag(nodeTag) === wanted);
+
+// Ids of nodes carrying the tag (case-insensitive, with or without a leading #)
+export function findTaggedNodes(nodes: MindMapNode[], tag: string): string[] {
+  const wanted = normalizeTag(tag);
+  if (!wanted) return [];
+  return flattenTree(nodes)
+    .filter(({ node }) => hasTag(node, wanted))
+    .map(({ node }) => node.id);
+}
+
+/**
+ * Ids of nodes outside a tag filter: branches with no node carrying the tag. A tagged node keeps
+ * its ancestors (so it stays reachable) and its descendants (its branch) inside the filter.
+ */
+export function nodesOutsideTagFilter(nodes: MindMapNode[], tag: string): Set<string> {
+  const wanted = normalizeTag(tag);
+  if (!wanted) return new Set();
+  const isTagged = (node: MindMapNode) => hasTag(node, wanted);
+  const entries = flattenTree(nodes);
+  const inside = new Set<string>();
+  for (const { node, ancestors } of entries) {
+    if (isTagged(node)) {
+      inside.add(node.id);
+      ancestors.forEach((ancestor) => inside.add(ancestor.id));
+    } else if (ancestors.some(isTagged)) {
+      inside.add(node.id);
+    }
+  }
+  return new Set(entries.map(({ node }) => node.id).filter((id) => !inside.has(id)));
+}
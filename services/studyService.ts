@@ -0,0 +1,86 @@
+import { REVIEW_GRADE_QUALITY, SM2_INITIAL_EASE, SM2_MIN_EASE } from '../constants';
+import { FlashcardSchedule, MindMapNode, ReviewGrade, StudyScope } from '../types';
+import { flattenTree } from '../utils/treeUtils';
+import { addDays } from '../utils/dateUtils';
+import { normalizeTag } from './tagService';
+
+// Spaced-repetition study of the map's flashcards. Dates are local YYYY-MM-DD keys (see dateUtils),
+// so a card due "today" is due all day wherever the user is.
+
+export interface StudyCard {
+  nodeId: string;
+  front: string;
+  back: string;
+  path: string[]; // Ancestor titles, for context
+  schedule?: FlashcardSchedule;
+}
+
+// Cards that have never been studied are due straight away
+export const isDue = (card: StudyCard, today: string): boolean => !card.schedule || card.schedule.dueDate <= today;
+
+/**
+ * The flashcards a session covers, in map order. A tag scope takes cards tagged themselves or
+ * sitting under a tagged node, so tagging a topic covers all its cards.
+ */
+export function collectStudyCards(nodes: MindMapNode[], scope: StudyScope = { kind: 'map' }): StudyCard[] {
+  let entries = flattenTree(nodes);
+  if (scope.kind === 'subtree') {
+    entries = entries.filter(({ node, ancestors }) => node.id === scope.nodeId || ancestors.some((a) => a.id === scope.nodeId));
+  } else if (scope.kind === 'tag') {
+    const tag = normalizeTag(scope.tag);
+    const hasTag = (node: MindMapNode) => node.tags.some((t) => normalizeTag(t) === tag);
+    entries = entries.filter(({ node, ancestors }) => hasTag(node) || ancestors.some(hasTag));
+  }
+  return entries
+    .filter(({ node }) => node.status === 'flashcard' && node.metadata?.flashcard)
+    .map(({ node, ancestors }) => ({
+      nodeId: node.id,
+      front: node.metadata!.flashcard!.front,
+      back: node.metadata!.flashcard!.back,
+      path: ancestors.map((ancestor) => ancestor.text),
+      schedule: node.metadata!.flashcard!.schedule,
+    }));
+}
+
+// Due cards in the order a session shows them: longest overdue first, then new cards
+export function dueStudyCards(cards: StudyCard[], today: string): StudyCard[] {
+  const due = cards.filter((card) => isDue(card, today));
+  const overdue = due.filter((card) => card.schedule).sort((a, b) => a.schedule!.dueDate.localeCompare(b.schedule!.dueDate));
+  return [...overdue, ...due.filter((card) => !card.schedule)];
+}
+
+export const reviewedOn = (cards: StudyCard[], day: string): number =>
+  cards.filter((card) => card.schedule?.lastReviewed === day).length;
+
+/**
+ * SM-2: a failed card starts over with a one-day interval; a recalled one goes 1 day, 6 days,
+ * then the previous interval times the ease. The ease drifts down for hard recalls and up for easy ones.
+ */
+export function scheduleReview(schedule: FlashcardSchedule | undefined, grade: ReviewGrade, today: string): FlashcardSchedule {
+  const quality = REVIEW_GRADE_QUALITY[grade];
+  const previous = schedule ?? { ease: SM2_INITIAL_EASE, interval: 0, repetitions: 0 };
+  const adjusted = previous.ease + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02);
+  const ease = Math.max(SM2_MIN_EASE, Math.round(adjusted * 100) / 100);
+
+  let repetitions: number;
+  let interval: number;
+  if (quality < 3) {
+    repetitions = 0;
+    interval = 1;
+  } else {
+    repetitions = previous.repetitions + 1;
+    interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(previous.interval * ease);
+  }
+  return { ease, interval, repetitions, dueDate: addDays(today, interval), lastReviewed: today };
+}
+
+const normalizeAnswer = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Typed answers match when they agree apart from case, punctuation and spacing
+export const isTypedAnswerCorrect = (typed: string, expected: string): boolean =>
+  normalizeAnswer(typed) !== '' && normalizeAnswer(typed) === normalizeAnswer(expected);
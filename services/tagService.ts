@@ -0,0 +1,62 @@
+import { TAG_COLORS, TAG_PALETTE_KEY } from '../constants';
+import { AITagSuggestionsOutput, MindMapNode, TagPalette, TagSuggestion } from '../types';
+import { flattenTree } from '../utils/treeUtils';
+
+// Tags compare case-insensitively and without a leading #, but keep the spelling they were entered with
+export const normalizeTag = (tag: string) => tag.trim().replace(/^#/, '').toLowerCase();
+
+export const cleanTag = (tag: string) => tag.trim().replace(/^#/, '').replace(/\s+/g, ' ');
+
+export function getTagPalette(): TagPalette {
+  try {
+    const stored = localStorage.getItem(TAG_PALETTE_KEY);
+    const parsed = stored ? JSON.parse(stored) : {};
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch (error) {
+    console.error('Failed to read the tag palette:', error);
+    return {};
+  }
+}
+
+export function saveTagPalette(palette: TagPalette): void {
+  localStorage.setItem(TAG_PALETTE_KEY, JSON.stringify(palette));
+}
+
+// The palette colour, or a stable colour derived from the name for tags outside the palette
+export function tagColor(tag: string, palette: TagPalette): string {
+  const key = Object.keys(palette).find((paletteTag) => normalizeTag(paletteTag) === normalizeTag(tag));
+  if (key) return palette[key];
+  let hash = 0;
+  for (const char of normalizeTag(tag)) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  return TAG_COLORS[hash % TAG_COLORS.length];
+}
+
+// Adds a tag unless the node already has it in any spelling
+export const addTag = (tags: string[], tag: string): string[] =>
+  tags.some((existing) => normalizeTag(existing) === normalizeTag(tag)) ? tags : [...tags, cleanTag(tag)];
+
+/**
+ * Turns raw AI tag proposals into reviewable suggestions: only nodes inside `scope`, only tags
+ * from the vocabulary (in its spelling), and nothing the node is already tagged with.
+ */
+export function toTagSuggestions(output: AITagSuggestionsOutput, scope: MindMapNode[], vocabulary: string[]): TagSuggestion[] {
+  const nodesById = new Map(flattenTree(scope).map(({ node }) => [node.id, node]));
+  const canonical = new Map(vocabulary.map((tag) => [normalizeTag(tag), tag]));
+  const suggestions = new Map<string, TagSuggestion>();
+  for (const { id, tags } of output.suggestions ?? []) {
+    const node = nodesById.get(id);
+    if (!node || !Array.isArray(tags)) continue;
+    const existing = new Set(node.tags.map(normalizeTag));
+    const suggestion = suggestions.get(id) ?? { nodeId: id, nodeText: node.text, tags: [] };
+    for (const tag of tags) {
+      const normalized = typeof tag === 'string' ? normalizeTag(tag) : '';
+      const spelled = canonical.get(normalized);
+      if (spelled && !existing.has(normalized) && !suggestion.tags.includes(spelled)) suggestion.tags.push(spelled);
+    }
+    if (suggestion.tags.length > 0) suggestions.set(id, suggestion);
+  }
+  // Keep the map's reading order
+  return flattenTree(scope)
+    .map(({ node }) => suggestions.get(node.id))
+    .filter((suggestion): suggestion is TagSuggestion => suggestion !== undefined);
+}
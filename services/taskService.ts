@@ -0,0 +1,76 @@
+import { MindMapNode, TaskRollup, TaskStage } from '../types';
+import { flattenTree } from '../utils/treeUtils';
+import { isDateKey } from '../utils/dateUtils';
+
+export type TaskMetadata = NonNullable<NonNullable<MindMapNode['metadata']>['task']>;
+
+export interface TaskCard {
+  nodeId: string;
+  text: string;
+  path: string[]; // Ancestor titles, for context
+  task: TaskMetadata;
+}
+
+// `completed` is the source of truth for done-ness, so a task ticked off elsewhere never lingers in another column
+export const taskStage = (task: TaskMetadata): TaskStage =>
+  task.completed ? 'done' : task.stage && task.stage !== 'done' ? task.stage : 'todo';
+
+// Moving a card keeps `completed` in step with its column
+export const withStage = (task: TaskMetadata, stage: TaskStage): TaskMetadata => ({
+  ...task,
+  stage,
+  completed: stage === 'done',
+});
+
+// Free-text due dates from the AI ("next sprint") can't be compared, so only calendar dates count as overdue
+export const isOverdue = (task: TaskMetadata, today: string): boolean =>
+  !task.completed && isDateKey(task.dueDate) && task.dueDate < today;
+
+// Every task node in map order
+export function collectTasks(nodes: MindMapNode[]): TaskCard[] {
+  return flattenTree(nodes)
+    .filter(({ node }) => node.metadata?.task)
+    .map(({ node, ancestors }) => ({
+      nodeId: node.id,
+      text: node.text,
+      path: ancestors.map((ancestor) => ancestor.text),
+      task: node.metadata!.task!,
+    }));
+}
+
+/**
+ * Done/total counts of the tasks below each node, for every node with at least one task
+ * beneath it. A node's own task isn't part of its rollup.
+ */
+export function computeTaskRollups(nodes: MindMapNode[]): Map<string, TaskRollup> {
+  const counts = new Map<string, { done: number; total: number }>();
+  for (const { node, ancestors } of flattenTree(nodes)) {
+    const task = node.metadata?.task;
+    if (!task) continue;
+    for (const ancestor of ancestors) {
+      const count = counts.get(ancestor.id) ?? { done: 0, total: 0 };
+      count.total++;
+      if (task.completed) count.done++;
+      counts.set(ancestor.id, count);
+    }
+  }
+  return new Map(
+    [...counts].map(([id, { done, total }]) => [id, { done, total, percent: Math.round((done / total) * 100) }])
+  );
+}
+
+// Finished work the "show only incomplete" filter hides: completed tasks and branches with nothing
+// left to do, along with everything under them
+export function finishedNodeIds(nodes: MindMapNode[], rollups: Map<string, TaskRollup>): Set<string> {
+  const finished = new Set<string>();
+  for (const { node, ancestors } of flattenTree(nodes)) {
+    const rollup = rollups.get(node.id);
+    const branchDone = !rollup || rollup.done === rollup.total;
+    const isFinished = node.metadata?.task ? node.metadata.task.completed && branchDone : !!rollup && branchDone;
+    if (isFinished || ancestors.some((ancestor) => finished.has(ancestor.id))) finished.add(node.id);
+  }
+  return finished;
+}
+
+export const overdueNodeIds = (nodes: MindMapNode[], today: string): Set<string> =>
+  new Set(collectTasks(nodes).filter((card) => isOverdue(card.task, today)).map((card) => card.nodeId));
@@ -0,0 +1,153 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  WORKSPACE_DB_NAME,
+  WORKSPACE_DB_VERSION,
+  WORKSPACE_MAPS_STORE,
+  WORKSPACE_LAST_MAP_KEY,
+  WORKSPACE_HISTORY_LIMIT,
+  DEFAULT_MAP_NAME,
+} from '../constants';
+import { MindMapLink, MindMapMode, MindMapNode, MindMapSummary, SavedMindMap } from '../types';
+import { flattenTree } from '../utils/treeUtils';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(WORKSPACE_DB_NAME, WORKSPACE_DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(WORKSPACE_MAPS_STORE)) {
+          db.createObjectStore(WORKSPACE_MAPS_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null; // Allow a later call to retry opening
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Runs a single request against the maps store and resolves with its result
+const runMapsRequest = async <T>(
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(WORKSPACE_MAPS_STORE, mode);
+    const request = createRequest(transaction.objectStore(WORKSPACE_MAPS_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const countNodes = (nodes: MindMapNode[]): number =>
+  nodes.reduce((total, node) => total + 1 + countNodes(node.children), 0);
+
+export const toMindMapSummary = (map: SavedMindMap): MindMapSummary => ({
+  id: map.id,
+  name: map.name,
+  mode: map.mode,
+  nodeCount: countNodes(map.nodes),
+  updatedAt: map.updatedAt,
+});
+
+// Keeps only the most recent undo steps so saved maps don't grow without bound
+const trimHistory = (map: SavedMindMap): SavedMindMap => {
+  const overflow = map.history.length - WORKSPACE_HISTORY_LIMIT;
+  if (overflow <= 0) return map;
+  return {
+    ...map,
+    history: map.history.slice(overflow),
+    historyPointer: Math.max(0, map.historyPointer - overflow),
+    linkHistory: map.linkHistory?.slice(overflow),
+  };
+};
+
+// Drops cross-links whose nodes are gone from the map and from every kept undo step, so they can't come back
+const pruneLinks = (map: SavedMindMap): SavedMindMap => {
+  const ids = new Set([map.nodes, ...map.history].flatMap((nodes) => flattenTree(nodes).map(({ node }) => node.id)));
+  const prune = (links: MindMapLink[]) => links.filter((link) => ids.has(link.fromId) && ids.has(link.toId));
+  return { ...map, links: map.links && prune(map.links), linkHistory: map.linkHistory?.map(prune) };
+};
+
+export function createBlankMindMap(mode: MindMapMode, name: string = DEFAULT_MAP_NAME): SavedMindMap {
+  const now = new Date().toISOString();
+  return {
+    id: uuidv4(),
+    name,
+    mode,
+    nodes: [],
+    history: [[]],
+    historyPointer: 0,
+    links: [],
+    linkHistory: [[]],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export async function listMindMaps(): Promise<MindMapSummary[]> {
+  const maps = await runMapsRequest<SavedMindMap[]>('readonly', (store) => store.getAll());
+  return maps
+    .map(toMindMapSummary)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function getMindMap(id: string): Promise<SavedMindMap | null> {
+  const map = await runMapsRequest<SavedMindMap | undefined>('readonly', (store) => store.get(id));
+  return map ?? null;
+}
+
+export async function saveMindMap(map: SavedMindMap): Promise<SavedMindMap> {
+  const trimmed = pruneLinks(trimHistory(map));
+  await runMapsRequest('readwrite', (store) => store.put(trimmed));
+  return trimmed;
+}
+
+export async function deleteMindMap(id: string): Promise<void> {
+  await runMapsRequest('readwrite', (store) => store.delete(id));
+  if (getLastOpenedMapId() === id) {
+    localStorage.removeItem(WORKSPACE_LAST_MAP_KEY);
+  }
+}
+
+export async function renameMindMap(id: string, name: string): Promise<SavedMindMap | null> {
+  const map = await getMindMap(id);
+  if (!map) return null;
+  return saveMindMap({ ...map, name, updatedAt: new Date().toISOString() });
+}
+
+export async function duplicateMindMap(source: SavedMindMap, name: string = `${source.name} (copy)`): Promise<SavedMindMap> {
+  const now = new Date().toISOString();
+  const copy: SavedMindMap = {
+    ...JSON.parse(JSON.stringify(source)),
+    id: uuidv4(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+  };
+  return saveMindMap(copy);
+}
+
+export function getLastOpenedMapId(): string | null {
+  try {
+    return localStorage.getItem(WORKSPACE_LAST_MAP_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function setLastOpenedMapId(id: string): void {
+  try {
+    localStorage.setItem(WORKSPACE_LAST_MAP_KEY, id);
+  } catch (error) {
+    console.error('Failed to remember last opened map:', error);
+  }
+}
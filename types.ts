@@ -12,12 +12,39 @@ export interface MindMapNode {
     pros?: string[];
     cons?: string[];
     questions?: string[];
-    flashcard?: { front: string; back: string };
+    flashcard?: { front: string; back: string; schedule?: FlashcardSchedule }; // No schedule until first studied
     summary?: string;
-    task?: { description: string; completed: boolean; dueDate?: string };
+    task?: {
+      description: string;
+      completed: boolean;
+      dueDate?: string;
+      stage?: TaskStage;
+      assignee?: string;
+      startDate?: string; // YYYY-MM-DD; the task won't be scheduled earlier
+      durationDays?: number; // Estimate in calendar days; 0 marks a milestone
+      dependsOn?: string[]; // Ids of task nodes that must finish first
+    };
   };
 }
 
+// Task board column. Tasks saved before stages existed have none and sit in "todo" or "done" by `completed`.
+export type TaskStage = 'todo' | 'in-progress' | 'done';
+
+// Spaced-repetition state of a flashcard, updated by the SM-2 scheduler after each review
+export interface FlashcardSchedule {
+  ease: number; // Interval multiplier, never below 1.3
+  interval: number; // Days until the next review
+  repetitions: number; // Successful reviews in a row
+  dueDate: string; // YYYY-MM-DD, local time
+  lastReviewed: string; // YYYY-MM-DD, local time
+}
+
+// How well a card was recalled, from forgotten to effortless
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+// Which flashcards a study session covers
+export type StudyScope = { kind: 'map' } | { kind: 'subtree'; nodeId: string } | { kind: 'tag'; tag: string };
+
 export enum MindMapNodeType {
   ROOT = 'ROOT',
   MAIN_TOPIC = 'MAIN_TOPIC',
@@ -41,6 +68,7 @@ export enum InputType {
 // For AI intermediate output (simplifies schema definition)
 export interface AIMapNode {
   title: string;
+  id?: string; // Existing node id echoed back when restructuring a map
   subtopics?: AIMapNode[];
   pros?: string[]; // For debate mode
   cons?: string[]; // For debate mode
@@ -68,3 +96,249 @@ export interface AIProsConsOutput {
 export interface AIQuestionsOutput {
   questions: string[];
 }
+
+// Colour for each tag in the controlled vocabulary
+export type TagPalette = Record<string, string>;
+
+export interface AITagSuggestionsOutput {
+  suggestions: { id: string; tags: string[] }[];
+}
+
+// AI-proposed tags for one node, reviewed before they are added
+export interface TagSuggestion {
+  nodeId: string;
+  nodeText: string;
+  tags: string[];
+}
+
+export type QuizQuestionType = 'multiple-choice' | 'true-false' | 'short-answer';
+
+export interface AIQuizOutput {
+  questions: {
+    type: QuizQuestionType;
+    question: string;
+    answer?: string;
+    distractors?: string[];
+    isTrue?: boolean;
+    explanation?: string;
+    sourceId: string;
+  }[];
+}
+
+export interface QuizQuestion {
+  id: string;
+  type: QuizQuestionType;
+  prompt: string;
+  options: string[]; // Shuffled choices for multiple choice, True/False for true/false, empty for short answer
+  answer: string; // The correct option, or the model answer for short answer
+  explanation: string;
+  sourceNodeId: string;
+  sourceText: string;
+}
+
+// A generated quiz and the user's progress through it
+export interface QuizSession {
+  title: string;
+  questions: QuizQuestion[];
+  responses: Record<string, string>; // Question id -> chosen option or typed answer
+  acceptedIds: string[]; // Short answers the user marked correct despite not matching the model answer
+  submitted: boolean;
+}
+
+// Associative link between two nodes anywhere in the map, drawn as a dashed connector beside the tree
+export interface MindMapLink {
+  id: string;
+  fromId: string;
+  toId: string;
+  label: string; // Empty for an unlabelled link
+  directed: boolean; // Points from fromId to toId when true
+}
+
+export interface AICrossLinkSuggestionsOutput {
+  links: { fromId: string; toId: string; label: string; directed: boolean }[];
+}
+
+export interface AITaskEstimatesOutput {
+  tasks: { id: string; durationDays: number; dependsOn?: string[] }[];
+}
+
+// AI-proposed estimate for a task, reviewed before it is applied. Dependencies are only ever added.
+export interface TaskEstimateSuggestion {
+  nodeId: string;
+  text: string;
+  durationDays: number;
+  previousDurationDays?: number;
+  addedDependsOn: { id: string; text: string }[];
+}
+
+// AI-proposed link, reviewed before it is added
+export interface CrossLinkSuggestion extends MindMapLink {
+  fromText: string;
+  toText: string;
+}
+
+// Task completion over a node's branch
+export interface TaskRollup {
+  done: number;
+  total: number;
+  percent: number; // 0-100, rounded
+}
+
+// How the canvas presents search results, the tag filter and task progress
+export interface MapHighlightState {
+  matchIds: Set<string>;
+  activeMatchId: string | null; // The result stepped to with next/previous
+  outsideFilterIds: Set<string>; // Nodes in branches without the filtered tag
+  hideOutsideFilter: boolean; // Hide those branches instead of dimming them
+  finishedIds: Set<string>; // Completed tasks, and branches whose tasks are all done
+  hideFinished: boolean; // "Show only incomplete"
+  overdueIds: Set<string>;
+  taskRollups: Map<string, TaskRollup>; // Keyed by node id, for nodes with tasks below them
+}
+
+// "Expand with AI" on one node: add children, deepen by levels, or rewrite the branch below it
+export type NodeExpansionKind = 'children' | 'deepen' | 'rewrite';
+
+export interface NodeExpansionOptions {
+  kind: NodeExpansionKind;
+  count: number; // 'children' only
+  depth: 1 | 2; // 'deepen' only
+}
+
+// What the AI sees of the map around the expanded node
+export interface NodeExpansionContext {
+  title: string;
+  ancestorTitles: string[]; // Root first
+  siblingTitles: string[];
+  branchJson: string; // Current children as { map: AIMapNode[] }
+}
+
+// A mind map as persisted in the local IndexedDB workspace
+export interface SavedMindMap {
+  id: string;
+  name: string;
+  mode: MindMapMode;
+  nodes: MindMapNode[];
+  history: MindMapNode[][];
+  historyPointer: number;
+  links?: MindMapLink[]; // Missing from maps saved before cross-links
+  linkHistory?: MindMapLink[][]; // Cross-links at each history entry; missing from maps saved before links were undoable
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Lightweight listing entry for the workspace panel (avoids holding every map's history in memory)
+export interface MindMapSummary {
+  id: string;
+  name: string;
+  mode: MindMapMode;
+  nodeCount: number;
+  updatedAt: string;
+}
+
+// Versioned envelope written by Export Map and read back by Import Map
+export interface MindMapFile {
+  format: string;
+  version: number;
+  exportedAt: string;
+  nodes: MindMapNode[];
+  links?: MindMapLink[]; // Since format v2
+}
+
+export interface MindMapImportResult {
+  nodes: MindMapNode[];
+  links: MindMapLink[];
+  warnings: string[]; // Repairs applied while validating the file
+}
+
+// File formats offered in the Map Management section
+export type MapExportFormat =
+  | 'json'
+  | 'markdown'
+  | 'opml'
+  | 'freemind'
+  | 'xmind'
+  | 'svg'
+  | 'png'
+  | 'anki'
+  | 'flashcards-csv'
+  | 'icalendar';
+
+export interface ImageExportOptions {
+  scope: 'all' | 'expanded' | 'selected'; // Whole map, only what's expanded, or the selected subtree
+  scale: number; // PNG pixel ratio
+}
+
+// How the canvas arranges the map: the nested outline, or a positioned graph with SVG edges
+export type CanvasLayout = 'outline' | 'right-tree' | 'balanced' | 'radial' | 'org-chart';
+
+export interface PdfExtractionResult {
+  text: string;
+  firstPage: number;
+  lastPage: number;
+  pagesWithoutText: number[]; // Pages with no usable text layer (e.g. scanned images)
+  isLikelyScanned: boolean; // True when no page in the range had a text layer
+}
+
+// --- AI provider layer ---
+
+export type AIProviderId = 'gemini' | 'openai' | 'ollama' | 'mock';
+
+export type AIModelTier = 'fast' | 'pro'; // Quick single-node tasks vs. whole-map reasoning
+
+export interface AIProviderSettings {
+  provider: AIProviderId;
+  baseUrl: string; // Unused by Gemini
+  apiKey: string; // Blank means the build-time key (Gemini) or none (local servers)
+  fastModel: string;
+  proModel: string;
+  mock?: MockAIOptions; // Mock provider only
+}
+
+// 'malformed-json-once' corrupts only the first response, so callers' reformat fallbacks succeed
+export type MockAIFailureMode = 'none' | 'malformed-json-once' | 'malformed-json' | 'error';
+
+export interface MockAIOptions {
+  seed: number; // Same seed and prompt always give the same output
+  latencyMs: number;
+  failureMode: MockAIFailureMode;
+}
+
+export interface AIJsonRequest {
+  tier: AIModelTier;
+  systemInstruction?: string;
+  prompt: string;
+  schema: Record<string, unknown>;
+  maxOutputTokens: number;
+  useThinking?: boolean; // Honoured by providers with a thinking budget
+}
+
+// A backend able to run the app's structured-JSON prompts
+export interface AIProvider {
+  readonly id: AIProviderId;
+  // Resolves with the raw JSON text produced by the model, or null for an empty response
+  generateJson(request: AIJsonRequest): Promise<string | null>;
+  // Transcribes 16 kHz mono 16-bit PCM audio
+  transcribeAudio(pcmAudio: Blob): Promise<string>;
+}
+
+// --- Reviewing AI restructuring ---
+
+export type MapChangeKind = 'added' | 'removed' | 'renamed' | 'moved' | 'merged';
+
+// One structural difference between the current map and an AI proposal, accepted or rejected on its own
+export interface MapChange {
+  id: string;
+  kind: MapChangeKind;
+  nodeId: string; // Existing node, or the proposed node for 'added'
+  text: string;
+  newText?: string; // 'renamed'
+  fromParentText?: string | null; // 'moved'; null means top level
+  toParentId?: string | null; // 'added' and 'moved': existing node, or a node created by another 'added' change
+  toParentText?: string | null;
+  afterNodeId?: string | null; // 'added' and 'moved': sibling to follow, null for first place
+  intoNodeId?: string; // 'merged': the node that absorbs this one
+  intoText?: string;
+  subtree?: MindMapNode; // 'added': the new node and its new descendants
+  dependsOn?: string; // Change that must also be accepted, e.g. the 'added' parent of a move
+}
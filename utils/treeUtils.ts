@@ -0,0 +1,186 @@
+import { v4 as uuidv4 } from 'uuid';
+import { MindMapNode, MindMapNodeType } from '../types';
+
+// Node type follows depth: top-level nodes are main topics, then sub topics, then details
+export const nodeTypeForDepth = (depth: number): MindMapNodeType =>
+  depth === 0 ? MindMapNodeType.MAIN_TOPIC : depth === 1 ? MindMapNodeType.SUB_TOPIC : MindMapNodeType.DETAIL;
+
+export interface NodeWithAncestors {
+  node: MindMapNode;
+  ancestors: MindMapNode[]; // Root first, parent last
+}
+
+// Depth-first list of every node together with its ancestor chain
+export const flattenTree = (nodes: MindMapNode[], ancestors: MindMapNode[] = []): NodeWithAncestors[] =>
+  nodes.flatMap((node) => [{ node, ancestors }, ...flattenTree(node.children, [...ancestors, node])]);
+
+// Re-links parent ids and resets node types by depth, e.g. after grafting a branch under a node
+export const normalizeBranch = (nodes: MindMapNode[], parentId: string | null, depth: number): MindMapNode[] =>
+  nodes.map((node) => ({
+    ...node,
+    parentId,
+    type: nodeTypeForDepth(depth),
+    children: normalizeBranch(node.children, node.id, depth + 1),
+  }));
+
+export interface NodePosition {
+  parentId: string | null;
+  index: number; // Index among the new siblings, counted with the moved node taken out
+}
+
+export type DropPosition = 'before' | 'after' | 'inside';
+export type KeyboardMove = 'up' | 'down' | 'indent' | 'outdent';
+
+const siblingsOf = (nodes: MindMapNode[], parent: MindMapNode | undefined) => (parent ? parent.children : nodes);
+
+/**
+ * Moves a node (with its branch) to a new parent and index, re-linking parent ids and retyping the
+ * branch for its new depth. Returns null when the node or parent is missing or the move would put
+ * a node inside its own branch.
+ */
+export function moveNode(nodes: MindMapNode[], nodeId: string, { parentId, index }: NodePosition): MindMapNode[] | null {
+  const entries = flattenTree(nodes);
+  const moving = entries.find(({ node }) => node.id === nodeId);
+  const target = parentId === null ? null : entries.find(({ node }) => node.id === parentId);
+  if (!moving || target === undefined) return null;
+  if (target && (target.node.id === nodeId || target.ancestors.some((ancestor) => ancestor.id === nodeId))) return null;
+
+  const depth = target ? target.ancestors.length + 1 : 0;
+  const [moved] = normalizeBranch([moving.node], parentId, depth);
+  const insert = (siblings: MindMapNode[]) => {
+    const remaining = siblings.filter((node) => node.id !== nodeId);
+    remaining.splice(Math.max(0, Math.min(index, remaining.length)), 0, moved);
+    return remaining;
+  };
+  const rebuild = (siblings: MindMapNode[]): MindMapNode[] =>
+    siblings
+      .filter((node) => node.id !== nodeId)
+      .map((node) =>
+        node.id === parentId
+          ? { ...node, isExpanded: true, children: insert(rebuild(node.children)) }
+          : { ...node, children: rebuild(node.children) }
+      );
+  return parentId === null ? insert(rebuild(nodes)) : rebuild(nodes);
+}
+
+// Where a dragged node lands when dropped before, after or inside (as last child of) a target node
+export function dropPosition(nodes: MindMapNode[], nodeId: string, targetId: string, position: DropPosition): NodePosition | null {
+  const target = flattenTree(nodes).find(({ node }) => node.id === targetId);
+  if (!target || targetId === nodeId) return null;
+  if (position === 'inside') {
+    return { parentId: targetId, index: target.node.children.filter((child) => child.id !== nodeId).length };
+  }
+  const parent = target.ancestors[target.ancestors.length - 1];
+  const siblings = siblingsOf(nodes, parent).filter((node) => node.id !== nodeId);
+  const index = siblings.findIndex((node) => node.id === targetId);
+  return { parentId: parent?.id ?? null, index: position === 'before' ? index : index + 1 };
+}
+
+/**
+ * Keyboard equivalents of dragging: up/down swap with the neighbouring sibling, indent makes the
+ * node the last child of its previous sibling, outdent places it right after its parent.
+ */
+export function keyboardMovePosition(nodes: MindMapNode[], nodeId: string, move: KeyboardMove): NodePosition | null {
+  const entry = flattenTree(nodes).find(({ node }) => node.id === nodeId);
+  if (!entry) return null;
+  const parent = entry.ancestors[entry.ancestors.length - 1];
+  const siblings = siblingsOf(nodes, parent);
+  const index = siblings.findIndex((node) => node.id === nodeId);
+  const parentId = parent?.id ?? null;
+
+  switch (move) {
+    case 'up':
+      return index > 0 ? { parentId, index: index - 1 } : null;
+    case 'down':
+      return index < siblings.length - 1 ? { parentId, index: index + 1 } : null;
+    case 'indent': {
+      const previous = siblings[index - 1];
+      return previous ? { parentId: previous.id, index: previous.children.length } : null;
+    }
+    case 'outdent': {
+      if (!parent) return null;
+      const grandparent = entry.ancestors[entry.ancestors.length - 2];
+      const parentIndex = siblingsOf(nodes, grandparent).findIndex((node) => node.id === parent.id);
+      return { parentId: grandparent?.id ?? null, index: parentIndex + 1 };
+    }
+  }
+}
+
+export type SelectionMove = 'up' | 'down' | 'left' | 'right';
+
+/**
+ * The node arrow-key navigation lands on: up/down go to the previous/next sibling, left to the
+ * parent and right to the first child. Null when there is nowhere to go.
+ */
+export function adjacentNode(nodes: MindMapNode[], nodeId: string, move: SelectionMove): MindMapNode | null {
+  const entry = flattenTree(nodes).find(({ node }) => node.id === nodeId);
+  if (!entry) return null;
+  const parent = entry.ancestors[entry.ancestors.length - 1];
+  const siblings = siblingsOf(nodes, parent);
+  const index = siblings.findIndex((node) => node.id === nodeId);
+
+  switch (move) {
+    case 'up':
+      return siblings[index - 1] ?? null;
+    case 'down':
+      return siblings[index + 1] ?? null;
+    case 'left':
+      return parent ?? null;
+    case 'right':
+      return entry.node.children[0] ?? null;
+  }
+}
+
+// The given ids minus any whose ancestor is also given, so bulk actions touch each branch once
+export const topmostNodeIds = (nodes: MindMapNode[], ids: string[]): string[] => {
+  const wanted = new Set(ids);
+  return flattenTree(nodes)
+    .filter(({ node, ancestors }) => wanted.has(node.id) && !ancestors.some((ancestor) => wanted.has(ancestor.id)))
+    .map(({ node }) => node.id);
+};
+
+// A copy of a branch with fresh ids, re-linked and retyped for where it will be inserted
+export const cloneBranch = (node: MindMapNode, parentId: string | null, depth: number): MindMapNode => {
+  const id = uuidv4();
+  return {
+    ...node,
+    id,
+    parentId,
+    type: nodeTypeForDepth(depth),
+    tags: [...node.tags],
+    metadata: node.metadata && JSON.parse(JSON.stringify(node.metadata)),
+    children: node.children.map((child) => cloneBranch(child, id, depth + 1)),
+  };
+};
+
+/**
+ * Inserts branches under a parent (null for top level) at an index, or after its last child.
+ * The branches are re-linked and retyped for their depth; the parent is expanded to show them.
+ */
+export function insertBranches(nodes: MindMapNode[], parentId: string | null, branches: MindMapNode[], index?: number): MindMapNode[] {
+  const insertInto = (siblings: MindMapNode[], depth: number) => {
+    const result = [...siblings];
+    result.splice(index ?? result.length, 0, ...normalizeBranch(branches, parentId, depth));
+    return result;
+  };
+  if (parentId === null) return insertInto(nodes, 0);
+  const rebuild = (siblings: MindMapNode[], depth: number): MindMapNode[] =>
+    siblings.map((node) =>
+      node.id === parentId
+        ? { ...node, isExpanded: true, children: insertInto(node.children, depth + 1) }
+        : { ...node, children: rebuild(node.children, depth + 1) }
+    );
+  return rebuild(nodes, 0);
+}
+
+// Places a fresh copy of each branch right after the original
+export function duplicateBranches(nodes: MindMapNode[], ids: string[]): MindMapNode[] {
+  return topmostNodeIds(nodes, ids).reduce((current, id) => {
+    const entry = flattenTree(current).find(({ node }) => node.id === id);
+    if (!entry) return current;
+    const parent = entry.ancestors[entry.ancestors.length - 1];
+    const index = siblingsOf(current, parent).findIndex((node) => node.id === id);
+    const copy = cloneBranch(entry.node, parent?.id ?? null, entry.ancestors.length);
+    return insertBranches(current, parent?.id ?? null, [copy], index + 1);
+  }, nodes);
+}
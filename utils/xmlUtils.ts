@@ -0,0 +1,16 @@
+// Escapes text for use in XML attribute values and element content
+export const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\n/g, '&#10;');
+
+export function parseXmlDocument(xml: string, formatName: string): Document {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.querySelector('parsererror')) {
+    throw new Error(`The file is not valid ${formatName}.`);
+  }
+  return doc;
+}
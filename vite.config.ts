@@ -12,7 +12,15 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER),
+        'process.env.AI_ALLOWED_PROVIDERS': JSON.stringify(env.AI_ALLOWED_PROVIDERS),
+        'process.env.AI_BASE_URL': JSON.stringify(env.AI_BASE_URL),
+        'process.env.AI_FAST_MODEL': JSON.stringify(env.AI_FAST_MODEL),
+        'process.env.AI_PRO_MODEL': JSON.stringify(env.AI_PRO_MODEL),
+        'process.env.AI_MOCK_SEED': JSON.stringify(env.AI_MOCK_SEED),
+        'process.env.AI_MOCK_LATENCY_MS': JSON.stringify(env.AI_MOCK_LATENCY_MS),
+        'process.env.AI_MOCK_FAILURE': JSON.stringify(env.AI_MOCK_FAILURE)
       },
       resolve: {
         alias: {